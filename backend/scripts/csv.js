@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Minimal CSV reader for the seed files in database/seed
+ * Supports a header row and double-quoted fields (with "" escapes)
+ * @param {string} filePath
+ * @returns {Array<Object>} One object per row keyed by header name
+ */
+export const readCsv = (filePath) => {
+  const lines = readFileSync(filePath, 'utf8')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+
+  const parseLine = (line) => {
+    const fields = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current);
+    return fields;
+  };
+
+  const [header, ...rows] = lines.map(parseLine);
+
+  return rows.map((fields) =>
+    Object.fromEntries(header.map((name, index) => [name.trim(), (fields[index] ?? '').trim()]))
+  );
+};
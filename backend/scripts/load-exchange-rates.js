@@ -0,0 +1,35 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import pool, { query } from '../src/config/database.js';
+import { readCsv } from './csv.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Default rates shipped with the repo; pass a path to load a different file
+const csvPath = process.argv[2] || join(__dirname, '..', '..', 'database', 'seed', 'exchange_rates.csv');
+
+async function loadExchangeRates() {
+  console.log(`💱 Loading exchange rates from ${csvPath}`);
+
+  const rows = readCsv(csvPath);
+
+  for (const row of rows) {
+    await query(
+      `INSERT INTO exchange_rates (currency, effective_date, rate_per_usd)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (currency, effective_date)
+       DO UPDATE SET rate_per_usd = EXCLUDED.rate_per_usd`,
+      [row.currency.toUpperCase(), row.effective_date, row.rate_per_usd]
+    );
+  }
+
+  console.log(`✅ Loaded ${rows.length} exchange rates`);
+}
+
+loadExchangeRates()
+  .catch((error) => {
+    console.error('❌ Failed to load exchange rates:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,35 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import pool, { query } from '../src/config/database.js';
+import { readCsv } from './csv.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Default schedule shipped with the repo; pass a path to load a different file
+const csvPath = process.argv[2] || join(__dirname, '..', '..', 'database', 'seed', 'fuel_surcharge_schedule.csv');
+
+async function loadFuelSchedule() {
+  console.log(`⛽ Loading fuel surcharge schedule from ${csvPath}`);
+
+  const rows = readCsv(csvPath);
+
+  for (const row of rows) {
+    await query(
+      `INSERT INTO fuel_surcharge_schedule (country, week_start, diesel_price, cents_per_mile)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (country, week_start)
+       DO UPDATE SET diesel_price = EXCLUDED.diesel_price, cents_per_mile = EXCLUDED.cents_per_mile`,
+      [row.country.toUpperCase(), row.week_start, row.diesel_price, row.cents_per_mile]
+    );
+  }
+
+  console.log(`✅ Loaded ${rows.length} fuel surcharge rows`);
+}
+
+loadFuelSchedule()
+  .catch((error) => {
+    console.error('❌ Failed to load fuel surcharge schedule:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,47 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import pool, { query } from '../src/config/database.js';
+import { normalizePostalCode } from '../src/services/gazetteerGeocoder.js';
+import { readCsv } from './csv.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Default gazetteer shipped with the repo; pass a path to load a different file
+const csvPath = process.argv[2] || join(__dirname, '..', '..', 'database', 'seed', 'gazetteer.csv');
+
+async function loadGazetteer() {
+  console.log(`🗺️  Loading gazetteer from ${csvPath}`);
+
+  const rows = readCsv(csvPath);
+
+  for (const row of rows) {
+    await query(
+      `INSERT INTO gazetteer (country, postal_code, city, state_province, coordinates, population)
+       VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($6, $5), 4326)::geography, $7)
+       ON CONFLICT (country, postal_code)
+       DO UPDATE SET city = EXCLUDED.city,
+                     state_province = EXCLUDED.state_province,
+                     coordinates = EXCLUDED.coordinates,
+                     population = EXCLUDED.population`,
+      [
+        row.country.toUpperCase(),
+        normalizePostalCode(row.postal_code),
+        row.city,
+        row.state_province || null,
+        parseFloat(row.latitude),
+        parseFloat(row.longitude),
+        row.population ? parseInt(row.population) : null,
+      ]
+    );
+  }
+
+  console.log(`✅ Loaded ${rows.length} gazetteer entries`);
+}
+
+loadGazetteer()
+  .catch((error) => {
+    console.error('❌ Failed to load gazetteer:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
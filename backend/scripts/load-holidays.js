@@ -0,0 +1,35 @@
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import pool, { query } from '../src/config/database.js';
+import { readCsv } from './csv.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Default holiday calendar shipped with the repo; pass a path to load a different file
+const csvPath = process.argv[2] || join(__dirname, '..', '..', 'database', 'seed', 'holidays.csv');
+
+async function loadHolidays() {
+  console.log(`📅 Loading statutory holidays from ${csvPath}`);
+
+  const rows = readCsv(csvPath);
+
+  for (const row of rows) {
+    await query(
+      `INSERT INTO holidays (country, holiday_date, name)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (country, holiday_date)
+       DO UPDATE SET name = EXCLUDED.name`,
+      [row.country.toUpperCase(), row.holiday_date, row.name]
+    );
+  }
+
+  console.log(`✅ Loaded ${rows.length} holidays`);
+}
+
+loadHolidays()
+  .catch((error) => {
+    console.error('❌ Failed to load holidays:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
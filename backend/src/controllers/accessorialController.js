@@ -0,0 +1,64 @@
+import { query } from '../config/database.js';
+import { getAccessorialTypes, parseAccessorialType } from '../services/accessorials.js';
+
+/**
+ * Get accessorial types (active only unless ?include_inactive=true)
+ */
+export const getAllAccessorialTypes = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getAccessorialTypes(includeInactive),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update an accessorial type's name, price, equipment restriction or active flag
+ * Quotes keep the name and price they were priced with (copied to quote_line_items).
+ */
+export const updateAccessorialType = async (req, res, next) => {
+  try {
+    const { code } = req.params;
+
+    const existing = await query('SELECT * FROM accessorial_types WHERE code = $1', [code]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Accessorial ${code} not found`,
+      });
+    }
+
+    const updated = { ...existing.rows[0], ...req.body };
+
+    const result = await query(
+      `UPDATE accessorial_types SET
+        name = $1,
+        price = $2,
+        allowed_equipment_types = $3,
+        active = $4
+      WHERE code = $5
+      RETURNING *`,
+      [
+        updated.name,
+        updated.price,
+        updated.allowed_equipment_types,
+        updated.active,
+        code,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Accessorial updated successfully',
+      data: parseAccessorialType(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,74 @@
+import { query } from '../config/database.js';
+import { getCalendarRules, parseCalendarRule } from '../services/calendarRules.js';
+
+/**
+ * Get calendar rules (active only unless ?include_inactive=true)
+ */
+export const getCalendarRuleList = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getCalendarRules(includeInactive),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a calendar rule's name, scope, window, premium or active flag
+ * The rule type is fixed; existing quotes keep the premiums they were priced with.
+ */
+export const updateCalendarRule = async (req, res, next) => {
+  try {
+    const { code } = req.params;
+
+    const existing = await query('SELECT * FROM calendar_rules WHERE code = $1', [code]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Calendar rule ${code} not found`,
+      });
+    }
+
+    const updated = { ...existing.rows[0], ...req.body };
+
+    const result = await query(
+      `UPDATE calendar_rules SET
+        name = $1,
+        country = $2,
+        equipment_type = $3,
+        season_start = $4,
+        season_end = $5,
+        max_days_notice = $6,
+        percent = $7,
+        flat_amount = $8,
+        active = $9
+      WHERE code = $10
+      RETURNING *`,
+      [
+        updated.name,
+        updated.country,
+        updated.equipment_type,
+        updated.season_start,
+        updated.season_end,
+        updated.max_days_notice,
+        updated.percent,
+        updated.flat_amount,
+        updated.active,
+        code,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Calendar rule updated successfully',
+      data: parseCalendarRule(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
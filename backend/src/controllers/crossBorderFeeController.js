@@ -0,0 +1,64 @@
+import { query } from '../config/database.js';
+import { getAllCrossBorderFees, parseCrossBorderFee } from '../services/crossBorderFees.js';
+
+/**
+ * Get cross-border fees (active only unless ?include_inactive=true)
+ */
+export const getCrossBorderFeeList = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getAllCrossBorderFees(includeInactive),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a cross-border fee's name, amount, country restriction or active flag
+ * Existing quotes keep the fees they were priced with (copied to quote_line_items).
+ */
+export const updateCrossBorderFee = async (req, res, next) => {
+  try {
+    const { code } = req.params;
+
+    const existing = await query('SELECT * FROM cross_border_fees WHERE code = $1', [code]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Cross-border fee ${code} not found`,
+      });
+    }
+
+    const updated = { ...existing.rows[0], ...req.body };
+
+    const result = await query(
+      `UPDATE cross_border_fees SET
+        name = $1,
+        amount = $2,
+        applies_to_country = $3,
+        active = $4
+      WHERE code = $5
+      RETURNING *`,
+      [
+        updated.name,
+        updated.amount,
+        updated.applies_to_country || null,
+        updated.active,
+        code,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Cross-border fee updated successfully',
+      data: parseCrossBorderFee(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
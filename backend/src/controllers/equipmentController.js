@@ -0,0 +1,176 @@
+import { geocodeLocation } from '../services/geocoding.js';
+import { calculateDistance } from '../services/routing.js';
+import { priceShipment } from '../services/quotePricing.js';
+import { getExchangeRate } from '../services/exchangeRates.js';
+import { buildVehicleProfile, checkEquipmentFit, getEquipmentTypes } from '../services/equipment.js';
+import { choosePortOfEntry, withPortOfEntry } from '../services/portsOfEntry.js';
+
+/**
+ * Get equipment types and their capabilities (active only unless ?include_inactive=true)
+ */
+export const getEquipmentTypeList = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getEquipmentTypes(includeInactive),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Recommend equipment for a shipment
+ * Checks every equipment type against the load's weight, dimensions, temperature
+ * range and loading method, prices the ones that can carry it on the lane (each
+ * routed for its own truck through the lane's port of entry), and marks the cheapest.
+ * Nothing is saved.
+ */
+export const recommendEquipment = async (req, res, next) => {
+  try {
+    const {
+      origin,
+      destination,
+      total_weight,
+      pickup_date,
+      currency = 'USD',
+      dimensions = null,
+      temperature = null,
+      loading_method = null,
+      port_of_entry = null,
+    } = req.body;
+
+    const exchangeRate = await getExchangeRate(currency);
+
+    let originCoords;
+    try {
+      originCoords = await geocodeLocation(origin);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Geocoding error',
+        message: `Failed to geocode origin location: ${error.message}`,
+      });
+    }
+
+    let destCoords;
+    try {
+      destCoords = await geocodeLocation(destination);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Geocoding error',
+        message: `Failed to geocode destination location: ${error.message}`,
+      });
+    }
+
+    // Cross-border lanes cross at the same port whatever the equipment
+    const portOfEntry = await choosePortOfEntry(
+      [{ ...origin, coords: originCoords }, { ...destination, coords: destCoords }],
+      port_of_entry
+    );
+
+    // Equipment whose trucks share the same attributes share one route
+    const routes = new Map();
+    const routeFor = (vehicle) => {
+      const key = JSON.stringify(vehicle);
+      if (!routes.has(key)) {
+        routes.set(key, calculateDistance(withPortOfEntry([originCoords, destCoords], portOfEntry), vehicle));
+      }
+      return routes.get(key);
+    };
+
+    const equipmentTypes = await getEquipmentTypes();
+    const recommendations = [];
+
+    for (const equipment of equipmentTypes) {
+      const reasons = checkEquipmentFit(equipment, {
+        weightLbs: parseFloat(total_weight),
+        dimensions,
+        temperature,
+        loadingMethod: loading_method,
+      });
+
+      if (reasons.length > 0) {
+        recommendations.push({
+          equipment_type: equipment.code,
+          name: equipment.name,
+          viable: false,
+          reasons,
+          quote_amount: null,
+          line_items: [],
+          pricing_rule: null,
+          distance_miles: null,
+          distance_kilometers: null,
+          distance_source: null,
+          routing_profile: null,
+        });
+        continue;
+      }
+
+      let distance;
+      try {
+        distance = await routeFor(buildVehicleProfile(equipment));
+      } catch (error) {
+        return res.status(500).json({
+          success: false,
+          error: 'Distance calculation error',
+          message: error.message,
+        });
+      }
+
+      const pricing = await priceShipment({
+        origin,
+        destination,
+        originCoords,
+        destinationCoords: destCoords,
+        equipmentType: equipment.code,
+        totalWeight: total_weight,
+        pickupDate: pickup_date,
+        distanceMiles: distance.distance_miles,
+        portOfEntry,
+        exchangeRate,
+      });
+
+      recommendations.push({
+        equipment_type: equipment.code,
+        name: equipment.name,
+        viable: true,
+        reasons: [],
+        quote_amount: pricing.quote_amount,
+        line_items: pricing.line_items,
+        pricing_rule: pricing.pricingRule,
+        distance_miles: distance.distance_miles,
+        distance_kilometers: distance.distance_km,
+        distance_source: distance.source,
+        routing_profile: distance.profile,
+      });
+    }
+
+    // Viable equipment cheapest first, then the equipment that cannot carry the load
+    recommendations.sort((a, b) => {
+      if (a.viable !== b.viable) return a.viable ? -1 : 1;
+      return a.viable ? a.quote_amount - b.quote_amount : 0;
+    });
+
+    const cheapest = recommendations.find((recommendation) => recommendation.viable);
+
+    res.json({
+      success: true,
+      data: {
+        // Distance of the cheapest equipment's route
+        distance_miles: cheapest ? cheapest.distance_miles : null,
+        distance_kilometers: cheapest ? cheapest.distance_kilometers : null,
+        distance_source: cheapest ? cheapest.distance_source : null,
+        port_of_entry: portOfEntry ? portOfEntry.port.name : null,
+        currency: exchangeRate.currency,
+        recommendations,
+        cheapest_equipment_type: cheapest ? cheapest.equipment_type : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
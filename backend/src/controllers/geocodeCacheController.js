@@ -0,0 +1,84 @@
+import { getCacheTtlDays, listGeocodeCache, purgeGeocodeCache } from '../services/geocodeCache.js';
+
+/**
+ * Read the cache filters shared by listing and purging
+ */
+const getFilters = (req) => ({
+  country: req.query.country || null,
+  search: req.query.search || null,
+  expiredOnly: req.query.expired_only === 'true',
+});
+
+/**
+ * Inspect geocode cache entries with pagination
+ * Filters: ?country=CA, ?search=toronto (city or postal code), ?expired_only=true
+ */
+export const getGeocodeCacheList = async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 25;
+    const offset = (page - 1) * limit;
+
+    const { entries, total, summary } = await listGeocodeCache(getFilters(req), limit, offset);
+
+    res.json({
+      success: true,
+      data: entries,
+      summary: {
+        ...summary,
+        ttl_days: getCacheTtlDays(),
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Purge geocode cache entries
+ * Takes the same filters as the list; without any the whole cache is cleared.
+ */
+export const purgeGeocodeCacheEntries = async (req, res, next) => {
+  try {
+    const deleted = await purgeGeocodeCache(getFilters(req));
+
+    res.json({
+      success: true,
+      message: `Purged ${deleted} geocode cache ${deleted === 1 ? 'entry' : 'entries'}`,
+      data: { deleted },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a single geocode cache entry
+ */
+export const deleteGeocodeCacheEntry = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = await purgeGeocodeCache({ id: parseInt(id) });
+    if (deleted === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Geocode cache entry ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Geocode cache entry deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
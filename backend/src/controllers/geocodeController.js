@@ -0,0 +1,40 @@
+import { reverseGeocode } from '../services/geocoding.js';
+
+/**
+ * Reverse geocode a point (e.g. a pin dropped on the route map)
+ * ?lat=43.6532&lon=-79.3832
+ */
+export const getReverseGeocode = async (req, res, next) => {
+  const point = {
+    latitude: parseFloat(req.query.lat),
+    longitude: parseFloat(req.query.lon),
+  };
+
+  let location;
+  try {
+    location = await reverseGeocode(point);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'Geocoding error',
+      message: error.message,
+    });
+  }
+
+  try {
+    if (!location) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `No location found at ${point.latitude}, ${point.longitude}`,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,170 @@
+import { query } from '../config/database.js';
+import { describeLaneRate, normalizePostalPrefix, parseLaneRate } from '../services/laneRates.js';
+
+const LANE_RATE_FIELDS = [
+  'name',
+  'origin_country',
+  'origin_state_province',
+  'origin_postal_prefix',
+  'destination_country',
+  'destination_state_province',
+  'destination_postal_prefix',
+  'equipment_type',
+  'rate_per_mile',
+  'minimum_quote',
+  'active',
+];
+
+/**
+ * Normalize region keys so matching is case/space insensitive
+ */
+const normalizeLaneRate = (laneRate) => ({
+  ...laneRate,
+  origin_state_province: laneRate.origin_state_province ? laneRate.origin_state_province.toUpperCase() : null,
+  origin_postal_prefix: normalizePostalPrefix(laneRate.origin_postal_prefix) || null,
+  destination_state_province: laneRate.destination_state_province ? laneRate.destination_state_province.toUpperCase() : null,
+  destination_postal_prefix: normalizePostalPrefix(laneRate.destination_postal_prefix) || null,
+  equipment_type: laneRate.equipment_type || null,
+  minimum_quote: laneRate.minimum_quote ?? null,
+  name: laneRate.name || null,
+  active: laneRate.active ?? true,
+});
+
+/**
+ * Add a human-readable description to a lane rate row
+ */
+const formatLaneRate = (row) => {
+  const laneRate = parseLaneRate(row);
+  return { ...laneRate, description: describeLaneRate(laneRate) };
+};
+
+/**
+ * Get all lane rates
+ */
+export const getAllLaneRates = async (req, res, next) => {
+  try {
+    const result = await query(
+      'SELECT * FROM lane_rates ORDER BY origin_country, destination_country, id'
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(formatLaneRate),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a single lane rate by ID
+ */
+export const getLaneRateById = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query('SELECT * FROM lane_rates WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Lane rate with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatLaneRate(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a new lane rate override
+ */
+export const createLaneRate = async (req, res, next) => {
+  try {
+    const laneRate = normalizeLaneRate(req.body);
+
+    const result = await query(
+      `INSERT INTO lane_rates (${LANE_RATE_FIELDS.join(', ')})
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      LANE_RATE_FIELDS.map((field) => laneRate[field])
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Lane rate created successfully',
+      data: formatLaneRate(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a lane rate override
+ */
+export const updateLaneRate = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await query('SELECT * FROM lane_rates WHERE id = $1', [id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Lane rate with ID ${id} not found`,
+      });
+    }
+
+    const laneRate = normalizeLaneRate({ ...existing.rows[0], ...req.body });
+    const assignments = LANE_RATE_FIELDS.map((field, index) => `${field} = $${index + 1}`).join(', ');
+
+    const result = await query(
+      `UPDATE lane_rates SET ${assignments}
+       WHERE id = $${LANE_RATE_FIELDS.length + 1}
+       RETURNING *`,
+      [...LANE_RATE_FIELDS.map((field) => laneRate[field]), id]
+    );
+
+    res.json({
+      success: true,
+      message: 'Lane rate updated successfully',
+      data: formatLaneRate(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a lane rate override
+ * Quotes priced with it keep their pricing_rule description
+ */
+export const deleteLaneRate = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query('DELETE FROM lane_rates WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Lane rate with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Lane rate deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,21 @@
+import { searchLocations } from '../services/locationSearch.js';
+
+/**
+ * Suggest locations for autocomplete
+ * ?q=dal (city, "city, state", state/province or postal code), ?country=US, ?limit=10
+ */
+export const getLocationSuggestions = async (req, res, next) => {
+  try {
+    const locations = await searchLocations(req.query.q, {
+      country: req.query.country || null,
+      limit: parseInt(req.query.limit) || 10,
+    });
+
+    res.json({
+      success: true,
+      data: locations,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
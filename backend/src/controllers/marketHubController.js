@@ -0,0 +1,127 @@
+import { query } from '../config/database.js';
+import { getMarketHubs, parseMarketHub } from '../services/marketHubs.js';
+
+const RETURNING_HUB = `RETURNING *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude`;
+
+/**
+ * Get market hubs (active only unless ?include_inactive=true)
+ */
+export const getMarketHubList = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getMarketHubs(includeInactive),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a market hub
+ */
+export const createMarketHub = async (req, res, next) => {
+  try {
+    const { name, country, state_province, latitude, longitude, active } = req.body;
+
+    const result = await query(
+      `INSERT INTO market_hubs (name, country, state_province, coordinates, active)
+       VALUES ($1, $2, $3, ST_SetSRID(ST_MakePoint($5, $4), 4326)::geography, $6)
+       ${RETURNING_HUB}`,
+      [name, country, state_province || null, latitude, longitude, active ?? true]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Market hub created successfully',
+      data: parseMarketHub(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a market hub's name, location or active flag
+ * Quotes keep the hub names and deadhead miles they were priced with.
+ */
+export const updateMarketHub = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await query(
+      `SELECT *,
+          ST_Y(coordinates::geometry) as latitude,
+          ST_X(coordinates::geometry) as longitude
+       FROM market_hubs WHERE id = $1`,
+      [id]
+    );
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Market hub with ID ${id} not found`,
+      });
+    }
+
+    const updated = { ...existing.rows[0], ...req.body };
+
+    const result = await query(
+      `UPDATE market_hubs SET
+        name = $1,
+        country = $2,
+        state_province = $3,
+        coordinates = ST_SetSRID(ST_MakePoint($5, $4), 4326)::geography,
+        active = $6
+      WHERE id = $7
+      ${RETURNING_HUB}`,
+      [
+        updated.name,
+        updated.country,
+        updated.state_province || null,
+        updated.latitude,
+        updated.longitude,
+        updated.active,
+        id,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Market hub updated successfully',
+      data: parseMarketHub(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a market hub
+ */
+export const deleteMarketHub = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query('DELETE FROM market_hubs WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Market hub with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Market hub deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,132 @@
+import { query } from '../config/database.js';
+import { getPortsOfEntry, parsePortOfEntry } from '../services/portsOfEntry.js';
+
+const RETURNING_PORT = `RETURNING *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude`;
+
+/**
+ * Get ports of entry (active only unless ?include_inactive=true; ?country=CA|MX filters by border)
+ */
+export const getPortOfEntryList = async (req, res, next) => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    res.json({
+      success: true,
+      data: await getPortsOfEntry({ includeInactive, borderCountry: req.query.country || null }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a port of entry
+ */
+export const createPortOfEntry = async (req, res, next) => {
+  try {
+    const { code, name, border_country, state_province, latitude, longitude, crossing_fee, active } = req.body;
+
+    const result = await query(
+      `INSERT INTO ports_of_entry (code, name, border_country, state_province, coordinates, crossing_fee, active)
+       VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($6, $5), 4326)::geography, $7, $8)
+       ${RETURNING_PORT}`,
+      [code, name, border_country, state_province || null, latitude, longitude, crossing_fee ?? 0, active ?? true]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Port of entry created successfully',
+      data: parsePortOfEntry(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a port of entry
+ * Quotes keep the port name, location and crossing fee they were priced with.
+ */
+export const updatePortOfEntry = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await query(
+      `SELECT *,
+          ST_Y(coordinates::geometry) as latitude,
+          ST_X(coordinates::geometry) as longitude
+       FROM ports_of_entry WHERE id = $1`,
+      [id]
+    );
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Port of entry with ID ${id} not found`,
+      });
+    }
+
+    const updated = { ...existing.rows[0], ...req.body };
+
+    const result = await query(
+      `UPDATE ports_of_entry SET
+        code = $1,
+        name = $2,
+        border_country = $3,
+        state_province = $4,
+        coordinates = ST_SetSRID(ST_MakePoint($6, $5), 4326)::geography,
+        crossing_fee = $7,
+        active = $8
+      WHERE id = $9
+      ${RETURNING_PORT}`,
+      [
+        updated.code,
+        updated.name,
+        updated.border_country,
+        updated.state_province || null,
+        updated.latitude,
+        updated.longitude,
+        updated.crossing_fee,
+        updated.active,
+        id,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Port of entry updated successfully',
+      data: parsePortOfEntry(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a port of entry
+ * Quotes routed through it keep its name and location (port_of_entry_id is cleared).
+ */
+export const deletePortOfEntry = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query('DELETE FROM ports_of_entry WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Port of entry with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Port of entry deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
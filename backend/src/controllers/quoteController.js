@@ -1,6 +1,436 @@
-import { query } from '../config/database.js';
+import { query, getClient } from '../config/database.js';
 import { geocodeLocation, coordinatesToPostGIS } from '../services/geocoding.js';
-import { calculateDistance, calculateQuoteAmount } from '../services/quoteCalculator.js';
+import { calculateDistance } from '../services/routing.js';
+import { priceShipment } from '../services/quotePricing.js';
+import { resolveAccessorials } from '../services/accessorials.js';
+import { isCrossBorder } from '../services/crossBorderFees.js';
+import { getLineItems, insertLineItems } from '../services/quoteLineItems.js';
+import { getExchangeRate } from '../services/exchangeRates.js';
+import { buildRouteStops, getQuoteStops, insertQuoteStops } from '../services/quoteStops.js';
+import { buildRouteFeatureCollection } from '../services/quoteRoute.js';
+import { buildVehicleProfile, getEquipmentType } from '../services/equipment.js';
+import { estimateTransit } from '../services/transitTime.js';
+import {
+  choosePortOfEntry,
+  getPortOfEntryById,
+  mergePortOfEntryLegs,
+  withPortOfEntry,
+} from '../services/portsOfEntry.js';
+import { calculateValidUntil } from '../services/quoteExpiry.js';
+import { LOCATION_FIELDS, findChangedFields, isSameLocation, requiresRepricing } from '../services/quoteChanges.js';
+import { buildSnapshot, getRevisions, recordRevision } from '../services/quoteRevisions.js';
+import { changeQuoteStatus, getAllowedTransitions, getStatusHistory, recordStatusChange } from '../services/quoteStatus.js';
+
+/**
+ * Quote row with its coordinates as latitude/longitude columns
+ */
+const QUOTE_SELECT = `*,
+        ST_Y(origin_coordinates::geometry) as origin_latitude,
+        ST_X(origin_coordinates::geometry) as origin_longitude,
+        ST_Y(destination_coordinates::geometry) as destination_latitude,
+        ST_X(destination_coordinates::geometry) as destination_longitude,
+        ST_Y(port_of_entry_coordinates::geometry) as port_of_entry_latitude,
+        ST_X(port_of_entry_coordinates::geometry) as port_of_entry_longitude`;
+
+/**
+ * Columns written when a quote is priced, and their values ($1-$58), shared by the
+ * INSERT of a new quote and the UPDATE of a repriced one
+ */
+const PRICED_COLUMNS = `
+      origin_city, origin_postal_code, origin_state_province, origin_country, origin_address, origin_coordinates,
+      destination_city, destination_postal_code, destination_state_province, destination_country, destination_address,
+      destination_coordinates,
+      equipment_type, total_weight, pickup_date,
+      distance_miles, distance_kilometers, distance_source, routing_profile, quote_amount,
+      transit_driving_hours, transit_hours, transit_days, estimated_delivery_date, hos_rules, team_drivers,
+      linehaul_amount, stop_count, stop_charge_amount,
+      deadhead_origin_miles, deadhead_origin_hub, deadhead_destination_miles, deadhead_destination_hub, repositioning_amount,
+      calendar_amount, calendar_rules, fuel_surcharge_amount, fuel_surcharge_cents_per_mile, accessorials_amount,
+      is_cross_border, cross_border_amount,
+      port_of_entry_id, port_of_entry_name, port_of_entry_coordinates, port_of_entry_selection,
+      currency, exchange_rate, exchange_rate_date, quote_amount_usd,
+      rate_card_id, rate_card_version, lane_rate_id, pricing_rule, valid_until, parent_quote_id,
+      customer_reference, notes, route_geometry
+    `;
+const PRICED_VALUES = '$1, $2, $3, $4, $5, ST_SetSRID(ST_GeomFromText($6), 4326)::geography, $7, $8, $9, $10, $11, ST_SetSRID(ST_GeomFromText($12), 4326)::geography, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41, $42, $43, ST_SetSRID(ST_GeomFromText($44), 4326)::geography, $45, $46, $47, $48, $49, $50, $51, $52, $53, $54, $55, $56, $57, ST_SetSRID(ST_GeomFromGeoJSON($58), 4326)::geography';
+
+/**
+ * Drop the stored route geometry from a quote row (served by GET /api/quotes/:id/route)
+ */
+const omitRouteGeometry = ({ route_geometry, ...quote }) => quote;
+
+/**
+ * Coordinates of the port of entry a quote was routed through (null for domestic lanes)
+ */
+const portOfEntryCoordinates = (quote) => (quote.port_of_entry_latitude ? {
+  latitude: parseFloat(quote.port_of_entry_latitude),
+  longitude: parseFloat(quote.port_of_entry_longitude),
+} : null);
+
+/**
+ * Convert a quote row (selected with QUOTE_SELECT) into API shape
+ */
+const withCoordinates = (quote) => ({
+  ...omitRouteGeometry(quote),
+  origin_coordinates: quote.origin_latitude ? {
+    latitude: parseFloat(quote.origin_latitude),
+    longitude: parseFloat(quote.origin_longitude),
+  } : null,
+  destination_coordinates: quote.destination_latitude ? {
+    latitude: parseFloat(quote.destination_latitude),
+    longitude: parseFloat(quote.destination_longitude),
+  } : null,
+  port_of_entry_coordinates: portOfEntryCoordinates(quote),
+  allowed_transitions: getAllowedTransitions(quote.status),
+});
+
+/**
+ * Build the 404 response for a quote that does not exist (or is deleted)
+ */
+const quoteNotFound = (res, id) => res.status(404).json({
+  success: false,
+  error: 'Not found',
+  message: `Quote with ID ${id} not found`,
+});
+
+/**
+ * Build the 409 error for repricing a quote that is no longer open
+ */
+const quoteLockedError = (status) => {
+  const error = new Error(`Quote is ${status}; only draft and sent quotes can be repriced (requote it instead)`);
+  error.name = 'Quote locked';
+  error.statusCode = 409;
+  return error;
+};
+
+/**
+ * Load a live (not deleted) quote with its pickup day and coordinates
+ * @param {number} id
+ * @returns {Promise<Object|null>}
+ */
+const findLiveQuote = async (id) => {
+  const result = await query(
+    `SELECT
+        ${QUOTE_SELECT},
+        to_char(pickup_date, 'YYYY-MM-DD') as pickup_day,
+        pickup_date >= CURRENT_DATE as is_pickup_ahead
+     FROM quotes WHERE id = $1 AND deleted_at IS NULL`,
+    [id]
+  );
+  return result.rows[0] || null;
+};
+
+/**
+ * Rebuild the request a stored quote was priced from
+ * Locations come with their stored coordinates, accessorials from the line items, and the
+ * port of entry only when the shipper asked for one that is still in service.
+ * @param {Object} quote - Quote row from findLiveQuote
+ * @returns {Promise<Object>} { origin, destination, originCoords, destCoords, stops (with coords),
+ *   equipment_type, total_weight, pickup_date, accessorials, currency, port_of_entry,
+ *   customer_reference, notes }
+ */
+const loadStoredShipment = async (quote) => {
+  const lineItems = await getLineItems(quote.id);
+
+  // Stored route: the origin is the first stop and the destination the last
+  const storedStops = await getQuoteStops(quote.id);
+
+  const requestedPort = quote.port_of_entry_selection === 'requested' && quote.port_of_entry_id
+    ? await getPortOfEntryById(quote.port_of_entry_id)
+    : null;
+
+  return {
+    origin: {
+      city: quote.origin_city,
+      postal_code: quote.origin_postal_code,
+      state_province: quote.origin_state_province,
+      country: quote.origin_country,
+      address: quote.origin_address,
+    },
+    destination: {
+      city: quote.destination_city,
+      postal_code: quote.destination_postal_code,
+      state_province: quote.destination_state_province,
+      country: quote.destination_country,
+      address: quote.destination_address,
+    },
+    originCoords: {
+      latitude: parseFloat(quote.origin_latitude),
+      longitude: parseFloat(quote.origin_longitude),
+    },
+    destCoords: {
+      latitude: parseFloat(quote.destination_latitude),
+      longitude: parseFloat(quote.destination_longitude),
+    },
+    stops: storedStops.slice(1, -1).map((stop) => ({
+      type: stop.stop_type,
+      city: stop.city,
+      postal_code: stop.postal_code,
+      state_province: stop.state_province,
+      country: stop.country,
+      address: stop.address,
+      coords: stop.coordinates,
+    })),
+    equipment_type: quote.equipment_type,
+    total_weight: quote.total_weight !== null ? parseFloat(quote.total_weight) : null,
+    pickup_date: quote.pickup_day,
+    accessorials: lineItems
+      .filter((item) => item.type === 'accessorial')
+      .map((item) => ({ code: item.code, quantity: item.unit === 'hour' ? item.quantity : undefined })),
+    currency: quote.currency,
+    port_of_entry: requestedPort && requestedPort.active ? requestedPort.code : null,
+    customer_reference: quote.customer_reference,
+    notes: quote.notes,
+  };
+};
+
+/**
+ * Route, price and store a quote whose locations are already geocoded
+ * Shared by quote creation, requoting and editing: picks the port of entry, routes every
+ * stop for the equipment's truck, prices the shipment with today's rules and inserts the
+ * quote with its line items, stops, initial status and first revision in one transaction.
+ * With a quoteId the existing quote is repriced in place instead: the row is locked and
+ * must still be draft or sent, its line items and stops are replaced, its status is left
+ * alone, its valid_until only moves when the pickup date changed and a new revision
+ * records what changed.
+ * @param {Object} shipment
+ * @param {Object} shipment.origin - Origin location
+ * @param {Object} shipment.destination - Destination location
+ * @param {Object} shipment.originCoords - Origin coordinates
+ * @param {Object} shipment.destCoords - Destination coordinates
+ * @param {Array<Object>} shipment.stops - Intermediate stops, each with its coords
+ * @param {string} shipment.equipment_type
+ * @param {number} shipment.total_weight
+ * @param {string} shipment.pickup_date
+ * @param {Array<Object>} shipment.resolvedAccessorials - Accessorials from resolveAccessorials
+ * @param {Object} shipment.exchangeRate - Rate to quote in
+ * @param {string|null} shipment.port_of_entry - Requested port of entry code (none = cheapest)
+ * @param {number|null} shipment.parentQuoteId - Quote this one requotes
+ * @param {string|null} shipment.customer_reference - Shipper's reference (never priced)
+ * @param {string|null} shipment.notes - Free-form notes (never priced)
+ * @param {number|null} shipment.quoteId - Quote to reprice in place (none = insert a new quote)
+ * @returns {Promise<Object>} { quote, pricing, routeStops }
+ * @throws {Error} 409 error when the quote to reprice is no longer draft or sent, 404 error
+ *   when it has been deleted
+ */
+const priceAndSaveQuote = async ({
+  origin,
+  destination,
+  originCoords,
+  destCoords,
+  stops,
+  equipment_type,
+  total_weight,
+  pickup_date,
+  resolvedAccessorials,
+  exchangeRate,
+  port_of_entry = null,
+  parentQuoteId = null,
+  customer_reference = null,
+  notes = null,
+  quoteId = null,
+}) => {
+  // Step 2c: Pick the border crossing of a cross-border route (the requested port,
+  // or the one whose detour and crossing fee cost least)
+  const routeLocations = [
+    { ...origin, coords: originCoords },
+    ...stops,
+    { ...destination, coords: destCoords },
+  ];
+  const portOfEntry = await choosePortOfEntry(routeLocations, port_of_entry);
+
+  // Step 3: Calculate distance through every stop (and the port of entry), routed for the equipment's truck
+  // (hazmat shipments avoid hazmat-restricted roads)
+  const equipment = await getEquipmentType(equipment_type);
+  const vehicle = equipment
+    ? buildVehicleProfile(equipment, {
+      hazmat: resolvedAccessorials.some((accessorial) => accessorial.code === 'hazmat'),
+    })
+    : null;
+
+  let distance;
+  try {
+    distance = await calculateDistance(
+      withPortOfEntry(routeLocations.map((location) => location.coords), portOfEntry),
+      vehicle
+    );
+  } catch (error) {
+    error.name = 'Distance calculation error';
+    error.statusCode = 500;
+    throw error;
+  }
+
+  // Step 4: Price the shipment (rate card or lane override, calendar rules,
+  // fuel surcharge, accessorials and cross-border fees) in the quote currency
+  const pricing = await priceShipment({
+    origin,
+    destination,
+    originCoords,
+    destinationCoords: destCoords,
+    stops,
+    equipmentType: equipment_type,
+    totalWeight: total_weight,
+    pickupDate: pickup_date,
+    distanceMiles: distance.distance_miles,
+    accessorials: resolvedAccessorials,
+    portOfEntry,
+    exchangeRate,
+  });
+  const { rateCard, laneRate, fuelSurcharge, deadhead, pricingRule } = pricing;
+
+  // Step 5: Estimate the delivery date under hours-of-service rules
+  // (the team driver accessorial puts two drivers on the load)
+  const transit = estimateTransit({
+    distanceMiles: distance.distance_miles,
+    durationHours: distance.duration_hours,
+    pickupDate: pickup_date,
+    countries: [origin.country, ...stops.map((stop) => stop.country), destination.country],
+    teamDrivers: resolvedAccessorials.some((accessorial) => accessorial.code === 'team_driver'),
+  });
+  const routeStops = buildRouteStops(
+    { ...origin, coords: originCoords },
+    stops,
+    { ...destination, coords: destCoords },
+    mergePortOfEntryLegs(distance.legs, portOfEntry)
+  );
+
+  // Step 6: Insert (or update) the quote and its line items in one transaction
+  const originPostGIS = coordinatesToPostGIS(originCoords.latitude, originCoords.longitude);
+  const destPostGIS = coordinatesToPostGIS(destCoords.latitude, destCoords.longitude);
+
+  const client = await getClient();
+  let quote;
+  try {
+    await client.query('BEGIN');
+
+    // Lock the quote being repriced so a concurrent status change cannot accept it in between
+    let validUntil = calculateValidUntil(pickup_date);
+    if (quoteId) {
+      const current = await client.query(
+        `SELECT status, valid_until, to_char(pickup_date, 'YYYY-MM-DD') as pickup_day
+         FROM quotes WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+        [quoteId]
+      );
+      if (current.rows.length === 0) {
+        const error = new Error(`Quote with ID ${quoteId} not found`);
+        error.name = 'Not found';
+        error.statusCode = 404;
+        throw error;
+      }
+      const { status, valid_until: storedValidUntil, pickup_day: storedPickupDay } = current.rows[0];
+      if (status !== 'draft' && status !== 'sent') {
+        throw quoteLockedError(status);
+      }
+      // Repricing does not extend the validity window unless the pickup date moved
+      if (String(pickup_date).slice(0, 10) === storedPickupDay) {
+        validUntil = storedValidUntil;
+      }
+    }
+
+    const values = [
+      origin.city,
+      origin.postal_code || null,
+      origin.state_province || null,
+      origin.country,
+      origin.address || null,
+      originPostGIS,
+      destination.city,
+      destination.postal_code || null,
+      destination.state_province || null,
+      destination.country,
+      destination.address || null,
+      destPostGIS,
+      equipment_type,
+      total_weight,
+      pickup_date,
+      distance.distance_miles,
+      distance.distance_km,
+      distance.source,
+      distance.profile,
+      pricing.quote_amount,
+      transit.driving_hours,
+      transit.transit_hours,
+      transit.transit_days,
+      transit.estimated_delivery_date,
+      transit.hos_rules,
+      transit.team_drivers,
+      pricing.linehaul_amount,
+      stops.length,
+      pricing.stop_charge_amount,
+      deadhead ? deadhead.origin_miles : null,
+      deadhead ? deadhead.origin_hub : null,
+      deadhead ? deadhead.destination_miles : null,
+      deadhead ? deadhead.destination_hub : null,
+      pricing.repositioning_amount,
+      pricing.calendar_amount,
+      JSON.stringify(pricing.calendar_rules),
+      pricing.fuel_surcharge_amount,
+      fuelSurcharge ? fuelSurcharge.cents_per_mile : null,
+      pricing.accessorials_amount,
+      isCrossBorder(origin, destination, stops),
+      pricing.cross_border_amount,
+      portOfEntry ? portOfEntry.port.id : null,
+      portOfEntry ? portOfEntry.port.name : null,
+      portOfEntry
+        ? coordinatesToPostGIS(portOfEntry.port.coordinates.latitude, portOfEntry.port.coordinates.longitude)
+        : null,
+      portOfEntry ? portOfEntry.selection : null,
+      pricing.currency,
+      pricing.exchange_rate,
+      exchangeRate.effective_date,
+      pricing.quote_amount_usd,
+      rateCard ? rateCard.id : null,
+      rateCard ? rateCard.version : null,
+      laneRate ? laneRate.id : null,
+      pricingRule,
+      validUntil,
+      parentQuoteId,
+      customer_reference || null,
+      notes || null,
+      distance.geometry ? JSON.stringify(distance.geometry) : null,
+    ];
+
+    if (quoteId) {
+      const result = await client.query(
+        `UPDATE quotes SET (${PRICED_COLUMNS}) = (${PRICED_VALUES})
+         WHERE id = $59
+         RETURNING ${QUOTE_SELECT}`,
+        [...values, quoteId]
+      );
+      quote = result.rows[0];
+
+      await client.query('DELETE FROM quote_line_items WHERE quote_id = $1', [quote.id]);
+      await client.query('DELETE FROM quote_stops WHERE quote_id = $1', [quote.id]);
+    } else {
+      const result = await client.query(
+        `INSERT INTO quotes (${PRICED_COLUMNS}) VALUES (${PRICED_VALUES})
+         RETURNING ${QUOTE_SELECT}`,
+        values
+      );
+      quote = result.rows[0];
+
+      await recordStatusChange(client, quote.id, null, quote.status);
+    }
+
+    await insertLineItems(client, quote.id, pricing.line_items);
+    await insertQuoteStops(client, quote.id, routeStops);
+    await recordRevision(
+      client,
+      quote.id,
+      quoteId ? 'edited' : parentQuoteId ? 'requoted' : 'created',
+      buildSnapshot(withCoordinates(quote), pricing.line_items, routeStops)
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return { quote, pricing, routeStops };
+};
 
 /**
  * Create a new quote
@@ -13,8 +443,18 @@ export const createQuote = async (req, res, next) => {
       equipment_type,
       total_weight,
       pickup_date,
+      stops = [],
+      accessorials = [],
+      currency = 'USD',
+      port_of_entry = null,
+      customer_reference = null,
+      notes = null,
     } = req.body;
 
+    // Step 0: Check requested accessorials against the configured types and equipment
+    const resolvedAccessorials = await resolveAccessorials(accessorials, equipment_type);
+    const exchangeRate = await getExchangeRate(currency);
+
     // Step 1: Geocode origin location
     let originCoords;
     try {
@@ -39,74 +479,42 @@ export const createQuote = async (req, res, next) => {
       });
     }
 
-    // Step 3: Calculate distance
-    let distance;
-    try {
-      distance = await calculateDistance(
-        originCoords.latitude,
-        originCoords.longitude,
-        destCoords.latitude,
-        destCoords.longitude
-      );
-    } catch (error) {
-      return res.status(500).json({
-        success: false,
-        error: 'Distance calculation error',
-        message: error.message,
-      });
+    // Step 2b: Geocode intermediate stops (in route order)
+    const stopsWithCoords = [];
+    for (const [index, stop] of stops.entries()) {
+      try {
+        stopsWithCoords.push({ ...stop, coords: await geocodeLocation(stop) });
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Geocoding error',
+          message: `Failed to geocode stop ${index + 1} (${stop.city}): ${error.message}`,
+        });
+      }
     }
 
-    // Step 4: Calculate quote amount
-    const quoteAmount = calculateQuoteAmount(
-      distance.distance_miles,
+    // Steps 2c-6: Route, price and store the quote
+    const { quote, pricing, routeStops } = await priceAndSaveQuote({
+      origin,
+      destination,
+      originCoords,
+      destCoords,
+      stops: stopsWithCoords,
       equipment_type,
-    total_weight
-    );
-
-    // Step 5: Insert into database
-    const originPostGIS = coordinatesToPostGIS(originCoords.latitude, originCoords.longitude);
-    const destPostGIS = coordinatesToPostGIS(destCoords.latitude, destCoords.longitude);
-
-    const result = await query(
-      `INSERT INTO quotes (
-        origin_city, origin_postal_code, origin_state_province, origin_country, origin_coordinates,
-        destination_city, destination_postal_code, destination_state_province, destination_country, destination_coordinates,
-        equipment_type, total_weight, pickup_date,
-        distance_miles, distance_kilometers, quote_amount
-      ) VALUES ($1, $2, $3, $4, ST_SetSRID(ST_GeomFromText($5), 4326)::geography, $6, $7, $8, $9, ST_SetSRID(ST_GeomFromText($10), 4326)::geography, $11, $12, $13, $14, $15, $16)
-      RETURNING 
-        *,
-        ST_Y(origin_coordinates::geometry) as origin_latitude,
-        ST_X(origin_coordinates::geometry) as origin_longitude,
-        ST_Y(destination_coordinates::geometry) as destination_latitude,
-        ST_X(destination_coordinates::geometry) as destination_longitude`,
-      [
-        origin.city,
-        origin.postal_code || null,
-        origin.state_province || null,
-        origin.country,
-        originPostGIS,
-        destination.city,
-        destination.postal_code || null,
-        destination.state_province || null,
-        destination.country,
-        destPostGIS,
-        equipment_type,
-        total_weight,
-        pickup_date,
-        distance.distance_miles,
-        distance.distance_km,
-        quoteAmount,
-      ]
-    );
-
-    const quote = result.rows[0];
+      total_weight,
+      pickup_date,
+      resolvedAccessorials,
+      exchangeRate,
+      port_of_entry,
+      customer_reference,
+      notes,
+    });
 
     res.status(201).json({
       success: true,
       message: 'Quote created successfully',
       data: {
-        ...quote,
+        ...omitRouteGeometry(quote),
         origin_coordinates: {
           latitude: parseFloat(quote.origin_latitude),
           longitude: parseFloat(quote.origin_longitude),
@@ -115,10 +523,242 @@ export const createQuote = async (req, res, next) => {
           latitude: parseFloat(quote.destination_latitude),
           longitude: parseFloat(quote.destination_longitude),
         },
+        port_of_entry_coordinates: portOfEntryCoordinates(quote),
         geocoding_accuracy: {
           origin: originCoords.accuracy,
           destination: destCoords.accuracy,
         },
+        allowed_transitions: getAllowedTransitions(quote.status),
+        line_items: pricing.line_items,
+        stops: routeStops,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Requote an existing quote with today's rates
+ * Reuses the stored locations and coordinates (nothing is geocoded again), weight,
+ * accessorials, currency and any requested port of entry; the pickup date and
+ * equipment type can be changed. The new quote links to the original and the
+ * response shows how its price moved.
+ */
+export const requoteQuote = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const parent = await findLiveQuote(id);
+    if (!parent) {
+      return quoteNotFound(res, id);
+    }
+
+    const stored = await loadStoredShipment(parent);
+    const equipment_type = req.body.equipment_type || stored.equipment_type;
+    const pickup_date = req.body.pickup_date || (parent.is_pickup_ahead ? stored.pickup_date : null);
+    if (!pickup_date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        message: 'Please check your input data',
+        errors: [{ path: 'pickup_date', msg: 'The original pickup date has passed; a new pickup date is required' }],
+      });
+    }
+
+    // The original accessorials, checked again against the (possibly new) equipment
+    const resolvedAccessorials = await resolveAccessorials(stored.accessorials, equipment_type);
+    const exchangeRate = await getExchangeRate(stored.currency);
+
+    const { quote, pricing, routeStops } = await priceAndSaveQuote({
+      origin: stored.origin,
+      destination: stored.destination,
+      originCoords: stored.originCoords,
+      destCoords: stored.destCoords,
+      stops: stored.stops,
+      equipment_type,
+      total_weight: stored.total_weight,
+      pickup_date,
+      resolvedAccessorials,
+      exchangeRate,
+      port_of_entry: stored.port_of_entry,
+      parentQuoteId: parent.id,
+      customer_reference: stored.customer_reference,
+      notes: stored.notes,
+    });
+
+    const previousAmount = parseFloat(parent.quote_amount);
+    const newAmount = parseFloat(quote.quote_amount);
+
+    res.status(201).json({
+      success: true,
+      message: 'Quote requoted successfully',
+      data: {
+        ...withCoordinates(quote),
+        line_items: pricing.line_items,
+        stops: routeStops,
+        price_delta: {
+          parent_quote_id: parent.id,
+          parent_quote_amount: previousAmount,
+          amount: parseFloat((newAmount - previousAmount).toFixed(2)),
+          percent: previousAmount > 0 ? parseFloat((((newAmount - previousAmount) / previousAmount) * 100).toFixed(2)) : null,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Edit a quote
+ * Fields left out keep their stored values. Only locations that changed are geocoded
+ * again, and the quote is only repriced (in place, with today's rates) when a location
+ * or pricing field changed; customer reference and notes are saved as they are. Only
+ * draft and sent quotes can be repriced.
+ */
+export const updateQuote = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await findLiveQuote(id);
+    if (!existing) {
+      return quoteNotFound(res, id);
+    }
+
+    const stored = await loadStoredShipment(existing);
+    const changedFields = findChangedFields(req.body, stored);
+    const customer_reference = req.body.customer_reference !== undefined
+      ? req.body.customer_reference || null
+      : stored.customer_reference;
+    const notes = req.body.notes !== undefined ? req.body.notes || null : stored.notes;
+
+    if (!requiresRepricing(changedFields)) {
+      const result = await query(
+        `UPDATE quotes SET customer_reference = $2, notes = $3
+         WHERE id = $1
+         RETURNING ${QUOTE_SELECT}`,
+        [existing.id, customer_reference, notes]
+      );
+
+      return res.json({
+        success: true,
+        message: 'Quote updated successfully',
+        data: {
+          ...withCoordinates(result.rows[0]),
+          line_items: await getLineItems(existing.id),
+          stops: await getQuoteStops(existing.id),
+          changed_fields: changedFields,
+          repriced: false,
+        },
+      });
+    }
+
+    // Checked again with the row locked when the quote is repriced
+    if (existing.status !== 'draft' && existing.status !== 'sent') {
+      throw quoteLockedError(existing.status);
+    }
+
+    const pickup_date = req.body.pickup_date || (existing.is_pickup_ahead ? stored.pickup_date : null);
+    if (!pickup_date) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        message: 'Please check your input data',
+        errors: [{ path: 'pickup_date', msg: 'The original pickup date has passed; a new pickup date is required' }],
+      });
+    }
+
+    const equipment_type = req.body.equipment_type || stored.equipment_type;
+    const resolvedAccessorials = await resolveAccessorials(req.body.accessorials || stored.accessorials, equipment_type);
+    const exchangeRate = await getExchangeRate(req.body.currency || stored.currency);
+
+    // Geocode only the locations that changed; the others keep their stored coordinates
+    const origin = req.body.origin || stored.origin;
+    let originCoords = stored.originCoords;
+    if (changedFields.includes('origin')) {
+      try {
+        originCoords = await geocodeLocation(origin);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Geocoding error',
+          message: `Failed to geocode origin location: ${error.message}`,
+        });
+      }
+    }
+
+    const destination = req.body.destination || stored.destination;
+    let destCoords = stored.destCoords;
+    if (changedFields.includes('destination')) {
+      try {
+        destCoords = await geocodeLocation(destination);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: 'Geocoding error',
+          message: `Failed to geocode destination location: ${error.message}`,
+        });
+      }
+    }
+
+    let stopsWithCoords = stored.stops;
+    if (changedFields.includes('stops')) {
+      stopsWithCoords = [];
+      for (const [index, stop] of req.body.stops.entries()) {
+        const storedStop = stored.stops[index];
+        if (storedStop && stop.type === storedStop.type && isSameLocation(stop, storedStop)) {
+          stopsWithCoords.push({ ...stop, coords: storedStop.coords });
+          continue;
+        }
+        try {
+          stopsWithCoords.push({ ...stop, coords: await geocodeLocation(stop) });
+        } catch (error) {
+          return res.status(400).json({
+            success: false,
+            error: 'Geocoding error',
+            message: `Failed to geocode stop ${index + 1} (${stop.city}): ${error.message}`,
+          });
+        }
+      }
+    }
+
+    // A requested port of entry only carries over while the route stays the same (a moved
+    // location may make the lane domestic or cross another border)
+    let port_of_entry = stored.port_of_entry;
+    if (req.body.port_of_entry !== undefined) {
+      port_of_entry = req.body.port_of_entry;
+    } else if (changedFields.some((field) => LOCATION_FIELDS.includes(field))) {
+      port_of_entry = null;
+    }
+
+    const { quote, pricing, routeStops } = await priceAndSaveQuote({
+      origin,
+      destination,
+      originCoords,
+      destCoords,
+      stops: stopsWithCoords,
+      equipment_type,
+      total_weight: req.body.total_weight !== undefined ? req.body.total_weight : stored.total_weight,
+      pickup_date,
+      resolvedAccessorials,
+      exchangeRate,
+      port_of_entry,
+      parentQuoteId: existing.parent_quote_id,
+      customer_reference,
+      notes,
+      quoteId: existing.id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Quote updated and repriced successfully',
+      data: {
+        ...withCoordinates(quote),
+        line_items: pricing.line_items,
+        stops: routeStops,
+        changed_fields: changedFields,
+        repriced: true,
       },
     });
   } catch (error) {
@@ -127,48 +767,94 @@ export const createQuote = async (req, res, next) => {
 };
 
 /**
- * Get all quotes with pagination
+ * Soft-delete a quote
+ * The quote is hidden from the quote list and lookups but kept, with its history,
+ * until it is restored.
+ */
+export const deleteQuote = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query(
+      `UPDATE quotes SET deleted_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING id, deleted_at`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return quoteNotFound(res, id);
+    }
+
+    res.json({
+      success: true,
+      message: 'Quote deleted successfully',
+      data: result.rows[0],
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restore a soft-deleted quote
+ */
+export const restoreQuote = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query(
+      `UPDATE quotes SET deleted_at = NULL
+       WHERE id = $1 AND deleted_at IS NOT NULL
+       RETURNING ${QUOTE_SELECT}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Deleted quote with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Quote restored successfully',
+      data: withCoordinates(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all quotes with pagination (deleted quotes only with ?include_deleted=true)
  */
 export const getAllQuotes = async (req, res, next) => {
   try {
     const page = parseInt(req.query.page) || 1;
     const limit = parseInt(req.query.limit) || 10;
     const offset = (page - 1) * limit;
+    const includeDeleted = req.query.include_deleted === 'true';
+    const where = includeDeleted ? '' : 'WHERE deleted_at IS NULL';
 
     // Get total count
-    const countResult = await query('SELECT COUNT(*) FROM quotes');
+    const countResult = await query(`SELECT COUNT(*) FROM quotes ${where}`);
     const total = parseInt(countResult.rows[0].count);
 
     // Get quotes
     const result = await query(
-      `SELECT 
-        *,
-        ST_Y(origin_coordinates::geometry) as origin_latitude,
-        ST_X(origin_coordinates::geometry) as origin_longitude,
-        ST_Y(destination_coordinates::geometry) as destination_latitude,
-        ST_X(destination_coordinates::geometry) as destination_longitude
-       FROM quotes 
+      `SELECT ${QUOTE_SELECT}
+       FROM quotes ${where}
        ORDER BY created_at DESC 
        LIMIT $1 OFFSET $2`,
       [limit, offset]
     );
-    
-    // Transform coordinates in results
-    const quotesWithCoords = result.rows.map(quote => ({
-      ...quote,
-      origin_coordinates: quote.origin_latitude ? {
-        latitude: parseFloat(quote.origin_latitude),
-        longitude: parseFloat(quote.origin_longitude),
-      } : null,
-      destination_coordinates: quote.destination_latitude ? {
-        latitude: parseFloat(quote.destination_latitude),
-        longitude: parseFloat(quote.destination_longitude),
-      } : null,
-    }));
 
     res.json({
       success: true,
-      data: quotesWithCoords,
+      data: result.rows.map(withCoordinates),
       pagination: {
         page,
         limit,
@@ -182,24 +868,114 @@ export const getAllQuotes = async (req, res, next) => {
 };
 
 /**
- * Get a single quote by ID
+ * Get a single quote by ID (a deleted quote only with ?include_deleted=true)
  */
 export const getQuoteById = async (req, res, next) => {
   try {
     const { id } = req.params;
+    const includeDeleted = req.query.include_deleted === 'true';
+
+    const result = await query(
+      `SELECT ${QUOTE_SELECT}
+       FROM quotes WHERE id = $1${includeDeleted ? '' : ' AND deleted_at IS NULL'}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return quoteNotFound(res, id);
+    }
+
+    const quote = result.rows[0];
+
+    res.json({
+      success: true,
+      data: {
+        ...withCoordinates(quote),
+        line_items: await getLineItems(quote.id),
+        stops: await getQuoteStops(quote.id),
+        status_history: await getStatusHistory(quote.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the revisions of a quote, oldest first (a deleted quote only with ?include_deleted=true)
+ */
+export const getQuoteRevisions = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const includeDeleted = req.query.include_deleted === 'true';
+
+    const result = await query(
+      `SELECT id FROM quotes WHERE id = $1${includeDeleted ? '' : ' AND deleted_at IS NULL'}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return quoteNotFound(res, id);
+    }
+
+    res.json({
+      success: true,
+      data: await getRevisions(result.rows[0].id),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the stored route of a quote as GeoJSON
+ */
+export const getQuoteRoute = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const includeDeleted = req.query.include_deleted === 'true';
 
     const result = await query(
-      `SELECT 
-        *,
+      `SELECT id, distance_miles, distance_kilometers, distance_source,
+        ST_AsGeoJSON(route_geometry) as route_geometry,
         ST_Y(origin_coordinates::geometry) as origin_latitude,
         ST_X(origin_coordinates::geometry) as origin_longitude,
         ST_Y(destination_coordinates::geometry) as destination_latitude,
-        ST_X(destination_coordinates::geometry) as destination_longitude
-       FROM quotes WHERE id = $1`,
+        ST_X(destination_coordinates::geometry) as destination_longitude,
+        ST_Y(port_of_entry_coordinates::geometry) as port_of_entry_latitude,
+        ST_X(port_of_entry_coordinates::geometry) as port_of_entry_longitude,
+        origin_city, origin_state_province, destination_city, destination_state_province,
+        port_of_entry_name, port_of_entry_selection
+       FROM quotes WHERE id = $1${includeDeleted ? '' : ' AND deleted_at IS NULL'}`,
       [id]
     );
 
     if (result.rows.length === 0) {
+      return quoteNotFound(res, id);
+    }
+
+    const quote = result.rows[0];
+
+    res.json({
+      success: true,
+      data: buildRouteFeatureCollection(quote, await getQuoteStops(quote.id)),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the status of a quote
+ */
+export const updateQuoteStatus = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { status, reason = null } = req.body;
+
+    const change = await changeQuoteStatus(id, status, reason || null);
+
+    if (!change) {
       return res.status(404).json({
         success: false,
         error: 'Not found',
@@ -207,25 +983,16 @@ export const getQuoteById = async (req, res, next) => {
       });
     }
 
-    const quote = result.rows[0];
-    const quoteWithCoords = {
-      ...quote,
-      origin_coordinates: quote.origin_latitude ? {
-        latitude: parseFloat(quote.origin_latitude),
-        longitude: parseFloat(quote.origin_longitude),
-      } : null,
-      destination_coordinates: quote.destination_latitude ? {
-        latitude: parseFloat(quote.destination_latitude),
-        longitude: parseFloat(quote.destination_longitude),
-      } : null,
-    };
-
     res.json({
       success: true,
-      data: quoteWithCoords,
+      message: `Quote marked ${status}`,
+      data: {
+        ...change,
+        allowed_transitions: getAllowedTransitions(change.status),
+        status_history: await getStatusHistory(change.id),
+      },
     });
   } catch (error) {
     next(error);
   }
 };
-
@@ -0,0 +1,248 @@
+import { query } from '../config/database.js';
+import { getActiveRateCard, parseRateCard } from '../services/rateCards.js';
+
+// Fields that change how a quote is priced; locked once a card has priced quotes
+const PRICING_FIELDS = [
+  'base_rate_per_mile',
+  'minimum_quote',
+  'weight_threshold_lbs',
+  'weight_rate_per_100_lbs',
+  'stop_charge',
+  'repositioning_rate_per_mile',
+  'equipment_multipliers',
+  'effective_from',
+];
+
+/**
+ * Count quotes priced with a rate card
+ */
+const countQuotesForRateCard = async (id) => {
+  const result = await query('SELECT COUNT(*) FROM quotes WHERE rate_card_id = $1', [id]);
+  return parseInt(result.rows[0].count);
+};
+
+/**
+ * Get all rate cards (newest version first)
+ */
+export const getAllRateCards = async (req, res, next) => {
+  try {
+    const result = await query('SELECT * FROM rate_cards ORDER BY version DESC');
+
+    res.json({
+      success: true,
+      data: result.rows.map(parseRateCard),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the rate card in effect today (or on ?date=YYYY-MM-DD)
+ */
+export const getCurrentRateCard = async (req, res, next) => {
+  try {
+    const rateCard = await getActiveRateCard(req.query.date || null);
+
+    if (!rateCard) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: 'No rate card is in effect for this date',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: rateCard,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a single rate card by ID
+ */
+export const getRateCardById = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query('SELECT * FROM rate_cards WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Rate card with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...parseRateCard(result.rows[0]),
+        quote_count: await countQuotesForRateCard(id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a new rate card
+ * The version number is assigned automatically (latest version + 1)
+ */
+export const createRateCard = async (req, res, next) => {
+  try {
+    const {
+      name,
+      base_rate_per_mile,
+      minimum_quote,
+      weight_threshold_lbs,
+      weight_rate_per_100_lbs,
+      stop_charge,
+      repositioning_rate_per_mile,
+      equipment_multipliers,
+      effective_from,
+      effective_to,
+    } = req.body;
+
+    const result = await query(
+      `INSERT INTO rate_cards (
+        version, name, base_rate_per_mile, minimum_quote,
+        weight_threshold_lbs, weight_rate_per_100_lbs, stop_charge, repositioning_rate_per_mile,
+        equipment_multipliers, effective_from, effective_to
+      ) VALUES (
+        (SELECT COALESCE(MAX(version), 0) + 1 FROM rate_cards),
+        $1, $2, $3, COALESCE($4, 10000), COALESCE($5, 0.10), COALESCE($6, 75.00), COALESCE($7, 0.50), $8, $9, $10
+      )
+      RETURNING *`,
+      [
+        name,
+        base_rate_per_mile,
+        minimum_quote,
+        weight_threshold_lbs ?? null,
+        weight_rate_per_100_lbs ?? null,
+        stop_charge ?? null,
+        repositioning_rate_per_mile ?? null,
+        JSON.stringify(equipment_multipliers),
+        effective_from,
+        effective_to || null,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Rate card created successfully',
+      data: parseRateCard(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a rate card
+ * Once a rate card has priced quotes its pricing fields are frozen so those
+ * quotes stay explainable; create a new version and end-date the old one instead.
+ */
+export const updateRateCard = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await query('SELECT * FROM rate_cards WHERE id = $1', [id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Rate card with ID ${id} not found`,
+      });
+    }
+
+    const changedPricingFields = PRICING_FIELDS.filter((field) => req.body[field] !== undefined);
+    if (changedPricingFields.length > 0 && (await countQuotesForRateCard(id)) > 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Rate card in use',
+        message: `Rate card has priced existing quotes; ${changedPricingFields.join(', ')} cannot be changed. Create a new rate card version instead.`,
+      });
+    }
+
+    const current = existing.rows[0];
+    const updated = { ...current, ...req.body };
+
+    const result = await query(
+      `UPDATE rate_cards SET
+        name = $1,
+        base_rate_per_mile = $2,
+        minimum_quote = $3,
+        weight_threshold_lbs = $4,
+        weight_rate_per_100_lbs = $5,
+        stop_charge = $6,
+        repositioning_rate_per_mile = $7,
+        equipment_multipliers = $8,
+        effective_from = $9,
+        effective_to = $10
+      WHERE id = $11
+      RETURNING *`,
+      [
+        updated.name,
+        updated.base_rate_per_mile,
+        updated.minimum_quote,
+        updated.weight_threshold_lbs,
+        updated.weight_rate_per_100_lbs,
+        updated.stop_charge,
+        updated.repositioning_rate_per_mile,
+        JSON.stringify(updated.equipment_multipliers),
+        updated.effective_from,
+        updated.effective_to || null,
+        id,
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Rate card updated successfully',
+      data: parseRateCard(result.rows[0]),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a rate card
+ * Rate cards that have priced quotes cannot be deleted
+ */
+export const deleteRateCard = async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    if ((await countQuotesForRateCard(id)) > 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Rate card in use',
+        message: 'Rate card has priced existing quotes and cannot be deleted. Set effective_to to retire it instead.',
+      });
+    }
+
+    const result = await query('DELETE FROM rate_cards WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Rate card with ID ${id} not found`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Rate card deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -30,6 +30,14 @@ export const errorHandler = (err, req, res, next) => {
     });
   }
 
+  if (err.code === '23514') { // Check constraint violation
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid value',
+      message: err.detail || err.message,
+    });
+  }
+
   // Validation errors from express-validator
   if (err.type === 'validation') {
     return res.status(400).json({
@@ -1,4 +1,30 @@
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
+
+/**
+ * Supported equipment types
+ */
+export const EQUIPMENT_TYPES = ['dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck'];
+
+/**
+ * Supported quote currencies
+ */
+export const CURRENCIES = ['USD', 'CAD', 'MXN'];
+
+/**
+ * Quote lifecycle statuses
+ */
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'rejected', 'expired', 'cancelled'];
+
+/**
+ * Maximum intermediate stops on a quote
+ */
+export const MAX_STOPS = 8;
+
+/**
+ * How a load is put on the truck: at a dock, by forklift from the side,
+ * from above (crane), or at ground level without a dock (liftgate/ramp)
+ */
+export const LOADING_METHODS = ['dock', 'side', 'top', 'ground'];
 
 /**
  * Middleware to handle validation errors
@@ -17,130 +43,692 @@ export const handleValidationErrors = (req, res, next) => {
 };
 
 /**
- * Validation rules for creating a quote
+ * Build a validation error in the same shape as express-validator failures
+ * For checks made past the route's validation rules (e.g. against configured data).
+ * @param {Array<Object>} errors - [{ path, msg }]
+ * @returns {Error} Error rendered as a 400 by the error handler
+ */
+export const validationError = (errors) => {
+  const error = new Error('Please check your input data');
+  error.type = 'validation';
+  error.errors = errors;
+  return error;
+};
+
+/**
+ * Validation rules for the optional street address and map pin of a location
+ * @param {string} path - Body path of the location (e.g. origin, stops.*)
  */
-export const validateQuote = [
-  // Origin location
-  body('origin.city')
+const addressRules = (path) => [
+  body(`${path}.address`)
+    .optional({ values: 'null' })
     .trim()
-    .notEmpty()
-    .withMessage('Origin city is required')
-    .isLength({ min: 2, max: 100 })
-    .withMessage('Origin city must be between 2 and 100 characters'),
+    .isLength({ max: 255 })
+    .withMessage('Street address must be 255 characters or less'),
+
+  body(`${path}.coordinates`)
+    .optional({ values: 'null' })
+    .custom((value) => {
+      const latitude = Number(value && value.latitude);
+      const longitude = Number(value && value.longitude);
+      if (
+        !Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+        !Number.isFinite(longitude) || longitude < -180 || longitude > 180
+      ) {
+        throw new Error('Coordinates need a latitude (-90 to 90) and a longitude (-180 to 180)');
+      }
+      return true;
+    }),
+];
 
-  body('origin.postal_code')
+/**
+ * Validation rule for the optional postal code of a location
+ * Accepts a US ZIP (5 digits or ZIP+4), a Canadian postal code (A1A 1A1) or a Mexican CP (5 digits).
+ * @param {string} path - Body path of the location (e.g. origin, stops.*)
+ */
+const postalCodeRule = (path) =>
+  body(`${path}.postal_code`)
     .optional()
     .trim()
     .isLength({ max: 20 })
     .withMessage('Postal code must be 20 characters or less')
     .custom((value) => {
       if (!value) return true; // Optional field
-      // Validate US ZIP code format (5 digits or ZIP+4)
       const usZipRegex = /^\d{5}(-\d{4})?$/;
-      // Validate Canadian postal code format (A1A 1A1)
       const caPostalRegex = /^[A-Za-z]\d[A-Za-z] \d[A-Za-z]\d$/i;
-      // Validate Mexican postal code format (5 digits)
       const mxPostalRegex = /^\d{5}$/;
-      
+
       if (usZipRegex.test(value) || caPostalRegex.test(value) || mxPostalRegex.test(value)) {
         return true;
       }
       throw new Error('Invalid postal code format. Use US ZIP, Canadian postal code, or Mexican CP format');
+    });
+
+/**
+ * Validation rules for the origin and destination of a lane
+ * On update a location can be left out (the stored one is kept), but one that is
+ * sent must be complete
+ */
+const locationRules = (isUpdate = false) => {
+  const field = (name) => (isUpdate ? body(name).if(body(name.split('.')[0]).exists()) : body(name));
+
+  return [
+    // Origin location
+    field('origin.city')
+      .trim()
+      .notEmpty()
+      .withMessage('Origin city is required')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Origin city must be between 2 and 100 characters'),
+
+    postalCodeRule('origin'),
+
+    body('origin.state_province')
+      .optional()
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    field('origin.country')
+      .trim()
+      .notEmpty()
+      .withMessage('Origin country is required')
+      .isIn(['US', 'CA', 'MX'])
+      .withMessage('Origin country must be US, CA, or MX'),
+
+    ...addressRules('origin'),
+
+    // Destination location
+    field('destination.city')
+      .trim()
+      .notEmpty()
+      .withMessage('Destination city is required')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Destination city must be between 2 and 100 characters'),
+
+    postalCodeRule('destination'),
+
+    body('destination.state_province')
+      .optional()
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    field('destination.country')
+      .trim()
+      .notEmpty()
+      .withMessage('Destination country is required')
+      .isIn(['US', 'CA', 'MX'])
+      .withMessage('Destination country must be US, CA, or MX'),
+
+    ...addressRules('destination'),
+  ];
+};
+
+/**
+ * Check that a pickup date is today or later
+ */
+const notInPast = (value) => {
+  const date = new Date(value);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (date < today) {
+    throw new Error('Pickup date cannot be in the past');
+  }
+  return true;
+};
+
+/**
+ * Validation rules for shipment weight, pickup date, quote currency and port of entry
+ * On update the weight and pickup date are optional
+ */
+const shipmentRules = (isUpdate = false) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    field('total_weight')
+      .notEmpty()
+      .withMessage('Total weight is required')
+      .isFloat({ gt: 0 })
+      .withMessage('Total weight must be greater than 0'),
+
+    field('pickup_date')
+      .notEmpty()
+      .withMessage('Pickup date is required')
+      .isISO8601()
+      .withMessage('Pickup date must be a valid ISO 8601 date (YYYY-MM-DD)')
+      .custom(notInPast),
+
+    body('currency')
+      .optional()
+      .trim()
+      .toUpperCase()
+      .isIn(CURRENCIES)
+      .withMessage(`Currency must be one of: ${CURRENCIES.join(', ')}`),
+
+    // Border crossing of a cross-border lane (checked against ports_of_entry; none = cheapest)
+    body('port_of_entry')
+      .optional({ values: 'null' })
+      .trim()
+      .notEmpty()
+      .withMessage('Port of entry code cannot be empty')
+      .isLength({ max: 30 })
+      .withMessage('Port of entry code must be 30 characters or less'),
+  ];
+};
+
+/**
+ * Validation rules for quotes
+ * On update every field is optional: left-out fields keep their stored values
+ */
+const quoteRules = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    ...locationRules(isUpdate),
+
+    // Intermediate stops between origin and destination (in route order)
+    body('stops')
+      .optional()
+      .isArray({ max: MAX_STOPS })
+      .withMessage(`Stops must be a list of at most ${MAX_STOPS} stops`),
+
+    body('stops.*.type')
+      .isIn(['pickup', 'drop'])
+      .withMessage('Stop type must be pickup or drop'),
+
+    body('stops.*.city')
+      .trim()
+      .notEmpty()
+      .withMessage('Stop city is required')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Stop city must be between 2 and 100 characters'),
+
+    postalCodeRule('stops.*'),
+
+    body('stops.*.state_province')
+      .optional()
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    body('stops.*.country')
+      .trim()
+      .isIn(['US', 'CA', 'MX'])
+      .withMessage('Stop country must be US, CA, or MX'),
+
+    ...addressRules('stops.*'),
+
+    // Shipment details
+    field('equipment_type')
+      .trim()
+      .notEmpty()
+      .withMessage('Equipment type is required')
+      .isIn(EQUIPMENT_TYPES)
+      .withMessage('Equipment type must be: dry van, reefer, or flatbed'),
+
+    ...shipmentRules(isUpdate),
+
+    // Accessorials (codes and equipment compatibility are checked against accessorial_types)
+    body('accessorials')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('Accessorials must be a list of at most 20 items')
+      .custom((value) => {
+        const codes = value.map((item) => item && item.code);
+        if (new Set(codes).size !== codes.length) {
+          throw new Error('Each accessorial can only be requested once');
+        }
+        return true;
+      }),
+
+    body('accessorials.*.code')
+      .trim()
+      .notEmpty()
+      .withMessage('Accessorial code is required'),
+
+    body('accessorials.*.quantity')
+      .optional()
+      .isFloat({ gt: 0, max: 72 })
+      .withMessage('Accessorial quantity must be greater than 0 and at most 72 hours'),
+
+    // Free-form fields that never affect the price
+    body('customer_reference')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Customer reference must be 100 characters or less'),
+
+    body('notes')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Notes must be 2000 characters or less'),
+
+    handleValidationErrors,
+  ];
+};
+
+/**
+ * Validation rule for the quote ID route parameter
+ */
+const quoteIdRule = param('id')
+  .isInt({ min: 1 })
+  .withMessage('Quote ID must be a positive integer');
+
+export const validateQuote = quoteRules(false);
+
+export const validateQuoteUpdate = [quoteIdRule, ...quoteRules(true)];
+
+/**
+ * Validation rules for quote routes that only take the quote ID
+ */
+export const validateQuoteId = [quoteIdRule, handleValidationErrors];
+
+/**
+ * Validation rules for equipment recommendations
+ * Same lane and shipment fields as a quote, without the equipment type,
+ * plus the load's dimensions, temperature range and loading method
+ */
+export const validateEquipmentRecommendation = [
+  ...locationRules(),
+  ...shipmentRules(),
+
+  body(['dimensions.length_in', 'dimensions.width_in', 'dimensions.height_in'])
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0, max: 1200 })
+    .withMessage('Dimensions must be greater than 0 and at most 1,200 inches'),
+
+  body(['temperature.min_f', 'temperature.max_f'])
+    .optional({ values: 'null' })
+    .isFloat({ min: -40, max: 100 })
+    .withMessage('Temperatures must be between -40°F and 100°F'),
+
+  body('temperature')
+    .optional({ values: 'null' })
+    .custom((value) => {
+      if (value.min_f != null && value.max_f != null && Number(value.min_f) > Number(value.max_f)) {
+        throw new Error('Minimum temperature cannot be above the maximum temperature');
+      }
+      return true;
     }),
 
-  body('origin.state_province')
+  body('loading_method')
+    .optional({ values: 'null' })
+    .isIn(LOADING_METHODS)
+    .withMessage(`Loading method must be one of: ${LOADING_METHODS.join(', ')}`),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for query parameters (pagination, filtering)
+ */
+export const validateQueryParams = [
+  body('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  body('limit')
     .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for requoting
+ * Both fields are optional: the original quote's pickup date (while it is still ahead)
+ * and equipment type are used otherwise.
+ */
+export const validateRequote = [
+  quoteIdRule,
+
+  body('pickup_date')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Pickup date must be a valid ISO 8601 date (YYYY-MM-DD)')
+    .custom(notInPast),
+
+  body('equipment_type')
+    .optional({ values: 'falsy' })
+    .isIn(EQUIPMENT_TYPES)
+    .withMessage(`Equipment type must be one of: ${EQUIPMENT_TYPES.join(', ')}`),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for quote status changes
+ * A reason is required when rejecting a quote; which transitions are legal is
+ * checked against the quote's current status by the quote status service.
+ */
+export const validateQuoteStatus = [
+  quoteIdRule,
+
+  body('status')
     .trim()
-    .isLength({ max: 50 })
-    .withMessage('State/province must be 50 characters or less'),
+    .isIn(QUOTE_STATUSES)
+    .withMessage(`Status must be one of: ${QUOTE_STATUSES.join(', ')}`),
 
-  body('origin.country')
+  body('reason')
+    .optional({ values: 'null' })
+    .isString()
     .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason must be 500 characters or less'),
+
+  body('reason')
+    .if(body('status').equals('rejected'))
     .notEmpty()
-    .withMessage('Origin country is required')
-    .isIn(['US', 'CA', 'MX'])
-    .withMessage('Origin country must be US, CA, or MX'),
+    .withMessage('A reason is required to reject a quote'),
+
+  handleValidationErrors,
+];
+
+
+/**
+ * Validation rules for rate cards
+ * On update every field is optional (only provided fields are changed)
+ */
+const rateCardRules = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Rate card name is required')
+      .isLength({ max: 100 })
+      .withMessage('Rate card name must be 100 characters or less'),
+
+    field('base_rate_per_mile')
+      .notEmpty()
+      .withMessage('Base rate per mile is required')
+      .isFloat({ gt: 0 })
+      .withMessage('Base rate per mile must be greater than 0'),
+
+    field('minimum_quote')
+      .notEmpty()
+      .withMessage('Minimum quote is required')
+      .isFloat({ min: 0 })
+      .withMessage('Minimum quote must be 0 or greater'),
+
+    body('weight_threshold_lbs')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Weight threshold must be 0 or greater'),
+
+    body('weight_rate_per_100_lbs')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Weight rate per 100 lbs must be 0 or greater'),
+
+    body('stop_charge')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Stop charge must be 0 or greater'),
+
+    body('repositioning_rate_per_mile')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Repositioning rate per mile must be 0 or greater'),
+
+    field('equipment_multipliers')
+      .isObject()
+      .withMessage('Equipment multipliers must be an object keyed by equipment type')
+      .custom((value) => {
+        for (const [equipmentType, multiplier] of Object.entries(value)) {
+          if (!EQUIPMENT_TYPES.includes(equipmentType)) {
+            throw new Error(`Unknown equipment type in multipliers: ${equipmentType}`);
+          }
+          if (typeof multiplier !== 'number' || multiplier <= 0) {
+            throw new Error(`Multiplier for ${equipmentType} must be a number greater than 0`);
+          }
+        }
+        return true;
+      }),
 
-  // Destination location
-  body('destination.city')
+    field('effective_from')
+      .notEmpty()
+      .withMessage('Effective from date is required')
+      .isISO8601()
+      .withMessage('Effective from must be a valid ISO 8601 date (YYYY-MM-DD)'),
+
+    body('effective_to')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Effective to must be a valid ISO 8601 date (YYYY-MM-DD)')
+      .custom((value, { req }) => {
+        if (req.body.effective_from && new Date(value) < new Date(req.body.effective_from)) {
+          throw new Error('Effective to cannot be before effective from');
+        }
+        return true;
+      }),
+
+    handleValidationErrors,
+  ];
+};
+
+export const validateRateCard = rateCardRules(false);
+export const validateRateCardUpdate = rateCardRules(true);
+
+/**
+ * Validation rules for lane rate overrides
+ * On update every field is optional (only provided fields are changed)
+ */
+const laneRateRules = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  const regionRules = (side, label) => [
+    field(`${side}_country`)
+      .trim()
+      .notEmpty()
+      .withMessage(`${label} country is required`)
+      .isIn(['US', 'CA', 'MX'])
+      .withMessage(`${label} country must be US, CA, or MX`),
+
+    body(`${side}_state_province`)
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    body(`${side}_postal_prefix`)
+      .optional({ values: 'null' })
+      .trim()
+      .matches(/^[A-Za-z0-9 ]{1,10}$/)
+      .withMessage('Postal prefix must be 1-10 letters or digits'),
+  ];
+
+  return [
+    body('name')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Lane rate name must be 100 characters or less'),
+
+    ...regionRules('origin', 'Origin'),
+    ...regionRules('destination', 'Destination'),
+
+    body('equipment_type')
+      .optional({ values: 'null' })
+      .trim()
+      .isIn(EQUIPMENT_TYPES)
+      .withMessage(`Equipment type must be one of: ${EQUIPMENT_TYPES.join(', ')}`),
+
+    field('rate_per_mile')
+      .notEmpty()
+      .withMessage('Rate per mile is required')
+      .isFloat({ gt: 0 })
+      .withMessage('Rate per mile must be greater than 0'),
+
+    body('minimum_quote')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Minimum quote must be 0 or greater'),
+
+    body('active')
+      .optional()
+      .isBoolean()
+      .withMessage('Active must be true or false'),
+
+    handleValidationErrors,
+  ];
+};
+
+export const validateLaneRate = laneRateRules(false);
+export const validateLaneRateUpdate = laneRateRules(true);
+
+/**
+ * Validation rules for updating an accessorial type
+ */
+export const validateAccessorialTypeUpdate = [
+  body('name')
+    .optional()
     .trim()
     .notEmpty()
-    .withMessage('Destination city is required')
-    .isLength({ min: 2, max: 100 })
-    .withMessage('Destination city must be between 2 and 100 characters'),
+    .withMessage('Accessorial name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Accessorial name must be 100 characters or less'),
 
-  body('destination.postal_code')
+  body('price')
     .optional()
-    .trim()
-    .isLength({ max: 20 })
-    .withMessage('Postal code must be 20 characters or less')
+    .isFloat({ min: 0 })
+    .withMessage('Price must be 0 or greater'),
+
+  body('allowed_equipment_types')
+    .optional({ values: 'null' })
+    .isArray({ min: 1 })
+    .withMessage('Allowed equipment types must be a non-empty list (or null for all equipment)')
     .custom((value) => {
-      if (!value) return true; // Optional field
-      const usZipRegex = /^\d{5}(-\d{4})?$/;
-      const caPostalRegex = /^[A-Za-z]\d[A-Za-z] \d[A-Za-z]\d$/i;
-      const mxPostalRegex = /^\d{5}$/;
-      
-      if (usZipRegex.test(value) || caPostalRegex.test(value) || mxPostalRegex.test(value)) {
-        return true;
+      const unknown = value.filter((equipmentType) => !EQUIPMENT_TYPES.includes(equipmentType));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown equipment type: ${unknown.join(', ')}`);
       }
-      throw new Error('Invalid postal code format. Use US ZIP, Canadian postal code, or Mexican CP format');
+      return true;
     }),
 
-  body('destination.state_province')
+  body('active')
     .optional()
-    .trim()
-    .isLength({ max: 50 })
-    .withMessage('State/province must be 50 characters or less'),
+    .isBoolean()
+    .withMessage('Active must be true or false'),
 
-  body('destination.country')
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for updating a cross-border fee
+ */
+export const validateCrossBorderFeeUpdate = [
+  body('name')
+    .optional()
     .trim()
     .notEmpty()
-    .withMessage('Destination country is required')
+    .withMessage('Fee name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Fee name must be 100 characters or less'),
+
+  body('amount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Amount must be 0 or greater'),
+
+  body('applies_to_country')
+    .optional({ values: 'null' })
     .isIn(['US', 'CA', 'MX'])
-    .withMessage('Destination country must be US, CA, or MX'),
+    .withMessage('Applies to country must be US, CA, MX or null for every cross-border lane'),
 
-  // Shipment details
-  body('equipment_type')
+  body('active')
+    .optional()
+    .isBoolean()
+    .withMessage('Active must be true or false'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for updating a calendar rule
+ */
+export const validateCalendarRuleUpdate = [
+  body('name')
+    .optional()
     .trim()
     .notEmpty()
-    .withMessage('Equipment type is required')
-    .isIn(['dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck'])
-    .withMessage('Equipment type must be: dry van, reefer, or flatbed'),
+    .withMessage('Rule name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Rule name must be 100 characters or less'),
 
-  body('total_weight')
-    .notEmpty()
-    .withMessage('Total weight is required')
-    .isFloat({ gt: 0 })
-    .withMessage('Total weight must be greater than 0'),
+  body('country')
+    .optional({ values: 'null' })
+    .isIn(['US', 'CA', 'MX'])
+    .withMessage('Country must be US, CA, MX or null for every origin country'),
 
-  body('pickup_date')
-    .notEmpty()
-    .withMessage('Pickup date is required')
-    .isISO8601()
-    .withMessage('Pickup date must be a valid ISO 8601 date (YYYY-MM-DD)')
-    .custom((value) => {
-      const date = new Date(value);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (date < today) {
-        throw new Error('Pickup date cannot be in the past');
-      }
-      return true;
-    }),
+  body('equipment_type')
+    .optional({ values: 'null' })
+    .isIn(EQUIPMENT_TYPES)
+    .withMessage(`Equipment type must be one of: ${EQUIPMENT_TYPES.join(', ')} (or null for all equipment)`),
+
+  body(['season_start', 'season_end'])
+    .optional({ values: 'null' })
+    .matches(/^(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])$/)
+    .withMessage('Season boundaries must be MM-DD'),
+
+  body('max_days_notice')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 30 })
+    .withMessage('Max days notice must be between 0 and 30'),
+
+  body('percent')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Percent must be between 0 and 100'),
+
+  body('flat_amount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Flat amount must be 0 or greater'),
+
+  body('active')
+    .optional()
+    .isBoolean()
+    .withMessage('Active must be true or false'),
 
   handleValidationErrors,
 ];
 
 /**
- * Validation rules for query parameters (pagination, filtering)
+ * Validation rules for geocode cache inspection and purging
  */
-export const validateQueryParams = [
-  body('page')
+export const validateGeocodeCacheQuery = [
+  query('country')
+    .optional()
+    .trim()
+    .toUpperCase()
+    .isIn(['US', 'CA', 'MX'])
+    .withMessage('Country must be US, CA, or MX'),
+
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search must be 100 characters or less'),
+
+  query('expired_only')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('expired_only must be true or false'),
+
+  query('page')
     .optional()
     .isInt({ min: 1 })
     .withMessage('Page must be a positive integer'),
 
-  body('limit')
+  query('limit')
     .optional()
     .isInt({ min: 1, max: 100 })
     .withMessage('Limit must be between 1 and 100'),
@@ -148,3 +736,176 @@ export const validateQueryParams = [
   handleValidationErrors,
 ];
 
+/**
+ * Validation rules for deleting a geocode cache entry
+ */
+export const validateGeocodeCacheEntryId = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Entry ID must be a positive integer'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for market hubs
+ * On update every field is optional (only provided fields are changed)
+ */
+const marketHubRules = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Market hub name is required')
+      .isLength({ max: 100 })
+      .withMessage('Market hub name must be 100 characters or less'),
+
+    field('country')
+      .trim()
+      .notEmpty()
+      .withMessage('Country is required')
+      .isIn(['US', 'CA', 'MX'])
+      .withMessage('Country must be US, CA, or MX'),
+
+    body('state_province')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    field('latitude')
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Latitude must be between -90 and 90'),
+
+    field('longitude')
+      .isFloat({ min: -180, max: 180 })
+      .withMessage('Longitude must be between -180 and 180'),
+
+    body('active')
+      .optional()
+      .isBoolean()
+      .withMessage('Active must be true or false'),
+
+    handleValidationErrors,
+  ];
+};
+
+export const validateMarketHub = marketHubRules(false);
+export const validateMarketHubUpdate = marketHubRules(true);
+
+/**
+ * Validation rules for location search
+ */
+export const validateLocationSearch = [
+  query('q')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search text must be 2 to 100 characters'),
+
+  query('country')
+    .optional()
+    .trim()
+    .toUpperCase()
+    .isIn(['US', 'CA', 'MX'])
+    .withMessage('Country must be US, CA, or MX'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 25 })
+    .withMessage('Limit must be between 1 and 25'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for reverse geocoding
+ */
+export const validateReverseGeocode = [
+  query('lat')
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('lat must be a latitude between -90 and 90'),
+
+  query('lon')
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('lon must be a longitude between -180 and 180'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for listing ports of entry
+ */
+export const validatePortOfEntryList = [
+  query('country')
+    .optional()
+    .trim()
+    .toUpperCase()
+    .isIn(['CA', 'MX'])
+    .withMessage('Country must be CA or MX'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Validation rules for ports of entry
+ * On update every field is optional (only provided fields are changed)
+ */
+const portOfEntryRules = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    field('code')
+      .trim()
+      .notEmpty()
+      .withMessage('Port of entry code is required')
+      .isLength({ max: 30 })
+      .withMessage('Port of entry code must be 30 characters or less')
+      .matches(/^[a-z0-9_]+$/)
+      .withMessage('Port of entry code may only contain lowercase letters, digits and underscores'),
+
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Port of entry name is required')
+      .isLength({ max: 100 })
+      .withMessage('Port of entry name must be 100 characters or less'),
+
+    field('border_country')
+      .trim()
+      .notEmpty()
+      .withMessage('Border country is required')
+      .isIn(['CA', 'MX'])
+      .withMessage('Border country must be CA or MX'),
+
+    body('state_province')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 50 })
+      .withMessage('State/province must be 50 characters or less'),
+
+    field('latitude')
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Latitude must be between -90 and 90'),
+
+    field('longitude')
+      .isFloat({ min: -180, max: 180 })
+      .withMessage('Longitude must be between -180 and 180'),
+
+    body('crossing_fee')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Crossing fee must be 0 or more'),
+
+    body('active')
+      .optional()
+      .isBoolean()
+      .withMessage('Active must be true or false'),
+
+    handleValidationErrors,
+  ];
+};
+
+export const validatePortOfEntry = portOfEntryRules(false);
+export const validatePortOfEntryUpdate = portOfEntryRules(true);
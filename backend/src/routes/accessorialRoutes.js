@@ -0,0 +1,21 @@
+import express from 'express';
+import { getAllAccessorialTypes, updateAccessorialType } from '../controllers/accessorialController.js';
+import { validateAccessorialTypeUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/accessorials
+ * @desc    Get accessorial types and their prices
+ * @access  Public
+ */
+router.get('/', getAllAccessorialTypes);
+
+/**
+ * @route   PUT /api/accessorials/:code
+ * @desc    Update an accessorial type
+ * @access  Public
+ */
+router.put('/:code', validateAccessorialTypeUpdate, updateAccessorialType);
+
+export default router;
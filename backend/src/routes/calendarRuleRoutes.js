@@ -0,0 +1,21 @@
+import express from 'express';
+import { getCalendarRuleList, updateCalendarRule } from '../controllers/calendarRuleController.js';
+import { validateCalendarRuleUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/calendar-rules
+ * @desc    Get pickup-date calendar rules (weekend, holiday, peak season, short notice)
+ * @access  Public
+ */
+router.get('/', getCalendarRuleList);
+
+/**
+ * @route   PUT /api/calendar-rules/:code
+ * @desc    Update a calendar rule
+ * @access  Public
+ */
+router.put('/:code', validateCalendarRuleUpdate, updateCalendarRule);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import { getCrossBorderFeeList, updateCrossBorderFee } from '../controllers/crossBorderFeeController.js';
+import { validateCrossBorderFeeUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/cross-border-fees
+ * @desc    Get cross-border fees
+ * @access  Public
+ */
+router.get('/', getCrossBorderFeeList);
+
+/**
+ * @route   PUT /api/cross-border-fees/:code
+ * @desc    Update a cross-border fee
+ * @access  Public
+ */
+router.put('/:code', validateCrossBorderFeeUpdate, updateCrossBorderFee);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import { getEquipmentTypeList, recommendEquipment } from '../controllers/equipmentController.js';
+import { validateEquipmentRecommendation } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/equipment
+ * @desc    Get equipment types with capacity, dimensions, temperature range and loading methods
+ * @access  Public
+ */
+router.get('/', getEquipmentTypeList);
+
+/**
+ * @route   POST /api/equipment/recommendations
+ * @desc    Recommend and price the equipment that can carry a shipment
+ * @access  Public
+ */
+router.post('/recommendations', validateEquipmentRecommendation, recommendEquipment);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  deleteGeocodeCacheEntry,
+  getGeocodeCacheList,
+  purgeGeocodeCacheEntries,
+} from '../controllers/geocodeCacheController.js';
+import { validateGeocodeCacheEntryId, validateGeocodeCacheQuery } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/geocode-cache
+ * @desc    Admin: inspect cached geocoding results (with hit counts and expiry)
+ * @access  Public
+ */
+router.get('/', validateGeocodeCacheQuery, getGeocodeCacheList);
+
+/**
+ * @route   DELETE /api/geocode-cache
+ * @desc    Admin: purge cached geocoding results (all, expired only, or filtered)
+ * @access  Public
+ */
+router.delete('/', validateGeocodeCacheQuery, purgeGeocodeCacheEntries);
+
+/**
+ * @route   DELETE /api/geocode-cache/:id
+ * @desc    Admin: delete a single cached geocoding result
+ * @access  Public
+ */
+router.delete('/:id', validateGeocodeCacheEntryId, deleteGeocodeCacheEntry);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { getReverseGeocode } from '../controllers/geocodeController.js';
+import { validateReverseGeocode } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/geocode/reverse
+ * @desc    Find the address, city and postal code at a point (lat, lon)
+ * @access  Public
+ */
+router.get('/reverse', validateReverseGeocode, getReverseGeocode);
+
+export default router;
@@ -0,0 +1,48 @@
+import express from 'express';
+import {
+  createLaneRate,
+  deleteLaneRate,
+  getAllLaneRates,
+  getLaneRateById,
+  updateLaneRate,
+} from '../controllers/laneRateController.js';
+import { validateLaneRate, validateLaneRateUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/lane-rates
+ * @desc    Create a lane rate override
+ * @access  Public
+ */
+router.post('/', validateLaneRate, createLaneRate);
+
+/**
+ * @route   GET /api/lane-rates
+ * @desc    Get all lane rate overrides
+ * @access  Public
+ */
+router.get('/', getAllLaneRates);
+
+/**
+ * @route   GET /api/lane-rates/:id
+ * @desc    Get a single lane rate override by ID
+ * @access  Public
+ */
+router.get('/:id', getLaneRateById);
+
+/**
+ * @route   PUT /api/lane-rates/:id
+ * @desc    Update a lane rate override
+ * @access  Public
+ */
+router.put('/:id', validateLaneRateUpdate, updateLaneRate);
+
+/**
+ * @route   DELETE /api/lane-rates/:id
+ * @desc    Delete a lane rate override
+ * @access  Public
+ */
+router.delete('/:id', deleteLaneRate);
+
+export default router;
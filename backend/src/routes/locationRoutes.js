@@ -0,0 +1,14 @@
+import express from 'express';
+import { getLocationSuggestions } from '../controllers/locationController.js';
+import { validateLocationSearch } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/locations/search
+ * @desc    Suggest gazetteer locations matching a city, state/province or postal code
+ * @access  Public
+ */
+router.get('/search', validateLocationSearch, getLocationSuggestions);
+
+export default router;
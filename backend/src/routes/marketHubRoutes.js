@@ -0,0 +1,40 @@
+import express from 'express';
+import {
+  createMarketHub,
+  deleteMarketHub,
+  getMarketHubList,
+  updateMarketHub,
+} from '../controllers/marketHubController.js';
+import { validateMarketHub, validateMarketHubUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/market-hubs
+ * @desc    Get market hubs used for deadhead estimates
+ * @access  Public
+ */
+router.get('/', getMarketHubList);
+
+/**
+ * @route   POST /api/market-hubs
+ * @desc    Create a market hub
+ * @access  Public
+ */
+router.post('/', validateMarketHub, createMarketHub);
+
+/**
+ * @route   PUT /api/market-hubs/:id
+ * @desc    Update a market hub
+ * @access  Public
+ */
+router.put('/:id', validateMarketHubUpdate, updateMarketHub);
+
+/**
+ * @route   DELETE /api/market-hubs/:id
+ * @desc    Delete a market hub
+ * @access  Public
+ */
+router.delete('/:id', deleteMarketHub);
+
+export default router;
@@ -0,0 +1,44 @@
+import express from 'express';
+import {
+  createPortOfEntry,
+  deletePortOfEntry,
+  getPortOfEntryList,
+  updatePortOfEntry,
+} from '../controllers/portOfEntryController.js';
+import {
+  validatePortOfEntry,
+  validatePortOfEntryList,
+  validatePortOfEntryUpdate,
+} from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/ports-of-entry
+ * @desc    Get border crossings that cross-border lanes are routed through
+ * @access  Public
+ */
+router.get('/', validatePortOfEntryList, getPortOfEntryList);
+
+/**
+ * @route   POST /api/ports-of-entry
+ * @desc    Create a port of entry
+ * @access  Public
+ */
+router.post('/', validatePortOfEntry, createPortOfEntry);
+
+/**
+ * @route   PUT /api/ports-of-entry/:id
+ * @desc    Update a port of entry
+ * @access  Public
+ */
+router.put('/:id', validatePortOfEntryUpdate, updatePortOfEntry);
+
+/**
+ * @route   DELETE /api/ports-of-entry/:id
+ * @desc    Delete a port of entry
+ * @access  Public
+ */
+router.delete('/:id', deletePortOfEntry);
+
+export default router;
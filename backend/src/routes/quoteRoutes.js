@@ -1,10 +1,23 @@
 import express from 'express';
 import {
   createQuote,
+  deleteQuote,
   getAllQuotes,
   getQuoteById,
+  getQuoteRevisions,
+  getQuoteRoute,
+  requoteQuote,
+  restoreQuote,
+  updateQuote,
+  updateQuoteStatus,
 } from '../controllers/quoteController.js';
-import { validateQuote } from '../middleware/validation.js';
+import {
+  validateQuote,
+  validateQuoteId,
+  validateQuoteStatus,
+  validateQuoteUpdate,
+  validateRequote,
+} from '../middleware/validation.js';
 
 const router = express.Router();
 
@@ -17,17 +30,66 @@ router.post('/', validateQuote, createQuote);
 
 /**
  * @route   GET /api/quotes
- * @desc    Get all quotes with pagination
+ * @desc    Get all quotes with pagination (deleted quotes only with include_deleted=true)
  * @access  Public
  */
 router.get('/', getAllQuotes);
 
 /**
  * @route   GET /api/quotes/:id
- * @desc    Get a single quote by ID
+ * @desc    Get a single quote by ID (a deleted quote only with include_deleted=true)
  * @access  Public
  */
 router.get('/:id', getQuoteById);
 
+/**
+ * @route   PUT /api/quotes/:id
+ * @desc    Edit a quote (repriced only when a location or pricing field changes)
+ * @access  Public
+ */
+router.put('/:id', validateQuoteUpdate, updateQuote);
+
+/**
+ * @route   DELETE /api/quotes/:id
+ * @desc    Soft-delete a quote
+ * @access  Public
+ */
+router.delete('/:id', validateQuoteId, deleteQuote);
+
+/**
+ * @route   POST /api/quotes/:id/restore
+ * @desc    Restore a soft-deleted quote
+ * @access  Public
+ */
+router.post('/:id/restore', validateQuoteId, restoreQuote);
+
+/**
+ * @route   GET /api/quotes/:id/route
+ * @desc    Get the stored route of a quote as GeoJSON (a deleted quote only with include_deleted=true)
+ * @access  Public
+ */
+router.get('/:id/route', validateQuoteId, getQuoteRoute);
+
+/**
+ * @route   GET /api/quotes/:id/revisions
+ * @desc    Get every priced version of a quote with what changed in each (a deleted quote only with include_deleted=true)
+ * @access  Public
+ */
+router.get('/:id/revisions', validateQuoteId, getQuoteRevisions);
+
+/**
+ * @route   POST /api/quotes/:id/requote
+ * @desc    Reprice an existing quote with today's rates as a new quote (optional new pickup_date or equipment_type)
+ * @access  Public
+ */
+router.post('/:id/requote', validateRequote, requoteQuote);
+
+/**
+ * @route   PATCH /api/quotes/:id/status
+ * @desc    Move a quote to a new status (draft, sent, accepted, rejected, expired, cancelled)
+ * @access  Public
+ */
+router.patch('/:id/status', validateQuoteStatus, updateQuoteStatus);
+
 export default router;
 
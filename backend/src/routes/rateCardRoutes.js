@@ -0,0 +1,56 @@
+import express from 'express';
+import {
+  createRateCard,
+  deleteRateCard,
+  getAllRateCards,
+  getCurrentRateCard,
+  getRateCardById,
+  updateRateCard,
+} from '../controllers/rateCardController.js';
+import { validateRateCard, validateRateCardUpdate } from '../middleware/validation.js';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/rate-cards
+ * @desc    Create a new rate card version
+ * @access  Public
+ */
+router.post('/', validateRateCard, createRateCard);
+
+/**
+ * @route   GET /api/rate-cards
+ * @desc    Get all rate cards
+ * @access  Public
+ */
+router.get('/', getAllRateCards);
+
+/**
+ * @route   GET /api/rate-cards/active
+ * @desc    Get the rate card in effect today (or on ?date=YYYY-MM-DD)
+ * @access  Public
+ */
+router.get('/active', getCurrentRateCard);
+
+/**
+ * @route   GET /api/rate-cards/:id
+ * @desc    Get a single rate card by ID
+ * @access  Public
+ */
+router.get('/:id', getRateCardById);
+
+/**
+ * @route   PUT /api/rate-cards/:id
+ * @desc    Update a rate card
+ * @access  Public
+ */
+router.put('/:id', validateRateCardUpdate, updateRateCard);
+
+/**
+ * @route   DELETE /api/rate-cards/:id
+ * @desc    Delete a rate card that has not priced any quotes
+ * @access  Public
+ */
+router.delete('/:id', deleteRateCard);
+
+export default router;
@@ -2,8 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import quoteRoutes from './routes/quoteRoutes.js';
+import rateCardRoutes from './routes/rateCardRoutes.js';
+import laneRateRoutes from './routes/laneRateRoutes.js';
+import accessorialRoutes from './routes/accessorialRoutes.js';
+import crossBorderFeeRoutes from './routes/crossBorderFeeRoutes.js';
+import calendarRuleRoutes from './routes/calendarRuleRoutes.js';
+import equipmentRoutes from './routes/equipmentRoutes.js';
+import geocodeCacheRoutes from './routes/geocodeCacheRoutes.js';
+import marketHubRoutes from './routes/marketHubRoutes.js';
+import locationRoutes from './routes/locationRoutes.js';
+import geocodeRoutes from './routes/geocodeRoutes.js';
+import portOfEntryRoutes from './routes/portOfEntryRoutes.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
 import { query } from './config/database.js';
+import { startQuoteExpiryJob } from './services/quoteExpiry.js';
 
 // Load environment variables
 dotenv.config();
@@ -45,6 +57,17 @@ app.get('/health', async (req, res) => {
 
 // API Routes
 app.use('/api/quotes', quoteRoutes);
+app.use('/api/rate-cards', rateCardRoutes);
+app.use('/api/lane-rates', laneRateRoutes);
+app.use('/api/accessorials', accessorialRoutes);
+app.use('/api/cross-border-fees', crossBorderFeeRoutes);
+app.use('/api/calendar-rules', calendarRuleRoutes);
+app.use('/api/equipment', equipmentRoutes);
+app.use('/api/geocode-cache', geocodeCacheRoutes);
+app.use('/api/market-hubs', marketHubRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/geocode', geocodeRoutes);
+app.use('/api/ports-of-entry', portOfEntryRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -55,6 +78,17 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       quotes: '/api/quotes',
+      rateCards: '/api/rate-cards',
+      laneRates: '/api/lane-rates',
+      accessorials: '/api/accessorials',
+      crossBorderFees: '/api/cross-border-fees',
+      calendarRules: '/api/calendar-rules',
+      equipment: '/api/equipment',
+      geocodeCache: '/api/geocode-cache',
+      marketHubs: '/api/market-hubs',
+      locations: '/api/locations',
+      geocode: '/api/geocode',
+      portsOfEntry: '/api/ports-of-entry',
     },
   });
 });
@@ -69,6 +103,9 @@ app.listen(PORT, () => {
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🌐 API available at http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
+
+  // Expire quotes whose validity window has ended
+  startQuoteExpiryJob();
 });
 
 // Graceful shutdown
@@ -0,0 +1,91 @@
+import { query } from '../config/database.js';
+import { validationError } from '../middleware/validation.js';
+
+/**
+ * Accessorial service
+ * Accessorials are optional services (liftgate, detention, tarping, ...) priced
+ * from the configurable accessorial_types table.
+ */
+
+/**
+ * Convert an accessorial_types row into numeric values
+ * @param {Object} row - accessorial_types row
+ * @returns {Object}
+ */
+export const parseAccessorialType = (row) => ({
+  ...row,
+  price: parseFloat(row.price),
+});
+
+/**
+ * Get accessorial types
+ * @param {boolean} includeInactive - Include deactivated types
+ * @returns {Promise<Array<Object>>}
+ */
+export const getAccessorialTypes = async (includeInactive = false) => {
+  const result = await query(
+    `SELECT * FROM accessorial_types
+     ${includeInactive ? '' : 'WHERE active'}
+     ORDER BY name`
+  );
+
+  return result.rows.map(parseAccessorialType);
+};
+
+/**
+ * Resolve requested accessorials against the configured types
+ * Checks that each code exists and is active, that it is allowed for the
+ * equipment type, and that hourly accessorials have a quantity.
+ * @param {Array<Object>} requested - [{ code, quantity? }]
+ * @param {string} equipmentType
+ * @returns {Promise<Array<Object>>} [{ ...accessorialType, quantity }]
+ * @throws {Error} Validation error (type = 'validation') listing every problem
+ */
+export const resolveAccessorials = async (requested = [], equipmentType) => {
+  if (!requested || requested.length === 0) return [];
+
+  const codes = requested.map((item) => item.code);
+  const result = await query(
+    'SELECT * FROM accessorial_types WHERE code = ANY($1) AND active',
+    [codes]
+  );
+  const typesByCode = Object.fromEntries(
+    result.rows.map((row) => [row.code, parseAccessorialType(row)])
+  );
+
+  const errors = [];
+  const resolved = requested.map((item, index) => {
+    const path = `accessorials[${index}]`;
+    const type = typesByCode[item.code];
+
+    if (!type) {
+      errors.push({ path: `${path}.code`, msg: `Unknown accessorial: ${item.code}` });
+      return null;
+    }
+
+    if (type.allowed_equipment_types && !type.allowed_equipment_types.includes(equipmentType)) {
+      const allowed = type.allowed_equipment_types.map((e) => e.replace(/_/g, ' ')).join(', ');
+      errors.push({
+        path: `${path}.code`,
+        msg: `${type.name} is only available for ${allowed} equipment`,
+      });
+      return null;
+    }
+
+    if (type.pricing_unit === 'per_hour' && !(item.quantity > 0)) {
+      errors.push({ path: `${path}.quantity`, msg: `${type.name} requires a number of hours` });
+      return null;
+    }
+
+    return {
+      ...type,
+      quantity: type.pricing_unit === 'per_hour' ? parseFloat(item.quantity) : 1,
+    };
+  });
+
+  if (errors.length > 0) {
+    throw validationError(errors);
+  }
+
+  return resolved;
+};
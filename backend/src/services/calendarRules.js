@@ -0,0 +1,138 @@
+import { query } from '../config/database.js';
+
+/**
+ * Calendar rule service
+ * Calendar rules price the pickup date: weekend pickups, statutory holidays in the
+ * origin country, peak-season windows (optionally per equipment type) and
+ * short-notice pickups. Rules are configured in the calendar_rules table.
+ */
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a calendar_rules row into numeric values
+ * @param {Object} row - calendar_rules row
+ * @returns {Object}
+ */
+export const parseCalendarRule = (row) => ({
+  ...row,
+  percent: parseFloat(row.percent),
+  flat_amount: parseFloat(row.flat_amount),
+});
+
+/**
+ * Get calendar rules
+ * @param {boolean} includeInactive - Include deactivated rules
+ * @returns {Promise<Array<Object>>}
+ */
+export const getCalendarRules = async (includeInactive = false) => {
+  const result = await query(
+    `SELECT * FROM calendar_rules
+     ${includeInactive ? '' : 'WHERE active'}
+     ORDER BY rule_type, code`
+  );
+
+  return result.rows.map(parseCalendarRule);
+};
+
+/**
+ * Format a local date as YYYY-MM-DD
+ * @param {Date} date
+ * @returns {string}
+ */
+export const toDateString = (date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Format a MM-DD season boundary for display (e.g. "04-15" -> "Apr 15")
+ */
+const formatMonthDay = (monthDay) => `${MONTH_NAMES[parseInt(monthDay.slice(0, 2)) - 1]} ${parseInt(monthDay.slice(3, 5))}`;
+
+/**
+ * Whether a MM-DD day falls in a season window (windows may wrap past year end)
+ */
+const isInSeason = (monthDay, seasonStart, seasonEnd) =>
+  seasonStart <= seasonEnd
+    ? monthDay >= seasonStart && monthDay <= seasonEnd
+    : monthDay >= seasonStart || monthDay <= seasonEnd;
+
+/**
+ * Pick the calendar rules that apply to a pickup
+ * Every matching weekend, holiday and peak-season rule applies; of the short-notice
+ * rules only the most urgent one (lowest max_days_notice) applies.
+ * @param {Array<Object>} rules - Active calendar rules
+ * @param {Object} pickup
+ * @param {string} pickup.pickupDate - Pickup date as YYYY-MM-DD
+ * @param {string} pickup.today - Quote date as YYYY-MM-DD
+ * @param {string} pickup.originCountry - US, CA or MX
+ * @param {string} pickup.equipmentType
+ * @param {Object|null} pickup.holiday - Holiday on the pickup date in the origin country ({ name })
+ * @returns {Array<Object>} Matching rules, each with a human-readable reason
+ */
+export const selectCalendarRules = (rules, { pickupDate, today, originCountry, equipmentType, holiday = null }) => {
+  const dayOfWeek = new Date(`${pickupDate}T00:00:00Z`).getUTCDay();
+  const monthDay = pickupDate.slice(5, 10);
+  const daysNotice = Math.round((Date.parse(pickupDate) - Date.parse(today)) / MS_PER_DAY);
+
+  const matched = rules
+    .filter((rule) => !rule.country || rule.country === originCountry)
+    .filter((rule) => !rule.equipment_type || rule.equipment_type === equipmentType)
+    .map((rule) => {
+      switch (rule.rule_type) {
+        case 'weekend':
+          return dayOfWeek === 0 || dayOfWeek === 6
+            ? { ...rule, reason: `${DAY_NAMES[dayOfWeek]} pickup` }
+            : null;
+        case 'holiday':
+          return holiday
+            ? { ...rule, reason: `${holiday.name} (${originCountry})` }
+            : null;
+        case 'peak_season':
+          return isInSeason(monthDay, rule.season_start, rule.season_end)
+            ? { ...rule, reason: `Pickup in season (${formatMonthDay(rule.season_start)} – ${formatMonthDay(rule.season_end)})` }
+            : null;
+        case 'short_notice':
+          return daysNotice >= 0 && daysNotice <= rule.max_days_notice
+            ? { ...rule, reason: daysNotice === 0 ? 'Pickup today' : `Pickup in ${daysNotice} day${daysNotice === 1 ? '' : 's'}` }
+            : null;
+        default:
+          return null;
+      }
+    })
+    .filter(Boolean);
+
+  const shortNotice = matched
+    .filter((rule) => rule.rule_type === 'short_notice')
+    .sort((a, b) => a.max_days_notice - b.max_days_notice)[0];
+
+  return matched.filter((rule) => rule.rule_type !== 'short_notice' || rule === shortNotice);
+};
+
+/**
+ * Find the calendar rules that apply to a pickup date
+ * @param {string} pickupDate - Pickup date (ISO 8601; only the date part is used)
+ * @param {string} originCountry - Origin country (holidays are checked where the truck loads)
+ * @param {string} equipmentType
+ * @returns {Promise<Array<Object>>} Matching rules with reasons
+ */
+export const findCalendarRules = async (pickupDate, originCountry, equipmentType) => {
+  const date = String(pickupDate).slice(0, 10);
+
+  const [rules, holidays] = await Promise.all([
+    getCalendarRules(),
+    query(
+      'SELECT name FROM holidays WHERE country = $1 AND holiday_date = $2',
+      [originCountry, date]
+    ),
+  ]);
+
+  return selectCalendarRules(rules, {
+    pickupDate: date,
+    today: toDateString(new Date()),
+    originCountry,
+    equipmentType,
+    holiday: holidays.rows[0] || null,
+  });
+};
@@ -0,0 +1,73 @@
+import { query } from '../config/database.js';
+
+/**
+ * Cross-border fee service
+ * Fees (customs brokerage, bond, PAPS/PARS handling, Mexico transfer) are configured
+ * in the cross_border_fees table and apply when origin and destination countries differ.
+ */
+
+/**
+ * Convert a cross_border_fees row into numeric values
+ * @param {Object} row - cross_border_fees row
+ * @returns {Object}
+ */
+export const parseCrossBorderFee = (row) => ({
+  ...row,
+  amount: parseFloat(row.amount),
+});
+
+/**
+ * Countries a route passes through (origin, intermediate stops, destination)
+ * @param {Object} origin - Origin location
+ * @param {Object} destination - Destination location
+ * @param {Array<Object>} stops - Intermediate stops
+ * @returns {Array<string>}
+ */
+const routeCountries = (origin, destination, stops = []) =>
+  [...new Set([origin, ...stops, destination].map((location) => location.country))];
+
+/**
+ * Whether a route crosses a border
+ * @param {Object} origin - Origin location
+ * @param {Object} destination - Destination location
+ * @param {Array<Object>} stops - Intermediate stops
+ * @returns {boolean}
+ */
+export const isCrossBorder = (origin, destination, stops = []) => routeCountries(origin, destination, stops).length > 1;
+
+/**
+ * Get all cross-border fees
+ * @param {boolean} includeInactive - Include deactivated fees
+ * @returns {Promise<Array<Object>>}
+ */
+export const getAllCrossBorderFees = async (includeInactive = false) => {
+  const result = await query(
+    `SELECT * FROM cross_border_fees
+     ${includeInactive ? '' : 'WHERE active'}
+     ORDER BY name`
+  );
+
+  return result.rows.map(parseCrossBorderFee);
+};
+
+/**
+ * Get the cross-border fees that apply to a lane
+ * A fee with applies_to_country only applies when a stop on the route is in that country.
+ * @param {Object} origin - Origin location
+ * @param {Object} destination - Destination location
+ * @param {Array<Object>} stops - Intermediate stops
+ * @returns {Promise<Array<Object>>} Applicable fees (empty for domestic lanes)
+ */
+export const getCrossBorderFees = async (origin, destination, stops = []) => {
+  if (!isCrossBorder(origin, destination, stops)) return [];
+
+  const result = await query(
+    `SELECT * FROM cross_border_fees
+     WHERE active
+       AND (applies_to_country IS NULL OR applies_to_country = ANY($1))
+     ORDER BY amount DESC, code`,
+    [routeCountries(origin, destination, stops)]
+  );
+
+  return result.rows.map(parseCrossBorderFee);
+};
@@ -0,0 +1,115 @@
+import { query } from '../config/database.js';
+
+/**
+ * Equipment service
+ * The equipment_types table holds the legal/practical capacity of each equipment
+ * type (payload, usable dimensions, temperature range, loading methods), used to
+ * work out which equipment can carry a shipment, and the vehicle attributes of the
+ * truck that pulls it (overall height, length, gross weight, hazmat), passed to the
+ * routing provider so the route respects truck restrictions.
+ */
+
+const LOADING_METHOD_NAMES = {
+  dock: 'dock loading',
+  side: 'side loading',
+  top: 'top (crane) loading',
+  ground: 'ground-level loading',
+};
+
+/**
+ * Get equipment types and their capabilities
+ * @param {boolean} includeInactive - Include deactivated equipment
+ * @returns {Promise<Array<Object>>}
+ */
+export const getEquipmentTypes = async (includeInactive = false) => {
+  const result = await query(
+    `SELECT * FROM equipment_types
+     ${includeInactive ? '' : 'WHERE active'}
+     ORDER BY max_weight_lbs DESC`
+  );
+
+  return result.rows;
+};
+
+/**
+ * Get an active equipment type
+ * @param {string} code
+ * @returns {Promise<Object|null>} equipment_types row, or null when unknown or inactive
+ */
+export const getEquipmentType = async (code) => {
+  const result = await query('SELECT * FROM equipment_types WHERE code = $1 AND active', [code]);
+  return result.rows[0] || null;
+};
+
+/**
+ * Build the vehicle the routing provider plans for
+ * @param {Object} equipment - equipment_types row
+ * @param {Object} [options]
+ * @param {boolean} [options.hazmat] - The shipment is hazardous (e.g. the hazmat accessorial)
+ * @returns {Object} { equipment_type, height_in, length_in, weight_lbs, hazmat }
+ */
+export const buildVehicleProfile = (equipment, { hazmat = false } = {}) => ({
+  equipment_type: equipment.code,
+  height_in: equipment.vehicle_height_in,
+  length_in: equipment.vehicle_length_in,
+  weight_lbs: equipment.vehicle_weight_lbs,
+  hazmat: equipment.hazmat || hazmat,
+});
+
+/**
+ * Format a number for messages (e.g. 45000 -> "45,000")
+ */
+const formatNumber = (value) => Number(value).toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+/**
+ * Check whether an equipment type can carry a shipment
+ * The load may be turned on the deck, so its longer footprint side is compared
+ * with the deck length and the shorter with the width.
+ * @param {Object} equipment - equipment_types row
+ * @param {Object} shipment
+ * @param {number} shipment.weightLbs
+ * @param {Object} [shipment.dimensions] - { length_in, width_in, height_in }
+ * @param {Object} [shipment.temperature] - { min_f, max_f }
+ * @param {string} [shipment.loadingMethod] - dock, side, top or ground
+ * @returns {Array<string>} Reasons the equipment cannot carry the load (empty = viable)
+ */
+export const checkEquipmentFit = (equipment, { weightLbs, dimensions = null, temperature = null, loadingMethod = null }) => {
+  const reasons = [];
+
+  if (weightLbs > equipment.max_weight_lbs) {
+    reasons.push(`Weight ${formatNumber(weightLbs)} lbs exceeds the ${formatNumber(equipment.max_weight_lbs)} lbs limit`);
+  }
+
+  if (dimensions) {
+    const footprint = [dimensions.length_in, dimensions.width_in].filter((value) => value != null).map(Number);
+    const longest = footprint.length > 0 ? Math.max(...footprint) : null;
+    const shortest = footprint.length > 1 ? Math.min(...footprint) : null;
+
+    if (longest !== null && longest > equipment.max_length_in) {
+      reasons.push(`Length ${formatNumber(longest)} in exceeds the ${formatNumber(equipment.max_length_in)} in deck`);
+    }
+    if (shortest !== null && shortest > equipment.max_width_in) {
+      reasons.push(`Width ${formatNumber(shortest)} in exceeds the ${formatNumber(equipment.max_width_in)} in limit`);
+    }
+    if (dimensions.height_in != null && Number(dimensions.height_in) > equipment.max_height_in) {
+      reasons.push(`Height ${formatNumber(dimensions.height_in)} in exceeds the ${formatNumber(equipment.max_height_in)} in limit`);
+    }
+  }
+
+  if (temperature && (temperature.min_f != null || temperature.max_f != null)) {
+    if (equipment.min_temp_f === null) {
+      reasons.push('Not temperature controlled');
+    } else if (
+      (temperature.min_f != null && Number(temperature.min_f) < equipment.min_temp_f) ||
+      (temperature.max_f != null && Number(temperature.max_f) > equipment.max_temp_f)
+    ) {
+      reasons.push(`Holds ${equipment.min_temp_f}°F to ${equipment.max_temp_f}°F only`);
+    }
+  }
+
+  if (loadingMethod && !equipment.loading_methods.includes(loadingMethod)) {
+    reasons.push(`Does not support ${LOADING_METHOD_NAMES[loadingMethod] || loadingMethod}`);
+  }
+
+  return reasons;
+};
@@ -0,0 +1,45 @@
+import { query } from '../config/database.js';
+
+/**
+ * Exchange rate service
+ * Quotes are priced in USD and converted with the locally maintained
+ * exchange_rates table (units of currency per 1 USD, by effective date).
+ */
+
+/**
+ * Get the exchange rate in effect for a currency
+ * USD always converts at 1. Other currencies use the most recent rate
+ * effective on or before the date.
+ * @param {string} currency - USD, CAD or MXN
+ * @param {string|null} date - Date as YYYY-MM-DD (defaults to today)
+ * @returns {Promise<Object>} { currency, rate_per_usd, effective_date }
+ * @throws {Error} 422 when no rate is in effect for the currency
+ */
+export const getExchangeRate = async (currency, date = null) => {
+  if (currency === 'USD') {
+    return { currency, rate_per_usd: 1, effective_date: null };
+  }
+
+  const result = await query(
+    `SELECT currency, rate_per_usd, effective_date
+     FROM exchange_rates
+     WHERE currency = $1
+       AND effective_date <= COALESCE($2::date, CURRENT_DATE)
+     ORDER BY effective_date DESC
+     LIMIT 1`,
+    [currency, date]
+  );
+
+  if (result.rows.length === 0) {
+    const error = new Error(`No ${currency} exchange rate is in effect; load exchange rates first`);
+    error.name = 'Exchange rate unavailable';
+    error.statusCode = 422;
+    throw error;
+  }
+
+  const row = result.rows[0];
+  return {
+    ...row,
+    rate_per_usd: parseFloat(row.rate_per_usd),
+  };
+};
@@ -0,0 +1,45 @@
+import { getRoadDistanceFactor } from './greatCircleRouter.js';
+
+/**
+ * Fixture routing provider
+ * Deterministic distances for tests and offline development: the haversine distance
+ * between consecutive points times the road-distance correction factor, computed
+ * without the database or the network.
+ */
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance between two points in km
+ */
+const haversineKm = (from, to) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Route through every point with fixed, reproducible distances
+ * @param {Array<Object>} points - Route waypoints in order ({ latitude, longitude })
+ * @param {Object|null} vehicle - Only recorded: `truck` when given, `driving` otherwise
+ * @returns {Promise<Object>} { legs: distance of each leg in km, duration: null (estimated from distance),
+ *   geometry: GeoJSON LineString through the points, profile }
+ */
+export const routeWithFixture = async (points, vehicle = null) => {
+  const factor = getRoadDistanceFactor();
+  return {
+    legs: points.slice(1).map((point, index) => haversineKm(points[index], point) * factor),
+    duration: null,
+    geometry: {
+      type: 'LineString',
+      coordinates: points.map((point) => [point.longitude, point.latitude]),
+    },
+    profile: vehicle ? 'truck' : 'driving',
+  };
+};
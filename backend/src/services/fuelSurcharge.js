@@ -0,0 +1,35 @@
+import { query } from '../config/database.js';
+
+/**
+ * Fuel surcharge service
+ * Looks up the weekly diesel-price schedule (fuel_surcharge_schedule) to find
+ * the surcharge in cents per mile for a country.
+ */
+
+/**
+ * Get the fuel surcharge rate in effect for a country
+ * Uses the most recent schedule week starting on or before the date.
+ * @param {string} country - Country code (US, CA, MX)
+ * @param {string|null} date - Date as YYYY-MM-DD (defaults to today)
+ * @returns {Promise<Object|null>} { country, week_start, diesel_price, cents_per_mile } or null if no schedule
+ */
+export const getFuelSurchargeRate = async (country, date = null) => {
+  const result = await query(
+    `SELECT country, week_start, diesel_price, cents_per_mile
+     FROM fuel_surcharge_schedule
+     WHERE country = $1
+       AND week_start <= COALESCE($2::date, CURRENT_DATE)
+     ORDER BY week_start DESC
+     LIMIT 1`,
+    [country, date]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    ...row,
+    diesel_price: parseFloat(row.diesel_price),
+    cents_per_mile: parseFloat(row.cents_per_mile),
+  };
+};
@@ -0,0 +1,119 @@
+import { query } from '../config/database.js';
+
+/**
+ * Gazetteer geocoding provider
+ * Resolves locations from the local gazetteer table (postal codes and their cities
+ * for US/CA/MX, seeded by the schema from database/seed/gazetteer.csv), so quoting
+ * works offline.
+ * Street addresses are not in the gazetteer: they resolve to their postal code or city.
+ */
+
+// Reverse geocoding only answers within this distance of a gazetteer postal code
+const REVERSE_MAX_DISTANCE_METERS = 50000;
+
+/**
+ * Normalize a postal code the way the gazetteer stores it
+ * (uppercase, no spaces; US ZIP+4 reduced to the 5-digit ZIP)
+ * @param {string} value
+ * @returns {string}
+ */
+export const normalizePostalCode = (value) => (value || '').replace(/\s+/g, '').toUpperCase().split('-')[0];
+
+/**
+ * Format a postal code the way quote requests take it (Canadian codes as "A1A 1A1")
+ * @param {string} value
+ * @param {string} country - US, CA or MX
+ * @returns {string|null} The formatted code, or null when it is not a complete postal code
+ */
+export const formatPostalCode = (value, country) => {
+  const code = normalizePostalCode(value);
+  if (country === 'CA') {
+    return /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(code) ? `${code.slice(0, 3)} ${code.slice(3)}` : null;
+  }
+  return /^\d{5}$/.test(code) ? code : null;
+};
+
+/**
+ * Build a gazetteer match result
+ */
+const toResult = (row, accuracy, country) => ({
+  latitude: parseFloat(row.latitude),
+  longitude: parseFloat(row.longitude),
+  accuracy,
+  display_name: [row.postal_code, row.city, row.state_province, country].filter(Boolean).join(', '),
+});
+
+/**
+ * Geocode a location from the gazetteer
+ * Matches the postal code first; otherwise the city (and state/province when given),
+ * placed at the centre of its postal codes. Cities sharing a name are ranked by population.
+ * @param {Object} location - Location object with city, postal_code, state_province, country
+ * @returns {Promise<Object|null>} - { latitude, longitude, accuracy, display_name }, or null when not found
+ */
+export const geocodeWithGazetteer = async ({ city, postal_code, state_province, country }) => {
+  if (postal_code) {
+    const result = await query(
+      `SELECT postal_code, city, state_province,
+          ST_Y(coordinates::geometry) as latitude,
+          ST_X(coordinates::geometry) as longitude
+       FROM gazetteer
+       WHERE country = $1 AND postal_code = $2`,
+      [country, normalizePostalCode(postal_code)]
+    );
+
+    if (result.rows.length > 0) {
+      return toResult(result.rows[0], 'postal_code', country);
+    }
+  }
+
+  const result = await query(
+    `SELECT city, state_province,
+        ST_Y(ST_Centroid(ST_Collect(coordinates::geometry))) as latitude,
+        ST_X(ST_Centroid(ST_Collect(coordinates::geometry))) as longitude
+     FROM gazetteer
+     WHERE country = $1
+       AND LOWER(city) = LOWER($2)
+       AND ($3::text IS NULL OR LOWER(state_province) = LOWER($3))
+     GROUP BY city, state_province
+     ORDER BY MAX(population) DESC NULLS LAST
+     LIMIT 1`,
+    [country, city.trim(), state_province ? state_province.trim() : null]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return toResult(result.rows[0], state_province ? 'city_state' : 'city_only', country);
+};
+
+/**
+ * Reverse geocode a point to the nearest gazetteer postal code
+ * @param {Object} point - { latitude, longitude }
+ * @returns {Promise<Object|null>} - { address: null, city, postal_code, state_province, country, display_name },
+ *   or null when no postal code is within 50 km
+ */
+export const reverseGeocodeWithGazetteer = async ({ latitude, longitude }) => {
+  const result = await query(
+    `SELECT country, postal_code, city, state_province
+     FROM gazetteer
+     WHERE ST_DWithin(coordinates, ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography, $3)
+     ORDER BY coordinates <-> ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography
+     LIMIT 1`,
+    [latitude, longitude, REVERSE_MAX_DISTANCE_METERS]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    address: null,
+    city: row.city,
+    postal_code: formatPostalCode(row.postal_code, row.country),
+    state_province: row.state_province,
+    country: row.country,
+    display_name: [row.postal_code, row.city, row.state_province, row.country].filter(Boolean).join(', '),
+  };
+};
@@ -0,0 +1,218 @@
+import { query } from '../config/database.js';
+import { normalizePostalCode } from './gazetteerGeocoder.js';
+
+/**
+ * Geocode cache service
+ * Geocoding results are stored in geocode_cache keyed by the normalized location
+ * (street address, postal code, city, state/province, country) and reused until they expire, so
+ * lanes quoted repeatedly skip the geocoding providers.
+ */
+
+const DEFAULT_TTL_DAYS = 30;
+
+/**
+ * Cache lifetime in days (GEOCODE_CACHE_TTL_DAYS; 0 disables the cache)
+ * @returns {number}
+ */
+export const getCacheTtlDays = () => {
+  const days = parseFloat(process.env.GEOCODE_CACHE_TTL_DAYS);
+  return isNaN(days) || days < 0 ? DEFAULT_TTL_DAYS : days;
+};
+
+/**
+ * Build the cache key of a location
+ * @param {Object} location - Location object with address, city, postal_code, state_province, country
+ * @returns {Object} { country, postal_code, city, state_province, address } ('' for missing parts)
+ */
+export const normalizeCacheKey = ({ address, city, postal_code, state_province, country }) => ({
+  country: (country || '').trim().toUpperCase(),
+  postal_code: normalizePostalCode(postal_code),
+  city: (city || '').trim().toLowerCase().replace(/\s+/g, ' '),
+  state_province: (state_province || '').trim().toLowerCase(),
+  address: (address || '').trim().toLowerCase().replace(/\s+/g, ' '),
+});
+
+/**
+ * Convert a geocode_cache row (with latitude/longitude selected) into API shape
+ * @param {Object} row - geocode_cache row
+ * @returns {Object}
+ */
+export const parseGeocodeCacheEntry = (row) => {
+  const { latitude, longitude, coordinates, ...entry } = row;
+  return {
+    ...entry,
+    coordinates: {
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+    },
+    expired: new Date(row.expires_at) <= new Date(),
+  };
+};
+
+/**
+ * Look up an unexpired cached geocode (and count the hit)
+ * @param {Object} location
+ * @returns {Promise<Object|null>} - { latitude, longitude, accuracy, display_name, provider }, or null on a miss
+ */
+export const getCachedGeocode = async (location) => {
+  if (getCacheTtlDays() === 0) {
+    return null;
+  }
+
+  const key = normalizeCacheKey(location);
+  const result = await query(
+    `UPDATE geocode_cache SET
+        hit_count = hit_count + 1,
+        last_hit_at = CURRENT_TIMESTAMP
+     WHERE country = $1 AND postal_code = $2 AND city = $3 AND state_province = $4 AND address = $5
+       AND expires_at > CURRENT_TIMESTAMP
+     RETURNING accuracy, provider, display_name,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude`,
+    [key.country, key.postal_code, key.city, key.state_province, key.address]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    latitude: parseFloat(row.latitude),
+    longitude: parseFloat(row.longitude),
+    accuracy: row.accuracy,
+    display_name: row.display_name,
+    provider: row.provider,
+  };
+};
+
+/**
+ * Store a geocoding result (replacing any earlier entry for the location)
+ * @param {Object} location
+ * @param {Object} result - { latitude, longitude, accuracy, display_name, provider }
+ * @returns {Promise<void>}
+ */
+export const cacheGeocode = async (location, result) => {
+  const ttlDays = getCacheTtlDays();
+  if (ttlDays === 0) {
+    return;
+  }
+
+  const key = normalizeCacheKey(location);
+  await query(
+    `INSERT INTO geocode_cache (
+        country, postal_code, city, state_province, address, coordinates, accuracy, provider, display_name, expires_at
+     ) VALUES ($1, $2, $3, $4, $5, ST_SetSRID(ST_MakePoint($7, $6), 4326)::geography, $8, $9, $10,
+        CURRENT_TIMESTAMP + make_interval(secs => $11))
+     ON CONFLICT (country, postal_code, city, state_province, address)
+     DO UPDATE SET coordinates = EXCLUDED.coordinates,
+                   accuracy = EXCLUDED.accuracy,
+                   provider = EXCLUDED.provider,
+                   display_name = EXCLUDED.display_name,
+                   hit_count = 0,
+                   last_hit_at = NULL,
+                   created_at = CURRENT_TIMESTAMP,
+                   expires_at = EXCLUDED.expires_at`,
+    [
+      key.country,
+      key.postal_code,
+      key.city,
+      key.state_province,
+      key.address,
+      result.latitude,
+      result.longitude,
+      result.accuracy,
+      result.provider,
+      result.display_name ? String(result.display_name).slice(0, 255) : null,
+      ttlDays * 24 * 60 * 60,
+    ]
+  );
+};
+
+/**
+ * Build the WHERE clause shared by listing and purging
+ * @param {Object} filters
+ * @param {number} [filters.id] - A single entry
+ * @param {string} [filters.country]
+ * @param {string} [filters.search] - Matches city, postal code or street address
+ * @param {boolean} [filters.expiredOnly]
+ * @returns {Object} { where, params }
+ */
+const buildFilters = ({ id = null, country = null, search = null, expiredOnly = false }) => {
+  const conditions = [];
+  const params = [];
+
+  if (id) {
+    params.push(id);
+    conditions.push(`id = $${params.length}`);
+  }
+  if (country) {
+    params.push(country.toUpperCase());
+    conditions.push(`country = $${params.length}`);
+  }
+  if (search) {
+    params.push(`%${search.trim().toLowerCase()}%`);
+    conditions.push(
+      `(city LIKE $${params.length} OR LOWER(postal_code) LIKE $${params.length} OR address LIKE $${params.length})`
+    );
+  }
+  if (expiredOnly) {
+    conditions.push('expires_at <= CURRENT_TIMESTAMP');
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+};
+
+/**
+ * List cache entries, most recently used first
+ * @param {Object} filters - { country, search, expiredOnly }
+ * @param {number} limit
+ * @param {number} offset
+ * @returns {Promise<Object>} { entries, total, summary: { entries, expired, hits } }
+ */
+export const listGeocodeCache = async (filters, limit, offset) => {
+  const { where, params } = buildFilters(filters);
+
+  const [rows, count, summary] = await Promise.all([
+    query(
+      `SELECT *,
+          ST_Y(coordinates::geometry) as latitude,
+          ST_X(coordinates::geometry) as longitude
+       FROM geocode_cache ${where}
+       ORDER BY COALESCE(last_hit_at, created_at) DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    query(`SELECT COUNT(*) FROM geocode_cache ${where}`, params),
+    query(
+      `SELECT COUNT(*) as entries,
+          COUNT(*) FILTER (WHERE expires_at <= CURRENT_TIMESTAMP) as expired,
+          COALESCE(SUM(hit_count), 0) as hits
+       FROM geocode_cache`
+    ),
+  ]);
+
+  return {
+    entries: rows.rows.map(parseGeocodeCacheEntry),
+    total: parseInt(count.rows[0].count),
+    summary: {
+      entries: parseInt(summary.rows[0].entries),
+      expired: parseInt(summary.rows[0].expired),
+      hits: parseInt(summary.rows[0].hits),
+    },
+  };
+};
+
+/**
+ * Delete cache entries
+ * @param {Object} filters - { id, country, search, expiredOnly }; none = the whole cache
+ * @returns {Promise<number>} Entries deleted
+ */
+export const purgeGeocodeCache = async (filters) => {
+  const { where, params } = buildFilters(filters);
+  const result = await query(`DELETE FROM geocode_cache ${where}`, params);
+  return result.rowCount;
+};
@@ -1,44 +1,55 @@
-import axios from 'axios';
+import { geocodeWithGazetteer, reverseGeocodeWithGazetteer } from './gazetteerGeocoder.js';
+import { geocodeWithNominatim, reverseGeocodeWithNominatim } from './nominatimGeocoder.js';
+import { cacheGeocode, getCachedGeocode } from './geocodeCache.js';
 
 /**
- * Geocoding service using OpenStreetMap Nominatim (free, no API key needed)
- * Falls back to city center if postal code geocoding fails
+ * Geocoding service
+ * Resolves locations through a configurable chain of providers. Each provider takes
+ * a location and returns { latitude, longitude, accuracy, display_name }, or null
+ * when it has no match. GEOCODING_PROVIDERS sets the order (default: the offline
+ * gazetteer, then OpenStreetMap Nominatim). Results are cached in geocode_cache.
+ * The same chain reverse geocodes points (e.g. a pin dropped on the map).
  */
 
-const NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org/search';
+const GEOCODING_PROVIDERS = {
+  gazetteer: geocodeWithGazetteer,
+  nominatim: geocodeWithNominatim,
+};
+
+const REVERSE_GEOCODING_PROVIDERS = {
+  gazetteer: reverseGeocodeWithGazetteer,
+  nominatim: reverseGeocodeWithNominatim,
+};
+
+// Accuracy levels, most precise first
+const ACCURACY_LEVELS = ['coordinates', 'address', 'street', 'postal_code', 'city_state', 'city_only'];
 
 /**
- * Build geocoding query string
+ * Whether an accuracy level is at least as precise as another
  */
-const buildGeocodingQuery = (city, stateProvince, postalCode, country) => {
-  const parts = [];
-  
-  // Priority 1: Use postal code if provided (most accurate)
-  if (postalCode) {
-    parts.push(postalCode);
-  }
-  
-  // Add city
-  if (city) {
-    parts.push(city);
-  }
-  
-  // Add state/province
-  if (stateProvince) {
-    parts.push(stateProvince);
-  }
-  
-  // Add country
-  if (country) {
-    const countryNames = {
-      'US': 'United States',
-      'CA': 'Canada',
-      'MX': 'Mexico'
-    };
-    parts.push(countryNames[country] || country);
+const isAtLeast = (accuracy, level) => ACCURACY_LEVELS.indexOf(accuracy) <= ACCURACY_LEVELS.indexOf(level);
+
+const DEFAULT_PROVIDER_ORDER = 'gazetteer,nominatim';
+
+/**
+ * Get the configured provider order
+ * @returns {Array<string>} Provider names
+ */
+export const getGeocodingProviders = () => {
+  const names = (process.env.GEOCODING_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = names.filter((name) => !GEOCODING_PROVIDERS[name]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown geocoding provider(s): ${unknown.join(', ')}. ` +
+      `Available: ${Object.keys(GEOCODING_PROVIDERS).join(', ')}`
+    );
   }
-  
-  return parts.join(', ');
+
+  return names;
 };
 
 /**
@@ -50,138 +61,222 @@ const validateNorthAmericaBounds = (lat, lon) => {
   const maxLat = 83.0;  // Northern Canada/Alaska
   const minLon = -180.0; // Western Alaska
   const maxLon = -50.0;  // Eastern Canada
-  
+
   return lat >= minLat && lat <= maxLat && lon >= minLon && lon <= maxLon;
 };
 
+// Approximate bounds of each supported country (they overlap near the borders)
+const COUNTRY_BOUNDS = {
+  CA: { minLat: 41.6, maxLat: 83.2, minLon: -141.1, maxLon: -52.6 },
+  US: { minLat: 18.9, maxLat: 71.5, minLon: -180.0, maxLon: -66.9 },
+  MX: { minLat: 14.5, maxLat: 32.8, minLon: -118.5, maxLon: -86.7 },
+};
+
+/**
+ * Whether coordinates are within a country's approximate bounds
+ */
+const isWithinCountryBounds = (lat, lon, country) => {
+  const bounds = COUNTRY_BOUNDS[country];
+  return !bounds || (lat >= bounds.minLat && lat <= bounds.maxLat && lon >= bounds.minLon && lon <= bounds.maxLon);
+};
+
+/**
+ * Error for coordinates outside the supported countries
+ */
+const outsideNorthAmericaError = (lat, lon) =>
+  new Error(
+    `Location is outside North America bounds. ` +
+    `Only US, Canada, and Mexico are supported. ` +
+    `Coordinates: ${lat}, ${lon}`
+  );
+
+/**
+ * Country of a point, from the first provider that places it
+ * Used to check map pins; a provider failure passes the point to the next one.
+ * @returns {Promise<string|null>} Country code, or null when no provider knows the point
+ */
+const findCountryAt = async (point) => {
+  for (const name of getGeocodingProviders()) {
+    try {
+      const result = await REVERSE_GEOCODING_PROVIDERS[name](point);
+      if (result) {
+        return result.country;
+      }
+    } catch (error) {
+      console.warn(`Reverse geocoding provider "${name}" failed:`, error.message);
+    }
+  }
+  return null;
+};
+
+/**
+ * Describe a location for error messages
+ */
+const describeLocation = ({ address, city, postal_code, state_province, country }) =>
+  [address, postal_code, city, state_province, country].filter(Boolean).join(', ');
+
+/**
+ * Read the cache without letting a cache failure stop geocoding
+ */
+const readCache = async (location) => {
+  try {
+    return await getCachedGeocode(location);
+  } catch (error) {
+    console.warn('Geocode cache lookup failed:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Write the cache without letting a cache failure stop geocoding
+ */
+const writeCache = async (location, result) => {
+  try {
+    await cacheGeocode(location, result);
+  } catch (error) {
+    console.warn('Geocode cache write failed:', error.message);
+  }
+};
+
 /**
  * Geocode a location to get coordinates
- * @param {Object} location - Location object with city, postal_code, state_province, country
- * @returns {Promise<Object>} - { latitude, longitude, accuracy }
+ * Coordinates given with the location (a pin placed on the map) are used as they are,
+ * once reverse geocoding (or, when no provider can place the pin, the country's bounds)
+ * confirms they are in the location's country. Otherwise the cache is checked first, then providers are tried in order. When a
+ * street address or postal code is given, a provider that only matched more coarsely
+ * does not stop the search: a later provider may match it, and the most precise
+ * coarser match is used only when none does. Only matches at the target accuracy are
+ * cached, so a provider that was down is tried again next time.
+ * @param {Object} location - Location object with address, city, postal_code, state_province, country
+ *   and optional coordinates ({ latitude, longitude })
+ * @returns {Promise<Object>} - { latitude, longitude, accuracy, display_name, provider, cached }
  */
 export const geocodeLocation = async (location) => {
-  const { city, postal_code, state_province, country } = location;
-  
+  const { address, city, postal_code, country, coordinates } = location;
+
   if (!city || !country) {
     throw new Error('City and country are required for geocoding');
   }
 
-  try {
-    // Try geocoding with postal code first (if provided)
-    let response;
-    let query = buildGeocodingQuery(city, state_province, postal_code, country);
-    let usedPostalCode = !!postal_code; // Track if we actually used postal code in final query
-    
-    if (postal_code) {
-      try {
-        response = await axios.get(NOMINATIM_BASE_URL, {
-          params: {
-            q: query,
-            format: 'json',
-            limit: 1,
-            addressdetails: 1,
-          },
-          headers: {
-            'User-Agent': 'ShipmentQuoteCalculator/1.0', // Required by Nominatim
-          },
-        });
-        
-        // If no results with postal code, try fallback
-        if (!response.data || response.data.length === 0) {
-          console.warn(`Geocoding with postal code "${postal_code}" returned no results, trying without postal code`);
-          // Fallback to city + state if postal code returns no results
-          const fallbackQuery = buildGeocodingQuery(city, state_province, null, country);
-          response = await axios.get(NOMINATIM_BASE_URL, {
-            params: {
-              q: fallbackQuery,
-              format: 'json',
-              limit: 1,
-              addressdetails: 1,
-            },
-            headers: {
-              'User-Agent': 'ShipmentQuoteCalculator/1.0',
-            },
-          });
-          query = fallbackQuery; // Update query for error message
-          usedPostalCode = false; // We didn't use postal code in final query
-        }
-      } catch (error) {
-        console.warn('Geocoding with postal code failed, trying without:', error.message);
-        // Fallback to city + state if postal code API call fails
-        const fallbackQuery = buildGeocodingQuery(city, state_province, null, country);
-        response = await axios.get(NOMINATIM_BASE_URL, {
-          params: {
-            q: fallbackQuery,
-            format: 'json',
-            limit: 1,
-            addressdetails: 1,
-          },
-          headers: {
-            'User-Agent': 'ShipmentQuoteCalculator/1.0',
-          },
-        });
-        query = fallbackQuery; // Update query for error message
-        usedPostalCode = false; // We didn't use postal code in final query
-      }
-    } else {
-      // No postal code, use city + state
-      response = await axios.get(NOMINATIM_BASE_URL, {
-        params: {
-          q: query,
-          format: 'json',
-          limit: 1,
-          addressdetails: 1,
-        },
-        headers: {
-          'User-Agent': 'ShipmentQuoteCalculator/1.0',
-        },
-      });
+  if (coordinates) {
+    const latitude = parseFloat(coordinates.latitude);
+    const longitude = parseFloat(coordinates.longitude);
+    if (!validateNorthAmericaBounds(latitude, longitude)) {
+      throw outsideNorthAmericaError(latitude, longitude);
+    }
+    // Cross-border fees and ports of entry follow the stated country, so the pin must be in it
+    const statedCountry = country.toUpperCase();
+    const pinCountry = await findCountryAt({ latitude, longitude });
+    if (
+      pinCountry ? pinCountry !== statedCountry : !isWithinCountryBounds(latitude, longitude, statedCountry)
+    ) {
+      throw new Error(
+        `${pinCountry ? `Map pin is in ${pinCountry}, not ${statedCountry}` : `Map pin is outside ${statedCountry}`} ` +
+        `as stated for ${describeLocation(location)}. Coordinates: ${latitude}, ${longitude}`
+      );
     }
+    return {
+      latitude,
+      longitude,
+      accuracy: 'coordinates',
+      display_name: describeLocation(location),
+      provider: null,
+      cached: false,
+    };
+  }
+
+  // The most precise accuracy the location can be matched at
+  const target = address ? 'address' : postal_code ? 'postal_code' : 'city_only';
+
+  const cached = await readCache(location);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
 
-    if (!response.data || response.data.length === 0) {
-      throw new Error(`Could not geocode location: ${query}`);
+  const failures = [];
+  let fallback = null;
+
+  for (const name of getGeocodingProviders()) {
+    let result;
+    try {
+      result = await GEOCODING_PROVIDERS[name](location);
+    } catch (error) {
+      console.warn(`Geocoding provider "${name}" failed:`, error.message);
+      failures.push(`${name}: ${error.message}`);
+      continue;
     }
 
-    const result = response.data[0];
-    const latitude = parseFloat(result.lat);
-    const longitude = parseFloat(result.lon);
+    if (!result) {
+      failures.push(`${name}: no match`);
+      continue;
+    }
 
     // Validate coordinates are in North America
-    if (!validateNorthAmericaBounds(latitude, longitude)) {
-      throw new Error(
-        `Location is outside North America bounds. ` +
-        `Only US, Canada, and Mexico are supported. ` +
-        `Coordinates: ${latitude}, ${longitude}`
-      );
+    if (!validateNorthAmericaBounds(result.latitude, result.longitude)) {
+      throw outsideNorthAmericaError(result.latitude, result.longitude);
     }
 
-    // Determine accuracy level based on what we actually used
-    const accuracy = usedPostalCode ? 'postal_code' : (state_province ? 'city_state' : 'city_only');
+    const match = { ...result, provider: name };
+    if (isAtLeast(match.accuracy, target)) {
+      await writeCache(location, match);
+      return { ...match, cached: false };
+    }
+    if (!fallback || !isAtLeast(fallback.accuracy, match.accuracy)) {
+      fallback = match;
+    }
+  }
 
-    return {
-      latitude,
-      longitude,
-      accuracy,
-      display_name: result.display_name,
-    };
-  } catch (error) {
-    if (error.response) {
-      throw new Error(`Geocoding API error: ${error.response.status} - ${error.response.statusText}`);
+  if (fallback) {
+    return { ...fallback, cached: false };
+  }
+
+  throw new Error(`Could not geocode location: ${describeLocation(location)} (${failures.join('; ')})`);
+};
+
+/**
+ * Reverse geocode a point to the location there
+ * Providers are tried in order; the first street address found wins, otherwise the
+ * first provider that placed the point in a city (e.g. the nearest gazetteer postal code).
+ * @param {Object} point - { latitude, longitude }
+ * @returns {Promise<Object|null>} - { address, city, postal_code, state_province, country, display_name, provider,
+ *   coordinates }, or null when no provider knows the point
+ */
+export const reverseGeocode = async ({ latitude, longitude }) => {
+  if (!validateNorthAmericaBounds(latitude, longitude)) {
+    throw outsideNorthAmericaError(latitude, longitude);
+  }
+
+  let fallback = null;
+
+  for (const name of getGeocodingProviders()) {
+    let result;
+    try {
+      result = await REVERSE_GEOCODING_PROVIDERS[name]({ latitude, longitude });
+    } catch (error) {
+      console.warn(`Reverse geocoding provider "${name}" failed:`, error.message);
+      continue;
     }
-    if (error.message.includes('North America')) {
-      throw error; // Re-throw validation errors
+
+    if (!result) {
+      continue;
+    }
+
+    const match = { ...result, provider: name, coordinates: { latitude, longitude } };
+    if (match.address) {
+      return match;
     }
-    throw new Error(`Geocoding failed: ${error.message}`);
+    fallback = fallback || match;
   }
+
+  return fallback;
 };
 
 /**
  * Convert coordinates to PostGIS POINT format
- * @param {number} latitude 
- * @param {number} longitude 
+ * @param {number} latitude
+ * @param {number} longitude
  * @returns {string} PostGIS POINT string
  */
 export const coordinatesToPostGIS = (latitude, longitude) => {
   return `POINT(${longitude} ${latitude})`;
 };
-
@@ -0,0 +1,49 @@
+import { query } from '../config/database.js';
+
+/**
+ * Great-circle routing provider
+ * Straight-line distance between consecutive points from PostGIS, multiplied by a
+ * road-distance correction factor (ROAD_DISTANCE_FACTOR) because trucks do not
+ * drive in straight lines and raw great-circle miles underprice a quote.
+ */
+
+const DEFAULT_ROAD_DISTANCE_FACTOR = 1.2;
+
+/**
+ * Road-distance correction factor applied to straight-line distances
+ * @returns {number}
+ */
+export const getRoadDistanceFactor = () => {
+  const factor = parseFloat(process.env.ROAD_DISTANCE_FACTOR);
+  return isNaN(factor) || factor < 1 ? DEFAULT_ROAD_DISTANCE_FACTOR : factor;
+};
+
+/**
+ * Route through every point by great-circle distance
+ * The vehicle is ignored: there is no road network to restrict.
+ * @param {Array<Object>} points - Route waypoints in order ({ latitude, longitude })
+ * @returns {Promise<Object>} { legs: road-corrected distance of each leg in km, duration: null,
+ *   geometry: null (no road route), profile: null }
+ */
+export const routeWithGreatCircle = async (points) => {
+  const factor = getRoadDistanceFactor();
+  const legs = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const result = await query(
+      `SELECT ST_Distance(
+          ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
+          ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography
+        ) / 1000.0 AS distance_km`,
+      [points[i - 1].longitude, points[i - 1].latitude, points[i].longitude, points[i].latitude]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Distance calculation failed');
+    }
+
+    legs.push(parseFloat(result.rows[0].distance_km) * factor);
+  }
+
+  return { legs, duration: null, geometry: null, profile: null };
+};
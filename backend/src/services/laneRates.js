@@ -0,0 +1,129 @@
+import { query } from '../config/database.js';
+
+/**
+ * Lane rate service
+ * Lane rates override the rate card's base rate for a specific origin/destination
+ * region pair. Regions are keyed by country, optionally narrowed by state/province
+ * and postal code prefix. The most specific matching override wins.
+ */
+
+/**
+ * Normalize a postal code or prefix for comparison (uppercase, no spaces)
+ * @param {string} value
+ * @returns {string}
+ */
+export const normalizePostalPrefix = (value) => (value || '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Convert a lane_rates row into numeric values
+ * @param {Object} row - lane_rates row
+ * @returns {Object} Lane rate with numeric fields
+ */
+export const parseLaneRate = (row) => {
+  if (!row) return null;
+
+  return {
+    ...row,
+    rate_per_mile: parseFloat(row.rate_per_mile),
+    minimum_quote: row.minimum_quote !== null ? parseFloat(row.minimum_quote) : null,
+  };
+};
+
+/**
+ * Score how specifically one side of a lane rate matches a location
+ * @returns {number} 0 = no match, 1 = country, 2 = state/province, 3 = postal prefix
+ */
+const scoreRegionMatch = (country, stateProvince, postalPrefix, location) => {
+  if (country !== location.country) return 0;
+
+  if (stateProvince && stateProvince.toUpperCase() !== (location.state_province || '').trim().toUpperCase()) {
+    return 0;
+  }
+
+  if (postalPrefix && !normalizePostalPrefix(location.postal_code).startsWith(postalPrefix)) {
+    return 0;
+  }
+
+  if (postalPrefix) return 3;
+  if (stateProvince) return 2;
+  return 1;
+};
+
+/**
+ * Pick the most specific lane rate that matches a lane
+ * Ranked by region specificity (both ends), then equipment-specific over
+ * any-equipment, then longer postal prefixes, then most recently created.
+ * @param {Array<Object>} laneRates - Candidate lane rates
+ * @param {Object} origin - Origin location
+ * @param {Object} destination - Destination location
+ * @param {string} equipmentType
+ * @returns {Object|null} Best matching lane rate
+ */
+export const selectLaneRate = (laneRates, origin, destination, equipmentType) => {
+  const ranked = laneRates
+    .filter((rate) => !rate.equipment_type || rate.equipment_type === equipmentType)
+    .map((rate) => ({
+      rate,
+      originScore: scoreRegionMatch(rate.origin_country, rate.origin_state_province, rate.origin_postal_prefix, origin),
+      destinationScore: scoreRegionMatch(rate.destination_country, rate.destination_state_province, rate.destination_postal_prefix, destination),
+    }))
+    .filter(({ originScore, destinationScore }) => originScore > 0 && destinationScore > 0)
+    .map(({ rate, originScore, destinationScore }) => ({
+      rate,
+      rank: [
+        originScore + destinationScore,
+        rate.equipment_type ? 1 : 0,
+        (rate.origin_postal_prefix || '').length + (rate.destination_postal_prefix || '').length,
+        rate.id,
+      ],
+    }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.rank.length; i++) {
+        if (a.rank[i] !== b.rank[i]) return b.rank[i] - a.rank[i];
+      }
+      return 0;
+    });
+
+  return ranked.length > 0 ? ranked[0].rate : null;
+};
+
+/**
+ * Describe a region for display (e.g. "ON, CA" or "M5*, ON, CA")
+ */
+const describeRegion = (country, stateProvince, postalPrefix) =>
+  [postalPrefix ? `${postalPrefix}*` : null, stateProvince, country].filter(Boolean).join(', ');
+
+/**
+ * Human-readable description of the pricing rule a lane rate represents
+ * @param {Object} laneRate
+ * @returns {string} e.g. "Lane rate #3: ON, CA → QC, CA dry_van ($2.40/mi, min $350.00)"
+ */
+export const describeLaneRate = (laneRate) => {
+  const origin = describeRegion(laneRate.origin_country, laneRate.origin_state_province, laneRate.origin_postal_prefix);
+  const destination = describeRegion(laneRate.destination_country, laneRate.destination_state_province, laneRate.destination_postal_prefix);
+  const equipment = laneRate.equipment_type || 'all equipment';
+  const minimum = laneRate.minimum_quote !== null ? `, min $${laneRate.minimum_quote.toFixed(2)}` : '';
+
+  return `Lane rate #${laneRate.id}${laneRate.name ? ` (${laneRate.name})` : ''}: ${origin} → ${destination} ${equipment} ($${laneRate.rate_per_mile.toFixed(2)}/mi${minimum})`;
+};
+
+/**
+ * Find the most specific active lane rate for a lane
+ * @param {Object} origin - Origin location (country, state_province, postal_code)
+ * @param {Object} destination - Destination location
+ * @param {string} equipmentType
+ * @returns {Promise<Object|null>} Matching lane rate or null to use the base rate
+ */
+export const findLaneRate = async (origin, destination, equipmentType) => {
+  const result = await query(
+    `SELECT *
+     FROM lane_rates
+     WHERE active
+       AND origin_country = $1
+       AND destination_country = $2
+       AND (equipment_type IS NULL OR equipment_type = $3)`,
+    [origin.country, destination.country, equipmentType]
+  );
+
+  return selectLaneRate(result.rows.map(parseLaneRate), origin, destination, equipmentType);
+};
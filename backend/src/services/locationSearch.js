@@ -0,0 +1,94 @@
+import { query } from '../config/database.js';
+import { normalizePostalCode } from './gazetteerGeocoder.js';
+
+/**
+ * Location search service
+ * Suggests locations from the gazetteer as the user types: postal code prefixes,
+ * "city, state/province" prefixes, state/province prefixes and, for typos, trigram
+ * word similarity (pg_trgm). One suggestion is returned per city, ranked by how it
+ * matched and then by population.
+ */
+
+const DEFAULT_LIMIT = 10;
+
+// Rank of each kind of match (lower first)
+const MATCH_RANKS = ['postal_code', 'prefix', 'state_province', 'fuzzy'];
+
+/**
+ * Escape LIKE wildcards in user input
+ */
+const escapeLike = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * Convert a search row into API shape
+ * @param {Object} row
+ * @returns {Object}
+ */
+export const parseLocationSuggestion = (row) => ({
+  city: row.city,
+  state_province: row.state_province,
+  country: row.country,
+  postal_code: row.postal_code,
+  coordinates: {
+    latitude: parseFloat(row.latitude),
+    longitude: parseFloat(row.longitude),
+  },
+  population: row.population,
+  match: row.match,
+});
+
+/**
+ * Search the gazetteer for locations
+ * @param {string} text - What the user typed: a city (optionally "city, state"), a state/province or a postal code
+ * @param {Object} options
+ * @param {string|null} options.country - Only this country (US, CA or MX)
+ * @param {number} options.limit - Maximum suggestions
+ * @returns {Promise<Array<Object>>} { city, state_province, country, postal_code, coordinates, population,
+ *   match: postal_code | prefix | state_province | fuzzy }
+ */
+export const searchLocations = async (text, { country = null, limit = DEFAULT_LIMIT } = {}) => {
+  const search = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  const postalCode = normalizePostalCode(text);
+  const label = "LOWER(city || ', ' || COALESCE(state_province, ''))";
+
+  // The postal code prefix only counts when the input could be one (contains a digit)
+  const result = await query(
+    `SELECT * FROM (
+        SELECT DISTINCT ON (country, city, state_province)
+            country, city, state_province, postal_code, population,
+            ST_Y(coordinates::geometry) as latitude,
+            ST_X(coordinates::geometry) as longitude,
+            CASE
+              WHEN $2 <> '' AND postal_code LIKE $2 || '%' THEN 'postal_code'
+              WHEN ${label} LIKE $1 || '%' THEN 'prefix'
+              WHEN LOWER(COALESCE(state_province, '')) LIKE $1 || '%' THEN 'state_province'
+              ELSE 'fuzzy'
+            END as match,
+            word_similarity($3, ${label}) as score
+        FROM gazetteer
+        WHERE ($4::text IS NULL OR country = $4)
+          AND (
+            ($2 <> '' AND postal_code LIKE $2 || '%')
+            OR ${label} LIKE $1 || '%'
+            OR ${label} LIKE '%, ' || $1 || '%'
+            OR $3 <% ${label}
+          )
+        ORDER BY country, city, state_province,
+            ($2 <> '' AND postal_code LIKE $2 || '%') DESC,
+            population DESC NULLS LAST,
+            postal_code
+     ) matches
+     ORDER BY array_position($5::text[], match), population DESC NULLS LAST, score DESC, city
+     LIMIT $6`,
+    [
+      escapeLike(search),
+      /\d/.test(postalCode) ? escapeLike(postalCode) : '',
+      search,
+      country ? country.toUpperCase() : null,
+      MATCH_RANKS,
+      limit,
+    ]
+  );
+
+  return result.rows.map(parseLocationSuggestion);
+};
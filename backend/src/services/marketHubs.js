@@ -0,0 +1,118 @@
+import { query } from '../config/database.js';
+import { getRoadDistanceFactor } from './greatCircleRouter.js';
+import { KM_TO_MILES } from './routing.js';
+
+/**
+ * Market hub service
+ * Market hubs are the freight markets where trucks find loads (market_hubs table).
+ * A lane that starts or ends far from every hub costs the carrier empty (deadhead)
+ * miles to reach the pickup and to get back to freight after the delivery; those
+ * miles are estimated here and priced at the rate card's repositioning rate.
+ * Within DEADHEAD_FREE_MILES of a hub the lane counts as in the market: only the
+ * miles beyond that radius are deadhead, so a pickup across town is not charged.
+ */
+
+const DEFAULT_DEADHEAD_FREE_MILES = 50;
+
+/**
+ * Miles from a market hub that cost no repositioning (DEADHEAD_FREE_MILES)
+ * @returns {number}
+ */
+export const getDeadheadFreeMiles = () => {
+  const miles = parseFloat(process.env.DEADHEAD_FREE_MILES);
+  return isNaN(miles) || miles < 0 ? DEFAULT_DEADHEAD_FREE_MILES : miles;
+};
+
+/**
+ * Convert a market_hubs row (with latitude/longitude selected) into API shape
+ * @param {Object} row - market_hubs row
+ * @returns {Object}
+ */
+export const parseMarketHub = (row) => {
+  const { latitude, longitude, coordinates, ...hub } = row;
+  return {
+    ...hub,
+    coordinates: {
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+    },
+  };
+};
+
+/**
+ * Get market hubs
+ * @param {boolean} includeInactive - Include deactivated hubs
+ * @returns {Promise<Array<Object>>}
+ */
+export const getMarketHubs = async (includeInactive = false) => {
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude
+     FROM market_hubs
+     ${includeInactive ? '' : 'WHERE active'}
+     ORDER BY country, name`
+  );
+
+  return result.rows.map(parseMarketHub);
+};
+
+/**
+ * Find the active market hub nearest to a point
+ * The distance is the straight line times ROAD_DISTANCE_FACTOR, like the great-circle
+ * routing fallback, so estimating deadhead costs no routing calls.
+ * @param {Object} point - { latitude, longitude }
+ * @returns {Promise<Object|null>} { hub, distance_miles }, or null when no hub is active
+ */
+export const findNearestMarketHub = async (point) => {
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude,
+        ST_Distance(coordinates, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) / 1000.0 AS distance_km
+     FROM market_hubs
+     WHERE active
+     ORDER BY coordinates <-> ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
+     LIMIT 1`,
+    [point.longitude, point.latitude]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const { distance_km, ...row } = result.rows[0];
+  const miles = parseFloat(distance_km) * getRoadDistanceFactor() * KM_TO_MILES;
+  return {
+    hub: parseMarketHub(row),
+    distance_miles: parseFloat(miles.toFixed(2)),
+  };
+};
+
+/**
+ * Estimate the deadhead miles of a lane
+ * The miles are those beyond the free radius around each end's nearest hub (0 within it).
+ * @param {Object} originPoint - Origin coordinates ({ latitude, longitude })
+ * @param {Object} destinationPoint - Destination coordinates
+ * @returns {Promise<Object|null>} { origin_hub, origin_miles, destination_hub, destination_miles },
+ *   or null when no hub is active
+ */
+export const calculateDeadhead = async (originPoint, destinationPoint) => {
+  const [inbound, outbound] = await Promise.all([
+    findNearestMarketHub(originPoint),
+    findNearestMarketHub(destinationPoint),
+  ]);
+
+  if (!inbound || !outbound) {
+    return null;
+  }
+
+  const freeMiles = getDeadheadFreeMiles();
+  const chargedMiles = (distanceMiles) => parseFloat(Math.max(distanceMiles - freeMiles, 0).toFixed(2));
+  return {
+    origin_hub: inbound.hub.name,
+    origin_miles: chargedMiles(inbound.distance_miles),
+    destination_hub: outbound.hub.name,
+    destination_miles: chargedMiles(outbound.distance_miles),
+  };
+};
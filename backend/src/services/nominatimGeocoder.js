@@ -0,0 +1,210 @@
+import axios from 'axios';
+import { formatPostalCode } from './gazetteerGeocoder.js';
+
+/**
+ * Nominatim geocoding provider
+ * Public OpenStreetMap Nominatim search (free, no API key needed, strict usage
+ * limits). A street address is searched first (structured query), then the postal
+ * code, falling back to the city. Also reverse geocodes points to street addresses.
+ */
+
+const NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org/search';
+const NOMINATIM_REVERSE_URL = 'https://nominatim.openstreetmap.org/reverse';
+const NOMINATIM_HEADERS = {
+  'User-Agent': 'ShipmentQuoteCalculator/1.0', // Required by Nominatim
+};
+
+const COUNTRY_NAMES = {
+  'US': 'United States',
+  'CA': 'Canada',
+  'MX': 'Mexico'
+};
+
+/**
+ * Build geocoding query string
+ */
+const buildGeocodingQuery = (city, stateProvince, postalCode, country) => {
+  const parts = [];
+  
+  // Priority 1: Use postal code if provided (most accurate)
+  if (postalCode) {
+    parts.push(postalCode);
+  }
+  
+  // Add city
+  if (city) {
+    parts.push(city);
+  }
+  
+  // Add state/province
+  if (stateProvince) {
+    parts.push(stateProvince);
+  }
+  
+  // Add country
+  if (country) {
+    parts.push(COUNTRY_NAMES[country] || country);
+  }
+  
+  return parts.join(', ');
+};
+
+/**
+ * Run a Nominatim search
+ * @param {Object} params - Free-form query ({ q }) or structured query ({ street, city, state, postalcode, countrycodes })
+ * @returns {Promise<Object|null>} First result, or null when nothing matched
+ */
+const search = async (params) => {
+  const response = await axios.get(NOMINATIM_BASE_URL, {
+    params: {
+      ...params,
+      format: 'json',
+      limit: 1,
+      addressdetails: 1,
+    },
+    headers: NOMINATIM_HEADERS,
+  });
+
+  return response.data && response.data.length > 0 ? response.data[0] : null;
+};
+
+/**
+ * Search a street address (structured query)
+ * @returns {Promise<Object|null>}
+ */
+const searchAddress = ({ address, city, postal_code, state_province, country }) =>
+  search({
+    street: address,
+    city,
+    state: state_province || undefined,
+    postalcode: postal_code || undefined,
+    countrycodes: country.toLowerCase(),
+  });
+
+/**
+ * Geocode a location with Nominatim
+ * @param {Object} location - Location object with address, city, postal_code, state_province, country
+ * @returns {Promise<Object|null>} - { latitude, longitude, accuracy, display_name }, or null when not found
+ */
+export const geocodeWithNominatim = async (location) => {
+  const { address, city, postal_code, state_province, country } = location;
+
+  try {
+    let result = null;
+    let usedPostalCode = false; // Track if the result came from the postal code query
+
+    // Try the street address first (if provided)
+    if (address) {
+      try {
+        result = await searchAddress(location);
+        if (result) {
+          return {
+            latitude: parseFloat(result.lat),
+            longitude: parseFloat(result.lon),
+            // A house number match is rooftop accuracy; otherwise only the street matched
+            accuracy: result.address && result.address.house_number ? 'address' : 'street',
+            display_name: result.display_name,
+          };
+        }
+        console.warn(`Geocoding street address "${address}" returned no results, trying without it`);
+      } catch (error) {
+        console.warn('Geocoding street address failed, trying without:', error.message);
+      }
+    }
+
+    // Try geocoding with postal code next (if provided)
+    if (postal_code) {
+      try {
+        result = await search({ q: buildGeocodingQuery(city, state_province, postal_code, country) });
+        usedPostalCode = !!result;
+        if (!result) {
+          console.warn(`Geocoding with postal code "${postal_code}" returned no results, trying without postal code`);
+        }
+      } catch (error) {
+        console.warn('Geocoding with postal code failed, trying without:', error.message);
+      }
+    }
+
+    // Fallback to city + state
+    if (!result) {
+      result = await search({ q: buildGeocodingQuery(city, state_province, null, country) });
+    }
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(result.lat),
+      longitude: parseFloat(result.lon),
+      // Determine accuracy level based on what we actually used
+      accuracy: usedPostalCode ? 'postal_code' : (state_province ? 'city_state' : 'city_only'),
+      display_name: result.display_name,
+    };
+  } catch (error) {
+    if (error.response) {
+      throw new Error(`Geocoding API error: ${error.response.status} - ${error.response.statusText}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * State/province of a Nominatim address: the ISO code for the US and Canada
+ * (e.g. TX, ON), the state name for Mexico
+ */
+const getStateProvince = (address, country) => {
+  const isoCode = address['ISO3166-2-lvl4'];
+  if (country !== 'MX' && isoCode) {
+    return isoCode.split('-')[1];
+  }
+  return address.state || null;
+};
+
+/**
+ * Reverse geocode a point with Nominatim
+ * @param {Object} point - { latitude, longitude }
+ * @returns {Promise<Object|null>} - { address, city, postal_code, state_province, country, display_name },
+ *   or null when nothing in the US, Canada or Mexico is there
+ */
+export const reverseGeocodeWithNominatim = async ({ latitude, longitude }) => {
+  try {
+    const response = await axios.get(NOMINATIM_REVERSE_URL, {
+      params: {
+        lat: latitude,
+        lon: longitude,
+        format: 'json',
+        addressdetails: 1,
+        zoom: 18, // Building level
+      },
+      headers: NOMINATIM_HEADERS,
+    });
+
+    const result = response.data;
+    if (!result || result.error || !result.address) {
+      return null;
+    }
+
+    const { address } = result;
+    const country = (address.country_code || '').toUpperCase();
+    const city = address.city || address.town || address.village || address.hamlet || address.municipality;
+    if (!COUNTRY_NAMES[country] || !city) {
+      return null;
+    }
+
+    const street = [address.house_number, address.road].filter(Boolean).join(' ');
+    return {
+      address: address.road ? street : null,
+      city,
+      postal_code: formatPostalCode(address.postcode, country),
+      state_province: getStateProvince(address, country),
+      country,
+      display_name: result.display_name,
+    };
+  } catch (error) {
+    if (error.response) {
+      throw new Error(`Geocoding API error: ${error.response.status} - ${error.response.statusText}`);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+import axios from 'axios';
+
+/**
+ * OSRM routing provider
+ * Driving distance from an OSRM server: a self-hosted instance when OSRM_URL is
+ * set, otherwise the public demo server (free, but best-effort and rate-limited).
+ * OSRM profiles are fixed when the server is built, so vehicle dimensions cannot be
+ * passed per request: for trucks the profile named by OSRM_TRUCK_PROFILE is used
+ * (e.g. a local build with a truck profile), and the car `driving` profile otherwise.
+ */
+
+const DEFAULT_OSRM_URL = 'https://router.project-osrm.org';
+const DEFAULT_PROFILE = 'driving';
+
+/**
+ * Base URL of the OSRM server (without a trailing slash)
+ * @returns {string}
+ */
+export const getOsrmUrl = () => (process.env.OSRM_URL || DEFAULT_OSRM_URL).replace(/\/+$/, '');
+
+/**
+ * OSRM profile to route a vehicle with
+ * @param {Object|null} vehicle
+ * @returns {string} OSRM_TRUCK_PROFILE for a vehicle when set, otherwise `driving`
+ */
+export const getOsrmProfile = (vehicle) =>
+  (vehicle && process.env.OSRM_TRUCK_PROFILE) || DEFAULT_PROFILE;
+
+/**
+ * Route through every point with OSRM
+ * @param {Array<Object>} points - Route waypoints in order ({ latitude, longitude }), at least two
+ * @param {Object|null} vehicle - Vehicle attributes (only select the profile here)
+ * @returns {Promise<Object>} { legs: distance of each leg in km, duration: driving time in seconds,
+ *   geometry: GeoJSON LineString of the route, profile }
+ */
+export const routeWithOsrm = async (points, vehicle = null) => {
+  const profile = getOsrmProfile(vehicle);
+  // OSRM expects coordinates as path parameter: lon,lat;lon,lat;...
+  const coordinates = points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+
+  try {
+    const response = await axios.get(`${getOsrmUrl()}/route/v1/${profile}/${coordinates}`, {
+      params: {
+        overview: 'full', // Full route geometry, stored with the quote
+        geometries: 'geojson',
+      },
+      timeout: 5000, // 5 second timeout
+    });
+
+    if (!response.data || !response.data.routes || response.data.routes.length === 0) {
+      throw new Error('No route found in API response');
+    }
+
+    // Distances are returned in meters (one leg per pair of consecutive waypoints), durations in seconds
+    const route = response.data.routes[0];
+    return {
+      legs: route.legs.map((leg) => leg.distance / 1000.0),
+      duration: route.duration,
+      geometry: route.geometry || null,
+      profile,
+    };
+  } catch (error) {
+    if (error.response) {
+      throw new Error(`OSRM API error: ${error.response.status} - ${error.response.statusText}`);
+    }
+    if (error.code === 'ECONNABORTED') {
+      throw new Error('OSRM API timeout');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,192 @@
+import { query } from '../config/database.js';
+import { validationError } from '../middleware/validation.js';
+import { getRoadDistanceFactor } from './greatCircleRouter.js';
+import { KM_TO_MILES } from './routing.js';
+import { getActiveRateCard } from './rateCards.js';
+import { DEFAULT_RATE_CARD } from './quoteCalculator.js';
+
+/**
+ * Port of entry service
+ * The route of a cross-border lane, and so its miles and cost, depends on where it
+ * crosses the border (Laredo vs. El Paso, Ambassador Bridge vs. Blue Water Bridge).
+ * Ports of entry are configured in the ports_of_entry table with their crossing fee.
+ * A lane is routed through the port the shipper asked for or, by default, the port
+ * whose detour and crossing fee cost least. The detour is estimated from straight-line
+ * distances times ROAD_DISTANCE_FACTOR (like deadhead), so only the chosen port is routed.
+ */
+
+/**
+ * Convert a ports_of_entry row (with latitude/longitude selected) into API shape
+ * @param {Object} row - ports_of_entry row
+ * @returns {Object}
+ */
+export const parsePortOfEntry = (row) => {
+  const { latitude, longitude, coordinates, ...port } = row;
+  return {
+    ...port,
+    crossing_fee: parseFloat(port.crossing_fee),
+    coordinates: {
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+    },
+  };
+};
+
+/**
+ * Get ports of entry
+ * @param {Object} options
+ * @param {boolean} options.includeInactive - Include deactivated ports
+ * @param {string|null} options.borderCountry - Only crossings into this country (CA or MX)
+ * @returns {Promise<Array<Object>>}
+ */
+export const getPortsOfEntry = async ({ includeInactive = false, borderCountry = null } = {}) => {
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude
+     FROM ports_of_entry
+     WHERE ($1 OR active)
+       AND ($2::text IS NULL OR border_country = $2)
+     ORDER BY border_country, name`,
+    [includeInactive, borderCountry]
+  );
+
+  return result.rows.map(parsePortOfEntry);
+};
+
+/**
+ * Get a port of entry by ID (active or not)
+ * @param {number} id
+ * @returns {Promise<Object|null>}
+ */
+export const getPortOfEntryById = async (id) => {
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude
+     FROM ports_of_entry
+     WHERE id = $1`,
+    [id]
+  );
+
+  return result.rows.length > 0 ? parsePortOfEntry(result.rows[0]) : null;
+};
+
+/**
+ * Find the first leg of a route that crosses the US border
+ * A leg between Canada and Mexico (which would cross twice) is not forced through a port.
+ * @param {Array<Object>} locations - Route locations in order (origin, stops, destination)
+ * @returns {Object|null} { leg: index of the leg (0 = origin to the next location), border_country: CA or MX }
+ */
+export const findBorderCrossing = (locations) => {
+  for (let leg = 0; leg < locations.length - 1; leg += 1) {
+    const countries = [locations[leg].country, locations[leg + 1].country];
+    const borderCountry = countries.find((country) => country !== 'US');
+    if (countries.includes('US') && borderCountry) {
+      return { leg, border_country: borderCountry };
+    }
+  }
+  return null;
+};
+
+/**
+ * Choose the port of entry for a route
+ * Every active port on the crossing's border is costed as the road-adjusted miles from
+ * the location before the crossing, through the port, to the location after it, at the
+ * rate card's base rate, plus its crossing fee.
+ * @param {Array<Object>} locations - Route locations in order, each with its coordinates ({ country, coords })
+ * @param {string|null} requestedCode - Port the shipper asked for (none = cheapest)
+ * @returns {Promise<Object|null>} { port, leg, selection: requested | cheapest, estimated_cost },
+ *   or null when the route does not cross the US border or no port serves the border
+ * @throws {Error} Validation error (type = 'validation') when the requested port is unknown,
+ *   inactive, on another border or the route does not cross the US border
+ */
+export const choosePortOfEntry = async (locations, requestedCode = null) => {
+  const crossing = findBorderCrossing(locations);
+  if (!crossing) {
+    if (requestedCode) {
+      throw validationError([
+        { path: 'port_of_entry', msg: 'A port of entry can only be chosen for lanes that cross the US border' },
+      ]);
+    }
+    return null;
+  }
+
+  const from = locations[crossing.leg].coords;
+  const to = locations[crossing.leg + 1].coords;
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude,
+        (ST_Distance(coordinates, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography)
+          + ST_Distance(coordinates, ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography)) / 1000.0 AS via_km
+     FROM ports_of_entry
+     WHERE active AND border_country = $5`,
+    [from.longitude, from.latitude, to.longitude, to.latitude, crossing.border_country]
+  );
+
+  const rateCard = (await getActiveRateCard()) || DEFAULT_RATE_CARD;
+  const candidates = result.rows.map(({ via_km, ...row }) => {
+    const port = parsePortOfEntry(row);
+    const viaMiles = parseFloat(via_km) * getRoadDistanceFactor() * KM_TO_MILES;
+    return {
+      port,
+      leg: crossing.leg,
+      estimated_cost: parseFloat((viaMiles * rateCard.base_rate_per_mile + port.crossing_fee).toFixed(2)),
+    };
+  });
+
+  if (requestedCode) {
+    const requested = candidates.find((candidate) => candidate.port.code === requestedCode);
+    if (!requested) {
+      throw validationError([
+        { path: 'port_of_entry', msg: `Unknown port of entry for a US-${crossing.border_country} crossing: ${requestedCode}` },
+      ]);
+    }
+    return { ...requested, selection: 'requested' };
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const cheapest = candidates.reduce((best, candidate) =>
+    candidate.estimated_cost < best.estimated_cost ? candidate : best
+  );
+  return { ...cheapest, selection: 'cheapest' };
+};
+
+/**
+ * Route waypoints with the port of entry inserted on its crossing leg
+ * @param {Array<Object>} points - Waypoints in order ({ latitude, longitude })
+ * @param {Object|null} portOfEntry - From choosePortOfEntry
+ * @returns {Array<Object>}
+ */
+export const withPortOfEntry = (points, portOfEntry) => {
+  if (!portOfEntry) return points;
+  return [
+    ...points.slice(0, portOfEntry.leg + 1),
+    portOfEntry.port.coordinates,
+    ...points.slice(portOfEntry.leg + 1),
+  ];
+};
+
+/**
+ * Merge the two routed legs on either side of the port of entry back into one
+ * @param {Array<Object>} legs - Distance of each routed leg ({ distance_km, distance_miles })
+ * @param {Object|null} portOfEntry - From choosePortOfEntry
+ * @returns {Array<Object>} One leg per pair of consecutive stops
+ */
+export const mergePortOfEntryLegs = (legs, portOfEntry) => {
+  if (!portOfEntry) return legs;
+  const { leg } = portOfEntry;
+  const [toPort, fromPort] = legs.slice(leg, leg + 2);
+  return [
+    ...legs.slice(0, leg),
+    {
+      distance_km: parseFloat((toPort.distance_km + fromPort.distance_km).toFixed(2)),
+      distance_miles: parseFloat((toPort.distance_miles + fromPort.distance_miles).toFixed(2)),
+    },
+    ...legs.slice(leg + 2),
+  ];
+};
@@ -1,162 +1,278 @@
-import { query } from '../config/database.js';
-import axios from 'axios';
+/**
+ * Pricing used when no rate card is in effect
+ * Mirrors the default rate card seeded by the database schema
+ */
+export const DEFAULT_RATE_CARD = {
+  id: null,
+  version: null,
+  base_rate_per_mile: parseFloat(process.env.BASE_RATE_PER_MILE) || 2.00,
+  minimum_quote: parseFloat(process.env.MINIMUM_QUOTE) || 100.00,
+  weight_threshold_lbs: 10000, // 10,000 lbs
+  weight_rate_per_100_lbs: 0.10, // $0.10 per 100lbs over threshold
+  stop_charge: 75.00, // per intermediate pickup/drop
+  repositioning_rate_per_mile: 0.50, // per deadhead mile to/from market hubs
+  equipment_multipliers: {
+    'dry_van': 1.0,
+    'reefer': 1.2,      // 20% more expensive
+    'flatbed': 1.15,    // 15% more expensive
+    'step_deck': 1.20,  // 20% more expensive
+    'hotshot': 0.85,    // 15% less expensive
+    'straight_truck': 0.95  // 5% less expensive
+  },
+};
 
 /**
- * Calculate driving distance using OpenRouteService API (free tier)
- * Falls back to PostGIS great-circle distance if API fails
- * @param {number} originLat 
- * @param {number} originLon 
- * @param {number} destLat 
- * @param {number} destLon 
- * @returns {Promise<Object>} - { distance_km, distance_miles }
+ * Round a currency amount to 2 decimal places
  */
-const calculateDrivingDistance = async (originLat, originLon, destLat, destLon) => {
-  // Using public OSRM instance (completely free, no rate limits)
-  // OSRM expects coordinates as path parameter: lon,lat;lon,lat
-  const coordinates = `${originLon},${originLat};${destLon},${destLat}`;
-  const OSRM_BASE_URL = `https://router.project-osrm.org/route/v1/driving/${coordinates}`;
-  
-  try {
-    const response = await axios.get(OSRM_BASE_URL, {
-      params: {
-        overview: 'false', // We only need distance, not full route
-        geometries: 'geojson'
-      },
-      timeout: 5000, // 5 second timeout
-    });
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
 
-    if (response.data && response.data.routes && response.data.routes.length > 0) {
-      // Distance is returned in meters
-      const distanceMeters = response.data.routes[0].distance;
-      const distanceKm = distanceMeters / 1000.0;
-      const distanceMiles = distanceKm * 0.621371;
-
-      return {
-        distance_km: parseFloat(distanceKm.toFixed(2)),
-        distance_miles: parseFloat(distanceMiles.toFixed(2)),
-      };
-    } else {
-      throw new Error('No route found in API response');
-    }
-  } catch (error) {
-    if (error.response) {
-      console.warn(`OSRM API error: ${error.response.status} - ${error.response.statusText}`);
-    } else if (error.code === 'ECONNABORTED') {
-      console.warn('OSRM API timeout, falling back to great-circle distance');
-    } else {
-      console.warn(`OSRM API error: ${error.message}`);
-    }
-    throw error; // Re-throw to trigger fallback
-  }
-};
+/**
+ * Round a per-unit price to 4 decimal places (quote_line_items.unit_price precision)
+ */
+const roundRate = (rate) => Math.round(rate * 10000) / 10000;
 
 /**
- * Calculate great-circle distance using PostGIS (fallback method)
- * @param {number} originLat 
- * @param {number} originLon 
- * @param {number} destLat 
- * @param {number} destLon 
- * @returns {Promise<Object>} - { distance_km, distance_miles }
+ * Format a number for line item details (e.g. 1234.5 -> "1,234.50")
  */
-const calculateGreatCircleDistance = async (originLat, originLon, destLat, destLon) => {
-  try {
-    const result = await query(
-      `SELECT 
-        ST_Distance(
-          ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
-          ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography
-        ) / 1000.0 AS distance_km,
-        (ST_Distance(
-          ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
-          ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography
-        ) / 1000.0) * 0.621371 AS distance_miles`,
-      [originLon, originLat, destLon, destLat]
-    );
-
-    if (result.rows.length === 0) {
-      throw new Error('Distance calculation failed');
-    }
-
-    return {
-      distance_km: parseFloat(result.rows[0].distance_km),
-      distance_miles: parseFloat(result.rows[0].distance_miles),
-    };
-  } catch (error) {
-    console.error('PostGIS distance calculation error:', error);
-    throw new Error(`Failed to calculate distance: ${error.message}`);
-  }
-};
+const formatAmount = (value, decimals = 2) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
 
 /**
- * Calculate distance between two coordinates
- * Tries driving distance first, falls back to great-circle distance
- * @param {number} originLat 
- * @param {number} originLon 
- * @param {number} destLat 
- * @param {number} destLon 
- * @returns {Promise<Object>} - { distance_km, distance_miles }
+ * Format a money value in a currency for line item details (e.g. "$2.00", "CA$2.73", "MX$34.10")
  */
-export const calculateDistance = async (originLat, originLon, destLat, destLon) => {
-  // Try driving distance first (more accurate for shipping quotes)
-  try {
-    const drivingDistance = await calculateDrivingDistance(originLat, originLon, destLat, destLon);
-    console.log(`Using driving distance: ${drivingDistance.distance_km} km`);
-    return drivingDistance;
-  } catch (error) {
-    // Fall back to great-circle distance if driving distance API fails
-    console.warn('Falling back to great-circle distance calculation');
-    const greatCircleDistance = await calculateGreatCircleDistance(originLat, originLon, destLat, destLon);
-    console.log(`Using great-circle distance: ${greatCircleDistance.distance_km} km`);
-    return greatCircleDistance;
-  }
-};
+const formatMoney = (value, currency, decimals = 2) =>
+  value.toLocaleString('en-US', { style: 'currency', currency, minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+/**
+ * Build a quote line item
+ * @param {string} type - base, equipment, weight, minimum, stop_charge, repositioning, calendar_rule, fuel_surcharge, accessorial, cross_border_fee
+ * @param {Object} item - { code, description, detail, quantity, unit, unit_price, amount }
+ * @returns {Object} Line item with the amount rounded to cents
+ */
+const lineItem = (type, { code = null, description, detail = null, quantity = null, unit = null, unit_price = null, amount }) => ({
+  type,
+  code,
+  description,
+  detail,
+  quantity,
+  unit,
+  unit_price,
+  amount: roundCurrency(amount),
+});
+
+/**
+ * Sum the amounts of line items
+ * @param {Array<Object>} items
+ * @returns {number}
+ */
+const sumLineItems = (items) => roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+
+const ACCESSORIAL_UNITS = { per_hour: 'hour', per_mile: 'mile', flat: null };
 
 /**
  * Calculate quote amount based on distance, equipment type, and weight
+ * Every charge is returned as a line item; the stored/returned line items are the
+ * authoritative breakdown of the quote (clients should not re-derive prices).
  * @param {number} distanceMiles 
  * @param {string} equipmentType 
  * @param {number} totalWeight 
- * @returns {number} Quote amount in USD
+ * @param {Object} pricing - Pricing inputs
+ * @param {Object|null} pricing.rateCard - Active rate card (falls back to default pricing)
+ * @param {Object|null} pricing.laneRate - Lane rate override; replaces the base rate per mile
+ *   and minimum (equipment multiplier only applies when the override covers all equipment)
+ * @param {number} pricing.stopCount - Intermediate pickups/drops between origin and destination
+ * @param {Object|null} pricing.deadhead - Deadhead estimate ({ origin_hub, origin_miles, destination_hub,
+ *   destination_miles }); none = no repositioning charge
+ * @param {Array<Object>} pricing.calendarRules - Calendar rules that fired for the pickup date
+ *   ({ code, name, rule_type, reason, percent, flat_amount }); percent applies to the linehaul
+ * @param {Object|null} pricing.fuelSurcharge - Fuel schedule row ({ cents_per_mile }); none = no surcharge
+ * @param {Array<Object>} pricing.accessorials - Resolved accessorials ({ code, name, pricing_unit, price, quantity })
+ * @param {Array<Object>} pricing.crossBorderFees - Cross-border fees for the lane ({ code, name, amount }); empty when domestic
+ * @param {Object|null} pricing.exchangeRate - Rate to quote in ({ currency, rate_per_usd }); none = USD.
+ *   All pricing inputs are USD and are converted before the line items are built.
+ * @returns {Object} { line_items, linehaul_amount, stop_charge_amount, repositioning_amount, calendar_amount, fuel_surcharge_amount, accessorials_amount,
+ *   cross_border_amount, quote_amount } in the quote currency, plus currency, exchange_rate, quote_amount_usd
+ *   and calendar_rules (the rules that fired with their reason and amount)
  */
-export const calculateQuoteAmount = (distanceMiles, equipmentType, totalWeight = 0) => {
-  // Base rate per mile (from environment or default)
-  const baseRatePerMile = parseFloat(process.env.BASE_RATE_PER_MILE) || 2.00;
-  
-  // Equipment type multipliers
-  const equipmentMultipliers = {
-    'dry_van': 1.0,
-    'reefer': 1.2,      // 20% more expensive
-    'flatbed': 1.15,    // 15% more expensive
-    'step_deck': 1.20,  // 20% more expensive
-    'hotshot': 0.85,    // 15% less expensive
-    'straight_truck': 0.95  // 5% less expensive
-  };
-  
-  // Weight factor: $0.10 per 100lbs over 10,000lbs
-  const WEIGHT_THRESHOLD = 10000; // 10,000 lbs
-  const WEIGHT_FACTOR_RATE = 0.10; // $0.10 per 100lbs over threshold
-  
-  // Minimum quote amount
-  const minimumQuote = parseFloat(process.env.MINIMUM_QUOTE) || 100.00;
-  
-  // Calculate base quote from distance
-  let quoteAmount = distanceMiles * baseRatePerMile;
-  
-  // Apply equipment type multiplier
-  const multiplier = equipmentMultipliers[equipmentType] || 1.0;
-  quoteAmount *= multiplier;
-  
-  // Add weight-based pricing (if weight is provided and over threshold)
-  if (totalWeight > WEIGHT_THRESHOLD) {
-    const weightOverThreshold = totalWeight - WEIGHT_THRESHOLD;
-    const weightFactor = Math.ceil(weightOverThreshold / 100) * WEIGHT_FACTOR_RATE;
-    quoteAmount += weightFactor;
+export const calculateQuoteAmount = (distanceMiles, equipmentType, totalWeight = 0, { rateCard = null, laneRate = null, stopCount = 0, deadhead = null, calendarRules = [], fuelSurcharge = null, accessorials = [], crossBorderFees = [], exchangeRate = null } = {}) => {
+  const card = rateCard || DEFAULT_RATE_CARD;
+  const {
+    weight_threshold_lbs: weightThreshold,
+    equipment_multipliers: equipmentMultipliers,
+  } = card;
+
+  // Convert USD prices into the quote currency
+  const currency = exchangeRate ? exchangeRate.currency : 'USD';
+  const fxRate = exchangeRate ? exchangeRate.rate_per_usd : 1;
+  const convert = (usd) => roundRate(usd * fxRate);
+
+  const baseRatePerMile = convert(laneRate ? laneRate.rate_per_mile : card.base_rate_per_mile);
+  const minimumQuote = convert(laneRate && laneRate.minimum_quote !== null ? laneRate.minimum_quote : card.minimum_quote);
+  const weightFactorRate = convert(card.weight_rate_per_100_lbs);
+
+  // Base charge from distance
+  const base = lineItem('base', {
+    description: 'Base rate',
+    detail: `${formatAmount(distanceMiles)} miles × ${formatMoney(baseRatePerMile, currency)}/mile`,
+    quantity: distanceMiles,
+    unit: 'mile',
+    unit_price: baseRatePerMile,
+    amount: distanceMiles * baseRatePerMile,
+  });
+  const linehaulItems = [base];
+
+  // Equipment adjustment (equipment-specific lane rates are already priced for the equipment)
+  const multiplier = laneRate && laneRate.equipment_type ? 1.0 : (equipmentMultipliers[equipmentType] || 1.0);
+  if (multiplier !== 1.0) {
+    linehaulItems.push(lineItem('equipment', {
+      code: equipmentType,
+      description: 'Equipment adjustment',
+      detail: `${equipmentType.replace(/_/g, ' ')} × ${multiplier.toFixed(2)}`,
+      quantity: multiplier,
+      amount: base.amount * (multiplier - 1),
+    }));
   }
+
+  // Weight-based pricing (if weight is provided and over threshold)
+  if (totalWeight > weightThreshold) {
+    const weightOverThreshold = totalWeight - weightThreshold;
+    const hundredweights = Math.ceil(weightOverThreshold / 100);
+    linehaulItems.push(lineItem('weight', {
+      description: `Weight charge (over ${formatAmount(weightThreshold, 0)} lbs)`,
+      detail: `${formatAmount(weightOverThreshold, 0)} lbs × ${formatMoney(weightFactorRate, currency)} per 100 lbs`,
+      quantity: hundredweights,
+      unit: '100_lbs',
+      unit_price: weightFactorRate,
+      amount: hundredweights * weightFactorRate,
+    }));
+  }
+
+  // Top the linehaul up to the minimum (fuel and other charges are on top)
+  const linehaulBeforeMinimum = sumLineItems(linehaulItems);
+  if (linehaulBeforeMinimum < minimumQuote) {
+    linehaulItems.push(lineItem('minimum', {
+      description: 'Minimum charge top-up',
+      detail: `Minimum linehaul ${formatMoney(minimumQuote, currency)}`,
+      amount: minimumQuote - linehaulBeforeMinimum,
+    }));
+  }
+
+  // Per-stop charge for each intermediate pickup/drop (on top of the minimum)
+  const stopCharge = convert(card.stop_charge ?? DEFAULT_RATE_CARD.stop_charge);
+  const stopItems = stopCount > 0
+    ? [lineItem('stop_charge', {
+      description: 'Stop charge',
+      detail: `${stopCount} stop${stopCount === 1 ? '' : 's'} × ${formatMoney(stopCharge, currency)}/stop`,
+      quantity: stopCount,
+      unit: 'stop',
+      unit_price: stopCharge,
+      amount: stopCount * stopCharge,
+    })]
+    : [];
+
+  // Repositioning: deadhead miles from the nearest market hub to the origin and from the
+  // destination back to a hub (on top of the minimum; not part of the linehaul)
+  const repositioningRate = convert(card.repositioning_rate_per_mile ?? DEFAULT_RATE_CARD.repositioning_rate_per_mile);
+  const repositioningItems = (deadhead && repositioningRate > 0
+    ? [
+      { code: 'origin', description: 'Repositioning to origin', hub: deadhead.origin_hub, miles: deadhead.origin_miles, direction: 'from' },
+      { code: 'destination', description: 'Repositioning from destination', hub: deadhead.destination_hub, miles: deadhead.destination_miles, direction: 'to' },
+    ]
+    : []
+  )
+    .filter((leg) => leg.miles > 0)
+    .map((leg) => lineItem('repositioning', {
+      code: leg.code,
+      description: leg.description,
+      detail: `${formatAmount(leg.miles)} deadhead miles ${leg.direction} ${leg.hub} × ${formatMoney(repositioningRate, currency)}/mile`,
+      quantity: leg.miles,
+      unit: 'mile',
+      unit_price: repositioningRate,
+      amount: leg.miles * repositioningRate,
+    }));
+
+  // Calendar rules (weekend, holiday, peak season, short notice): percent of linehaul plus flat amount
+  const linehaulAmount = sumLineItems(linehaulItems);
+  const calendarItems = calendarRules.map((rule) => {
+    const flatAmount = convert(rule.flat_amount);
+    const charges = [
+      rule.percent > 0 ? `${formatAmount(rule.percent, rule.percent % 1 === 0 ? 0 : 2)}% of linehaul` : null,
+      flatAmount > 0 ? `${formatMoney(flatAmount, currency)} flat` : null,
+    ].filter(Boolean);
+    return lineItem('calendar_rule', {
+      code: rule.code,
+      description: rule.name,
+      detail: [rule.reason, ...charges].join(' · '),
+      amount: linehaulAmount * rule.percent / 100 + flatAmount,
+    });
+  });
+
+  // Fuel surcharge is a separate component priced per mile (schedule is in USD cents)
+  const fuelPerMile = fuelSurcharge ? convert(fuelSurcharge.cents_per_mile / 100) : 0;
+  const fuelItems = fuelSurcharge
+    ? [lineItem('fuel_surcharge', {
+      description: 'Fuel surcharge',
+      detail: `${formatAmount(distanceMiles)} miles × ${formatMoney(fuelPerMile, currency, 3)}/mile`,
+      quantity: distanceMiles,
+      unit: 'mile',
+      unit_price: fuelPerMile,
+      amount: distanceMiles * fuelPerMile,
+    })]
+    : [];
+
+  // Accessorials: flat fee, per hour (quantity = hours) or per mile (quantity = distance)
+  const accessorialItems = accessorials.map((accessorial) => {
+    const quantity = accessorial.pricing_unit === 'per_mile' ? distanceMiles : accessorial.quantity;
+    const unit = ACCESSORIAL_UNITS[accessorial.pricing_unit];
+    const price = convert(accessorial.price);
+    return lineItem('accessorial', {
+      code: accessorial.code,
+      description: accessorial.name,
+      detail: unit
+        ? `${formatAmount(quantity)} ${unit}s × ${formatMoney(price, currency)}/${unit}`
+        : 'Flat fee',
+      quantity,
+      unit,
+      unit_price: price,
+      amount: price * quantity,
+    });
+  });
+
+  // Cross-border fees are flat per shipment
+  const crossBorderItems = crossBorderFees.map((fee) => lineItem('cross_border_fee', {
+    code: fee.code,
+    description: fee.name,
+    detail: 'Cross-border fee',
+    amount: convert(fee.amount),
+  }));
+
+  const stopChargeAmount = sumLineItems(stopItems);
+  const repositioningAmount = sumLineItems(repositioningItems);
+  const calendarAmount = sumLineItems(calendarItems);
+  const fuelSurchargeAmount = sumLineItems(fuelItems);
+  const accessorialsAmount = sumLineItems(accessorialItems);
+  const crossBorderAmount = sumLineItems(crossBorderItems);
+  const quoteAmount = roundCurrency(linehaulAmount + stopChargeAmount + repositioningAmount + calendarAmount + fuelSurchargeAmount + accessorialsAmount + crossBorderAmount);
   
-  // Apply minimum quote
-  quoteAmount = Math.max(quoteAmount, minimumQuote);
-  
-  // Round to 2 decimal places
-  return Math.round(quoteAmount * 100) / 100;
+  return {
+    line_items: [...linehaulItems, ...stopItems, ...repositioningItems, ...calendarItems, ...fuelItems, ...accessorialItems, ...crossBorderItems],
+    linehaul_amount: linehaulAmount,
+    stop_charge_amount: stopChargeAmount,
+    repositioning_amount: repositioningAmount,
+    calendar_amount: calendarAmount,
+    calendar_rules: calendarItems.map((item, index) => ({
+      code: item.code,
+      name: item.description,
+      rule_type: calendarRules[index].rule_type,
+      reason: calendarRules[index].reason,
+      amount: item.amount,
+    })),
+    fuel_surcharge_amount: fuelSurchargeAmount,
+    accessorials_amount: accessorialsAmount,
+    cross_border_amount: crossBorderAmount,
+    quote_amount: quoteAmount,
+    currency,
+    exchange_rate: fxRate,
+    quote_amount_usd: roundCurrency(quoteAmount / fxRate),
+  };
 };
-
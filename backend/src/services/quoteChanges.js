@@ -0,0 +1,104 @@
+/**
+ * Quote change detection
+ * An edit of a quote is compared with what is stored, so only locations that moved are
+ * geocoded again and the quote is only repriced when something that affects the price
+ * changed. Customer references and notes never do.
+ */
+
+/**
+ * Fields that change the route (the changed locations are geocoded again)
+ */
+export const LOCATION_FIELDS = ['origin', 'destination', 'stops'];
+
+/**
+ * Fields that change the price without moving the route
+ */
+export const PRICING_FIELDS = ['equipment_type', 'total_weight', 'pickup_date', 'currency', 'accessorials', 'port_of_entry'];
+
+// Map pins closer than this (in degrees, about 10 cm) are the same point
+const COORDINATE_TOLERANCE = 0.000001;
+
+/**
+ * Compare free text the way a dispatcher would (case and spacing do not matter)
+ */
+const normalizeText = (value) => (value == null ? '' : String(value).trim().replace(/\s+/g, ' ').toUpperCase());
+
+/**
+ * Whether a requested location is the stored one
+ * A map pin only counts as a change when it moved; a location sent without a pin
+ * keeps the stored coordinates.
+ * @param {Object} location - Requested location ({ city, postal_code, state_province, country, address, coordinates? })
+ * @param {Object} stored - Stored location
+ * @param {Object|null} storedCoords - Stored coordinates ({ latitude, longitude })
+ * @returns {boolean}
+ */
+export const isSameLocation = (location, stored, storedCoords = stored.coords) => {
+  const fields = ['city', 'postal_code', 'state_province', 'country', 'address'];
+  if (fields.some((field) => normalizeText(location[field]) !== normalizeText(stored[field]))) {
+    return false;
+  }
+
+  if (location.coordinates && storedCoords) {
+    return (
+      Math.abs(parseFloat(location.coordinates.latitude) - storedCoords.latitude) < COORDINATE_TOLERANCE &&
+      Math.abs(parseFloat(location.coordinates.longitude) - storedCoords.longitude) < COORDINATE_TOLERANCE
+    );
+  }
+  return true;
+};
+
+/**
+ * Whether requested intermediate stops are the stored ones, in the same order
+ */
+const isSameStops = (stops, storedStops) =>
+  stops.length === storedStops.length &&
+  stops.every((stop, index) => stop.type === storedStops[index].type && isSameLocation(stop, storedStops[index]));
+
+/**
+ * Whether requested accessorials are the stored ones (in any order)
+ */
+const isSameAccessorials = (accessorials, storedAccessorials) => {
+  const key = (items) =>
+    items
+      .map((item) => `${normalizeText(item.code)}:${item.quantity != null ? parseFloat(item.quantity) : ''}`)
+      .sort()
+      .join('|');
+  return key(accessorials) === key(storedAccessorials);
+};
+
+/**
+ * Find the fields of an edit that differ from the stored quote
+ * Fields left out of the edit are unchanged.
+ * @param {Object} changes - Request body of the edit
+ * @param {Object} stored - Stored quote in request shape ({ origin, originCoords, destination,
+ *   destCoords, stops (with coords), equipment_type, total_weight, pickup_date (YYYY-MM-DD),
+ *   currency, accessorials, port_of_entry, customer_reference, notes })
+ * @returns {Array<string>} Changed field names
+ */
+export const findChangedFields = (changes, stored) => {
+  const isUnchanged = {
+    origin: (value) => isSameLocation(value, stored.origin, stored.originCoords),
+    destination: (value) => isSameLocation(value, stored.destination, stored.destCoords),
+    stops: (value) => isSameStops(value, stored.stops),
+    equipment_type: (value) => value === stored.equipment_type,
+    total_weight: (value) => parseFloat(value) === stored.total_weight,
+    pickup_date: (value) => String(value).slice(0, 10) === stored.pickup_date,
+    currency: (value) => normalizeText(value) === normalizeText(stored.currency),
+    accessorials: (value) => isSameAccessorials(value, stored.accessorials),
+    port_of_entry: (value) => normalizeText(value) === normalizeText(stored.port_of_entry),
+    customer_reference: (value) => (value || null) === stored.customer_reference,
+    notes: (value) => (value || null) === stored.notes,
+  };
+
+  return Object.keys(isUnchanged).filter(
+    (field) => changes[field] !== undefined && !isUnchanged[field](changes[field])
+  );
+};
+
+/**
+ * Whether a set of changed fields requires the quote to be priced again
+ * @param {Array<string>} changedFields
+ * @returns {boolean}
+ */
+export const requiresRepricing = (changedFields) =>
+  changedFields.some((field) => LOCATION_FIELDS.includes(field) || PRICING_FIELDS.includes(field));
@@ -0,0 +1,112 @@
+import { getClient } from '../config/database.js';
+
+/**
+ * Quote expiry service
+ * A quote is valid for QUOTE_VALIDITY_DAYS after it is created or through its pickup
+ * date, whichever is sooner. A job in the server process periodically moves draft and
+ * sent quotes whose validity has ended to expired, recording the change in the status
+ * history like any other.
+ */
+
+const DEFAULT_VALIDITY_DAYS = 7;
+const DEFAULT_EXPIRY_INTERVAL_MINUTES = 15;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Reason recorded when the job expires a quote
+export const EXPIRY_REASON = 'Validity window ended';
+
+/**
+ * Days a new quote is valid (QUOTE_VALIDITY_DAYS)
+ * @returns {number}
+ */
+export const getValidityDays = () => {
+  const days = parseFloat(process.env.QUOTE_VALIDITY_DAYS);
+  return isNaN(days) || days <= 0 ? DEFAULT_VALIDITY_DAYS : days;
+};
+
+/**
+ * Minutes between runs of the expiry job (QUOTE_EXPIRY_INTERVAL_MINUTES; 0 disables the job)
+ * @returns {number}
+ */
+export const getExpiryIntervalMinutes = () => {
+  const minutes = parseFloat(process.env.QUOTE_EXPIRY_INTERVAL_MINUTES);
+  return isNaN(minutes) || minutes < 0 ? DEFAULT_EXPIRY_INTERVAL_MINUTES : minutes;
+};
+
+/**
+ * When a new quote stops being valid
+ * @param {string} pickupDate - Pickup date (ISO 8601; the quote is valid through that day, UTC)
+ * @param {Date} now - Creation time
+ * @returns {Date} The sooner of now + QUOTE_VALIDITY_DAYS and the pickup date
+ */
+export const calculateValidUntil = (pickupDate, now = new Date()) => {
+  const horizon = now.getTime() + getValidityDays() * MS_PER_DAY;
+  const endOfPickupDay = Date.parse(`${String(pickupDate).slice(0, 10)}T00:00:00Z`) + MS_PER_DAY;
+  return new Date(isNaN(endOfPickupDay) ? horizon : Math.min(horizon, endOfPickupDay));
+};
+
+/**
+ * Expire every draft or sent quote whose validity has ended
+ * Rows locked by a concurrent status change are skipped and picked up on the next run.
+ * @returns {Promise<Array<number>>} IDs of the quotes expired
+ */
+export const expireStaleQuotes = async () => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `WITH stale AS (
+          SELECT id, status FROM quotes
+          WHERE status IN ('draft', 'sent') AND valid_until <= CURRENT_TIMESTAMP
+          FOR UPDATE SKIP LOCKED
+       ), expired AS (
+          UPDATE quotes
+          SET status = 'expired', status_reason = $1, status_changed_at = CURRENT_TIMESTAMP
+          FROM stale
+          WHERE quotes.id = stale.id
+          RETURNING quotes.id, stale.status as from_status
+       )
+       INSERT INTO quote_status_history (quote_id, from_status, to_status, reason)
+       SELECT id, from_status, 'expired', $1 FROM expired
+       RETURNING quote_id`,
+      [EXPIRY_REASON]
+    );
+
+    await client.query('COMMIT');
+
+    return result.rows.map((row) => row.quote_id);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Start the expiry job: one run now, then every QUOTE_EXPIRY_INTERVAL_MINUTES
+ * The timer does not keep the process alive on its own.
+ * @returns {NodeJS.Timeout|null} The job's timer, or null when the job is disabled
+ */
+export const startQuoteExpiryJob = () => {
+  const minutes = getExpiryIntervalMinutes();
+  if (minutes === 0) return null;
+
+  const run = async () => {
+    try {
+      const expired = await expireStaleQuotes();
+      if (expired.length > 0) {
+        console.log(`⌛ Expired ${expired.length} quote(s): ${expired.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Quote expiry job failed:', error.message);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
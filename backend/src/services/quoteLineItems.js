@@ -0,0 +1,66 @@
+import { query } from '../config/database.js';
+
+/**
+ * Quote line item service
+ * Line items are the server-calculated price breakdown of a quote
+ * (base rate, equipment adjustment, weight charge, minimum top-up, fuel, accessorials, fees).
+ */
+
+/**
+ * Convert a quote_line_items row into numeric values
+ * @param {Object} row - quote_line_items row
+ * @returns {Object} Line item
+ */
+export const parseLineItem = (row) => ({
+  type: row.type,
+  code: row.code,
+  description: row.description,
+  detail: row.detail,
+  quantity: row.quantity !== null ? parseFloat(row.quantity) : null,
+  unit: row.unit,
+  unit_price: row.unit_price !== null ? parseFloat(row.unit_price) : null,
+  amount: parseFloat(row.amount),
+});
+
+/**
+ * Store the line items of a quote (in calculation order)
+ * @param {Object} client - Database client (inside the quote's transaction)
+ * @param {number} quoteId
+ * @param {Array<Object>} lineItems - Line items from calculateQuoteAmount
+ * @returns {Promise<void>}
+ */
+export const insertLineItems = async (client, quoteId, lineItems) => {
+  for (const [position, item] of lineItems.entries()) {
+    await client.query(
+      `INSERT INTO quote_line_items (
+        quote_id, position, type, code, description, detail, quantity, unit, unit_price, amount
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        quoteId,
+        position,
+        item.type,
+        item.code,
+        item.description,
+        item.detail,
+        item.quantity,
+        item.unit,
+        item.unit_price,
+        item.amount,
+      ]
+    );
+  }
+};
+
+/**
+ * Get the line items of a quote
+ * @param {number} quoteId
+ * @returns {Promise<Array<Object>>}
+ */
+export const getLineItems = async (quoteId) => {
+  const result = await query(
+    'SELECT * FROM quote_line_items WHERE quote_id = $1 ORDER BY position',
+    [quoteId]
+  );
+
+  return result.rows.map(parseLineItem);
+};
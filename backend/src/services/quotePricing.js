@@ -0,0 +1,81 @@
+import { calculateQuoteAmount } from './quoteCalculator.js';
+import { describeRateCard, getActiveRateCard } from './rateCards.js';
+import { describeLaneRate, findLaneRate } from './laneRates.js';
+import { getFuelSurchargeRate } from './fuelSurcharge.js';
+import { getCrossBorderFees } from './crossBorderFees.js';
+import { findCalendarRules } from './calendarRules.js';
+import { calculateDeadhead } from './marketHubs.js';
+
+/**
+ * Quote pricing service
+ * Looks up everything that prices a shipment on a lane (rate card, lane override,
+ * deadhead to/from market hubs, calendar rules, fuel schedule, cross-border fees and
+ * the port of entry's crossing fee) and runs the calculator.
+ */
+
+/**
+ * Price a shipment
+ * Uses the rate card in effect today, the most specific lane override when one
+ * matches, deadhead miles from/to the nearest market hubs, pickup-date calendar
+ * rules, the origin country's fuel schedule and the lane's cross-border fees
+ * (plus the crossing fee of the port of entry the route goes through), converted to
+ * the quote currency.
+ * @param {Object} shipment
+ * @param {Object} shipment.origin - Origin location
+ * @param {Object} shipment.destination - Destination location
+ * @param {Object} shipment.originCoords - Origin coordinates ({ latitude, longitude })
+ * @param {Object} shipment.destinationCoords - Destination coordinates
+ * @param {Array<Object>} shipment.stops - Intermediate pickups/drops (each charged per stop)
+ * @param {string} shipment.equipmentType
+ * @param {number} shipment.totalWeight - Weight in lbs
+ * @param {string} shipment.pickupDate - Pickup date (YYYY-MM-DD)
+ * @param {number} shipment.distanceMiles
+ * @param {Array<Object>} shipment.accessorials - Resolved accessorials
+ * @param {Object|null} shipment.portOfEntry - Port of entry from choosePortOfEntry (none = domestic lane)
+ * @param {Object|null} shipment.exchangeRate - Rate to quote in (none = USD)
+ * @returns {Promise<Object>} Calculator result plus rateCard, laneRate, fuelSurcharge, deadhead and pricingRule
+ */
+export const priceShipment = async ({
+  origin,
+  destination,
+  originCoords,
+  destinationCoords,
+  stops = [],
+  equipmentType,
+  totalWeight,
+  pickupDate,
+  distanceMiles,
+  accessorials = [],
+  portOfEntry = null,
+  exchangeRate = null,
+}) => {
+  const rateCard = await getActiveRateCard();
+  const laneRate = await findLaneRate(origin, destination, equipmentType);
+  const calendarRules = await findCalendarRules(pickupDate, origin.country, equipmentType);
+  const fuelSurcharge = await getFuelSurchargeRate(origin.country);
+  const crossBorderFees = await getCrossBorderFees(origin, destination, stops);
+  if (portOfEntry && portOfEntry.port.crossing_fee > 0) {
+    crossBorderFees.push({
+      code: 'port_crossing',
+      name: `${portOfEntry.port.name} crossing`,
+      amount: portOfEntry.port.crossing_fee,
+    });
+  }
+  const deadhead = await calculateDeadhead(originCoords, destinationCoords);
+
+  const pricing = calculateQuoteAmount(
+    distanceMiles,
+    equipmentType,
+    totalWeight,
+    { rateCard, laneRate, stopCount: stops.length, deadhead, calendarRules, fuelSurcharge, accessorials, crossBorderFees, exchangeRate }
+  );
+
+  return {
+    ...pricing,
+    rateCard,
+    laneRate,
+    fuelSurcharge,
+    deadhead,
+    pricingRule: laneRate ? describeLaneRate(laneRate) : describeRateCard(rateCard),
+  };
+};
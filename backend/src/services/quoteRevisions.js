@@ -0,0 +1,170 @@
+import { query } from '../config/database.js';
+
+/**
+ * Quote revision service
+ * A revision is an immutable snapshot of a quote's pricing inputs and outputs (the quote
+ * row, its line items and its stops) with the changes from the revision before it.
+ * Revision 1 is written when a quote is created or requoted, and another each time an
+ * edit reprices it. Status changes, customer references and notes are not revisions.
+ */
+
+// Quote fields that are neither pricing inputs nor outputs (left out of snapshots)
+const NON_PRICING_FIELDS = [
+  'status',
+  'status_reason',
+  'status_changed_at',
+  'valid_until',
+  'allowed_transitions',
+  'customer_reference',
+  'notes',
+  'deleted_at',
+  'created_at',
+  'updated_at',
+  'origin_latitude',
+  'origin_longitude',
+  'destination_latitude',
+  'destination_longitude',
+  'port_of_entry_latitude',
+  'port_of_entry_longitude',
+];
+
+// DATE columns, kept in snapshots as YYYY-MM-DD whatever the server's timezone
+const DATE_FIELDS = ['pickup_date', 'estimated_delivery_date', 'exchange_rate_date'];
+
+/**
+ * Format a DATE column as YYYY-MM-DD
+ * pg reads DATE values as local midnight, so the local date parts are the stored day.
+ */
+const toDay = (value) => {
+  if (value instanceof Date) {
+    const pad = (number) => String(number).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return value == null ? null : String(value).slice(0, 10);
+};
+
+/**
+ * Serialize a value with object keys in a fixed order (JSONB does not keep key order)
+ */
+const canonical = (value) => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Build the snapshot of a priced quote
+ * @param {Object} quote - Quote in API shape (route geometry already left out)
+ * @param {Array<Object>} lineItems - Line items of the quote
+ * @param {Array<Object>} stops - Stops of the quote, in route order
+ * @returns {Object} JSON-ready snapshot
+ */
+export const buildSnapshot = (quote, lineItems, stops) => {
+  const fields = Object.entries(quote)
+    .filter(([field]) => !NON_PRICING_FIELDS.includes(field))
+    .map(([field, value]) => [field, DATE_FIELDS.includes(field) ? toDay(value) : value]);
+  return JSON.parse(JSON.stringify({ ...Object.fromEntries(fields), line_items: lineItems, stops }));
+};
+
+/**
+ * List what changed between two snapshots
+ * Quote fields are compared one by one, line items by type and code (their amounts),
+ * and the route as its list of stops.
+ * @param {Object} previous - Earlier snapshot
+ * @param {Object} current - Later snapshot
+ * @returns {Array<Object>} [{ field, from, to }]
+ */
+export const diffSnapshots = (previous, current) => {
+  const changes = [];
+
+  const fields = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  for (const field of fields) {
+    if (field === 'id' || field === 'line_items' || field === 'stops') continue;
+    if (canonical(previous[field]) !== canonical(current[field])) {
+      changes.push({ field, from: previous[field] ?? null, to: current[field] ?? null });
+    }
+  }
+
+  const amounts = (snapshot) =>
+    new Map((snapshot.line_items || []).map((item) => [`${item.type}${item.code ? `.${item.code}` : ''}`, item.amount]));
+  const before = amounts(previous);
+  const after = amounts(current);
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    if (before.get(key) !== after.get(key)) {
+      changes.push({ field: `line_items.${key}`, from: before.get(key) ?? null, to: after.get(key) ?? null });
+    }
+  }
+
+  const route = (snapshot) =>
+    (snapshot.stops || []).map(
+      (stop) => `${stop.stop_type}: ${stop.city}${stop.state_province ? `, ${stop.state_province}` : ''}, ${stop.country}`
+    );
+  if (canonical(route(previous)) !== canonical(route(current))) {
+    changes.push({ field: 'stops', from: route(previous), to: route(current) });
+  }
+
+  return changes;
+};
+
+/**
+ * Convert a quote_revisions row into API shape
+ * @param {Object} row - quote_revisions row
+ * @returns {Object} Revision
+ */
+export const parseRevision = (row) => ({
+  revision_number: row.revision_number,
+  source: row.source,
+  changes: row.changes,
+  snapshot: row.snapshot,
+  created_at: row.created_at,
+});
+
+/**
+ * Record a new revision of a quote
+ * Nothing is written when an edit leaves every pricing input and output as it was.
+ * @param {Object} client - Database client (inside the quote's transaction, with the quote row locked by its INSERT or UPDATE)
+ * @param {number} quoteId
+ * @param {string} source - created, requoted or edited
+ * @param {Object} snapshot - Snapshot from buildSnapshot
+ * @returns {Promise<Object|null>} The revision, or null when nothing changed
+ */
+export const recordRevision = async (client, quoteId, source, snapshot) => {
+  const previous = await client.query(
+    `SELECT revision_number, snapshot FROM quote_revisions
+     WHERE quote_id = $1
+     ORDER BY revision_number DESC
+     LIMIT 1`,
+    [quoteId]
+  );
+  const last = previous.rows[0];
+
+  const changes = last ? diffSnapshots(last.snapshot, snapshot) : [];
+  if (last && changes.length === 0) return null;
+
+  const result = await client.query(
+    `INSERT INTO quote_revisions (quote_id, revision_number, source, snapshot, changes)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [quoteId, last ? last.revision_number + 1 : 1, source, JSON.stringify(snapshot), JSON.stringify(changes)]
+  );
+
+  return parseRevision(result.rows[0]);
+};
+
+/**
+ * Get the revisions of a quote, oldest first
+ * @param {number} quoteId
+ * @returns {Promise<Array<Object>>}
+ */
+export const getRevisions = async (quoteId) => {
+  const result = await query(
+    `SELECT * FROM quote_revisions
+     WHERE quote_id = $1
+     ORDER BY revision_number`,
+    [quoteId]
+  );
+
+  return result.rows.map(parseRevision);
+};
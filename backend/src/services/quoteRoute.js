@@ -0,0 +1,96 @@
+/**
+ * Quote route service
+ * Builds the GeoJSON served for a quote's map: the route geometry stored when the
+ * quote was priced, a point per stop and, for cross-border lanes, the port of entry
+ * the route was forced through. Quotes priced without a road route
+ * (great-circle fallback) have no line, and the map draws straight segments instead.
+ */
+
+/**
+ * Build a stop point feature
+ * @param {Object} stop - { sequence, stop_type, city, state_province, coordinates }
+ * @returns {Object} GeoJSON Feature
+ */
+const buildStopFeature = (stop) => ({
+  type: 'Feature',
+  geometry: {
+    type: 'Point',
+    coordinates: [stop.coordinates.longitude, stop.coordinates.latitude],
+  },
+  properties: {
+    kind: 'stop',
+    sequence: stop.sequence,
+    stop_type: stop.stop_type,
+    city: stop.city,
+    state_province: stop.state_province,
+  },
+});
+
+/**
+ * Build the route FeatureCollection of a quote
+ * Quotes created before stops were stored fall back to their origin and destination.
+ * @param {Object} quote - quotes row with route_geometry as GeoJSON text and origin/destination/port of entry latitude/longitude
+ * @param {Array<Object>} stops - Stops from getQuoteStops
+ * @returns {Object} GeoJSON FeatureCollection (a LineString feature first when the route is stored, the port of entry last)
+ */
+export const buildRouteFeatureCollection = (quote, stops) => {
+  const features = [];
+
+  if (quote.route_geometry) {
+    features.push({
+      type: 'Feature',
+      geometry: JSON.parse(quote.route_geometry),
+      properties: {
+        kind: 'route',
+        distance_source: quote.distance_source,
+        distance_miles: quote.distance_miles !== null ? parseFloat(quote.distance_miles) : null,
+        distance_kilometers: quote.distance_kilometers !== null ? parseFloat(quote.distance_kilometers) : null,
+      },
+    });
+  }
+
+  const routeStops = stops.length > 0 ? stops : [
+    {
+      sequence: 1,
+      stop_type: 'pickup',
+      city: quote.origin_city,
+      state_province: quote.origin_state_province,
+      coordinates: {
+        latitude: parseFloat(quote.origin_latitude),
+        longitude: parseFloat(quote.origin_longitude),
+      },
+    },
+    {
+      sequence: 2,
+      stop_type: 'drop',
+      city: quote.destination_city,
+      state_province: quote.destination_state_province,
+      coordinates: {
+        latitude: parseFloat(quote.destination_latitude),
+        longitude: parseFloat(quote.destination_longitude),
+      },
+    },
+  ];
+
+  features.push(...routeStops.filter((stop) => stop.coordinates).map(buildStopFeature));
+
+  if (quote.port_of_entry_latitude) {
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [parseFloat(quote.port_of_entry_longitude), parseFloat(quote.port_of_entry_latitude)],
+      },
+      properties: {
+        kind: 'port_of_entry',
+        name: quote.port_of_entry_name,
+        selection: quote.port_of_entry_selection,
+      },
+    });
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+};
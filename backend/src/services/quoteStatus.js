@@ -0,0 +1,148 @@
+import { getClient, query } from '../config/database.js';
+
+/**
+ * Quote status service
+ * A quote is created as a draft, sent to the shipper and then accepted, rejected or
+ * left to expire. Draft, sent and accepted quotes can be cancelled. Rejected, expired
+ * and cancelled quotes are final, and a quote past its valid_until cannot be accepted.
+ * Every change is recorded in quote_status_history.
+ */
+
+/**
+ * Statuses each status can move to
+ */
+export const STATUS_TRANSITIONS = {
+  draft: ['sent', 'expired', 'cancelled'],
+  sent: ['accepted', 'rejected', 'expired', 'cancelled'],
+  accepted: ['cancelled'],
+  rejected: [],
+  expired: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses a quote in this status can move to
+ * @param {string} status
+ * @returns {Array<string>}
+ */
+export const getAllowedTransitions = (status) => STATUS_TRANSITIONS[status] || [];
+
+/**
+ * Convert a quote_status_history row into API shape
+ * @param {Object} row - quote_status_history row
+ * @returns {Object} Status change
+ */
+export const parseStatusChange = (row) => ({
+  from_status: row.from_status,
+  to_status: row.to_status,
+  reason: row.reason,
+  changed_at: row.changed_at,
+});
+
+/**
+ * Record a status change of a quote
+ * @param {Object} client - Database client (inside the change's transaction)
+ * @param {number} quoteId
+ * @param {string|null} fromStatus - Previous status (none for a new quote)
+ * @param {string} toStatus
+ * @param {string|null} reason
+ * @returns {Promise<void>}
+ */
+export const recordStatusChange = async (client, quoteId, fromStatus, toStatus, reason = null) => {
+  await client.query(
+    `INSERT INTO quote_status_history (quote_id, from_status, to_status, reason)
+     VALUES ($1, $2, $3, $4)`,
+    [quoteId, fromStatus, toStatus, reason]
+  );
+};
+
+/**
+ * Get the status history of a quote, oldest first
+ * @param {number} quoteId
+ * @returns {Promise<Array<Object>>}
+ */
+export const getStatusHistory = async (quoteId) => {
+  const result = await query(
+    `SELECT * FROM quote_status_history
+     WHERE quote_id = $1
+     ORDER BY changed_at, id`,
+    [quoteId]
+  );
+
+  return result.rows.map(parseStatusChange);
+};
+
+/**
+ * Build the 409 error for a status change that is not allowed
+ */
+const statusConflictError = (name, message) => {
+  const error = new Error(message);
+  error.name = name;
+  error.statusCode = 409;
+  return error;
+};
+
+/**
+ * Move a quote to a new status
+ * The quote row is locked while the transition is checked, so two concurrent
+ * changes cannot both succeed from the same status (or race the expiry job).
+ * @param {number} quoteId
+ * @param {string} status - New status
+ * @param {string|null} reason - Why the status changed (required for rejections by the validator)
+ * @returns {Promise<Object|null>} { id, status, status_reason, status_changed_at, previous_status },
+ *   or null when the quote does not exist (or is deleted)
+ * @throws {Error} 409 error when the current status cannot move to the new one, or when
+ *   accepting a quote whose validity has ended
+ */
+export const changeQuoteStatus = async (quoteId, status, reason = null) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query(
+      `SELECT id, status, valid_until, valid_until <= CURRENT_TIMESTAMP as is_past_validity
+       FROM quotes WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [quoteId]
+    );
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const { status: previousStatus, valid_until: validUntil, is_past_validity: isPastValidity } = current.rows[0];
+    const allowed = getAllowedTransitions(previousStatus);
+    if (!allowed.includes(status)) {
+      throw statusConflictError(
+        'Invalid status transition',
+        allowed.length > 0
+          ? `Quote is ${previousStatus}; it can only move to ${allowed.join(', ')}`
+          : `Quote is ${previousStatus} and cannot change status`
+      );
+    }
+    if (status === 'accepted' && isPastValidity) {
+      throw statusConflictError(
+        'Quote expired',
+        `Quote was valid until ${validUntil.toISOString()} and can no longer be accepted`
+      );
+    }
+
+    const result = await client.query(
+      `UPDATE quotes
+       SET status = $2, status_reason = $3, status_changed_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING id, status, status_reason, status_changed_at`,
+      [quoteId, status, reason]
+    );
+    await recordStatusChange(client, quoteId, previousStatus, status, reason);
+
+    await client.query('COMMIT');
+
+    return { ...result.rows[0], previous_status: previousStatus };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
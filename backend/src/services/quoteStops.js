@@ -0,0 +1,102 @@
+import { query } from '../config/database.js';
+import { coordinatesToPostGIS } from './geocoding.js';
+
+/**
+ * Quote stop service
+ * Stops are the ordered pickups and drops of a quote. The origin is stored as the
+ * first stop and the destination as the last, with any intermediate stops between.
+ */
+
+/**
+ * Convert a quote_stops row (with latitude/longitude selected) into API shape
+ * @param {Object} row - quote_stops row
+ * @returns {Object} Stop
+ */
+export const parseQuoteStop = (row) => ({
+  sequence: row.sequence,
+  stop_type: row.stop_type,
+  city: row.city,
+  postal_code: row.postal_code,
+  state_province: row.state_province,
+  country: row.country,
+  address: row.address,
+  coordinates: row.latitude !== null ? {
+    latitude: parseFloat(row.latitude),
+    longitude: parseFloat(row.longitude),
+  } : null,
+  leg_distance_miles: row.leg_distance_miles !== null ? parseFloat(row.leg_distance_miles) : null,
+});
+
+/**
+ * Build the full ordered stop list of a route
+ * @param {Object} origin - Origin location and its coordinates ({ ...location, coords })
+ * @param {Array<Object>} stops - Intermediate stops ({ type, ...location, coords })
+ * @param {Object} destination - Destination location and its coordinates
+ * @param {Array<Object>} legs - Distance of each leg ({ distance_miles }), one fewer than the stops
+ * @returns {Array<Object>} Stops numbered from 1, with the distance from the previous stop
+ */
+export const buildRouteStops = (origin, stops, destination, legs = []) =>
+  [
+    { ...origin, type: 'pickup' },
+    ...stops,
+    { ...destination, type: 'drop' },
+  ].map((stop, index) => ({
+    sequence: index + 1,
+    stop_type: stop.type,
+    city: stop.city,
+    postal_code: stop.postal_code || null,
+    state_province: stop.state_province || null,
+    country: stop.country,
+    address: stop.address || null,
+    coordinates: {
+      latitude: stop.coords.latitude,
+      longitude: stop.coords.longitude,
+    },
+    leg_distance_miles: index > 0 && legs[index - 1] ? legs[index - 1].distance_miles : null,
+  }));
+
+/**
+ * Store the stops of a quote
+ * @param {Object} client - Database client (inside the quote's transaction)
+ * @param {number} quoteId
+ * @param {Array<Object>} stops - Stops from buildRouteStops
+ * @returns {Promise<void>}
+ */
+export const insertQuoteStops = async (client, quoteId, stops) => {
+  for (const stop of stops) {
+    await client.query(
+      `INSERT INTO quote_stops (
+        quote_id, sequence, stop_type, city, postal_code, state_province, country, address, coordinates, leg_distance_miles
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, ST_SetSRID(ST_GeomFromText($9), 4326)::geography, $10)`,
+      [
+        quoteId,
+        stop.sequence,
+        stop.stop_type,
+        stop.city,
+        stop.postal_code,
+        stop.state_province,
+        stop.country,
+        stop.address,
+        coordinatesToPostGIS(stop.coordinates.latitude, stop.coordinates.longitude),
+        stop.leg_distance_miles,
+      ]
+    );
+  }
+};
+
+/**
+ * Get the stops of a quote in route order
+ * @param {number} quoteId
+ * @returns {Promise<Array<Object>>}
+ */
+export const getQuoteStops = async (quoteId) => {
+  const result = await query(
+    `SELECT *,
+        ST_Y(coordinates::geometry) as latitude,
+        ST_X(coordinates::geometry) as longitude
+     FROM quote_stops WHERE quote_id = $1 ORDER BY sequence`,
+    [quoteId]
+  );
+
+  return result.rows.map(parseQuoteStop);
+};
@@ -0,0 +1,58 @@
+import { query } from '../config/database.js';
+
+/**
+ * Rate card service
+ * Rate cards are versioned pricing configurations stored in the database.
+ * The card whose effective window covers the quote date prices new quotes.
+ */
+
+/**
+ * Convert a rate_cards row into numeric pricing values
+ * (pg returns DECIMAL columns as strings)
+ * @param {Object} row - rate_cards row
+ * @returns {Object} Rate card with numeric fields
+ */
+export const parseRateCard = (row) => {
+  if (!row) return null;
+
+  return {
+    ...row,
+    base_rate_per_mile: parseFloat(row.base_rate_per_mile),
+    minimum_quote: parseFloat(row.minimum_quote),
+    weight_threshold_lbs: parseFloat(row.weight_threshold_lbs),
+    weight_rate_per_100_lbs: parseFloat(row.weight_rate_per_100_lbs),
+    stop_charge: parseFloat(row.stop_charge),
+    repositioning_rate_per_mile: parseFloat(row.repositioning_rate_per_mile),
+  };
+};
+
+/**
+ * Get the rate card in effect on a given date
+ * When effective windows overlap, the most recently effective card wins,
+ * then the highest version.
+ * @param {string|null} date - Date to price on as YYYY-MM-DD (defaults to today)
+ * @returns {Promise<Object|null>} Active rate card or null if none is in effect
+ */
+export const getActiveRateCard = async (date = null) => {
+  const result = await query(
+    `SELECT *
+     FROM rate_cards
+     WHERE effective_from <= COALESCE($1::date, CURRENT_DATE)
+       AND (effective_to IS NULL OR effective_to >= COALESCE($1::date, CURRENT_DATE))
+     ORDER BY effective_from DESC, version DESC
+     LIMIT 1`,
+    [date]
+  );
+
+  return parseRateCard(result.rows[0]);
+};
+
+/**
+ * Human-readable description of the base-rate pricing rule
+ * @param {Object|null} rateCard
+ * @returns {string} e.g. "Rate card v2 base rate ($2.25/mi)"
+ */
+export const describeRateCard = (rateCard) => {
+  if (!rateCard) return 'Default base rate';
+  return `Rate card v${rateCard.version} base rate ($${rateCard.base_rate_per_mile.toFixed(2)}/mi)`;
+};
@@ -0,0 +1,93 @@
+import { routeWithOsrm } from './osrmRouter.js';
+import { routeWithValhalla } from './valhallaRouter.js';
+import { routeWithGreatCircle } from './greatCircleRouter.js';
+import { routeWithFixture } from './fixtureRouter.js';
+
+/**
+ * Routing service
+ * Measures a route through a configurable chain of providers. Each provider takes
+ * the ordered waypoints and returns the distance of each leg in km and, when it
+ * knows them, the driving time and the route geometry as a GeoJSON LineString. When a vehicle
+ * (the equipment's truck attributes) is given, providers that support it route with
+ * a truck profile and report the profile they used. ROUTING_PROVIDERS sets the order
+ * (default: OSRM, then road-corrected great-circle distance), and the provider that
+ * answered is recorded as the quote's distance_source.
+ */
+
+const ROUTING_PROVIDERS = {
+  osrm: routeWithOsrm,
+  valhalla: routeWithValhalla,
+  great_circle: routeWithGreatCircle,
+  fixture: routeWithFixture,
+};
+
+const DEFAULT_PROVIDER_ORDER = 'osrm,great_circle';
+
+/**
+ * Miles per kilometer
+ */
+export const KM_TO_MILES = 0.621371;
+
+/**
+ * Get the configured provider order
+ * @returns {Array<string>} Provider names
+ */
+export const getRoutingProviders = () => {
+  const names = (process.env.ROUTING_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = names.filter((name) => !ROUTING_PROVIDERS[name]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown routing provider(s): ${unknown.join(', ')}. ` +
+      `Available: ${Object.keys(ROUTING_PROVIDERS).join(', ')}`
+    );
+  }
+
+  return names;
+};
+
+/**
+ * Convert a distance in km to { distance_km, distance_miles }
+ */
+const toDistance = (distanceKm) => ({
+  distance_km: parseFloat(distanceKm.toFixed(2)),
+  distance_miles: parseFloat((distanceKm * KM_TO_MILES).toFixed(2)),
+});
+
+/**
+ * Calculate the distance of a route through every waypoint
+ * Providers are tried in order until one answers.
+ * @param {Array<Object>} points - Route waypoints in order ({ latitude, longitude }):
+ *   origin, intermediate stops, destination
+ * @param {Object|null} vehicle - Truck attributes from buildVehicleProfile (null = car routing)
+ * @returns {Promise<Object>} - { distance_km, distance_miles, legs: [{ distance_km, distance_miles }], source,
+ *   profile, duration_hours: driving time (null when the provider has none), geometry: GeoJSON LineString or null }
+ */
+export const calculateDistance = async (points, vehicle = null) => {
+  const failures = [];
+
+  for (const name of getRoutingProviders()) {
+    try {
+      const { legs, duration, geometry, profile } = await ROUTING_PROVIDERS[name](points, vehicle);
+      const totalKm = legs.reduce((sum, leg) => sum + leg, 0);
+      console.log(`Using ${name} distance${profile ? ` (${profile})` : ''}: ${totalKm.toFixed(2)} km`);
+
+      return {
+        ...toDistance(totalKm),
+        legs: legs.map(toDistance),
+        source: name,
+        profile,
+        duration_hours: duration ? parseFloat((duration / 3600).toFixed(2)) : null,
+        geometry,
+      };
+    } catch (error) {
+      console.warn(`Routing provider "${name}" failed:`, error.message);
+      failures.push(`${name}: ${error.message}`);
+    }
+  }
+
+  throw new Error(`Failed to calculate distance (${failures.join('; ')})`);
+};
@@ -0,0 +1,143 @@
+/**
+ * Transit time service
+ * Estimates when a load delivers from the route's driving time and the hours-of-service
+ * (HOS) rules the driver works under. US rules allow 11 hours of driving inside a
+ * 14-hour on-duty window, with a 30-minute break after 8 hours of driving and a
+ * 10-hour reset between shifts. Canadian rules (south of 60°N) allow 13 hours of
+ * driving in a 14-hour window, also followed by a 10-hour reset. Team drivers swap
+ * at the wheel instead of resetting, so the truck keeps moving while one driver rests.
+ */
+
+const HOS_RULES = {
+  US: { max_driving_hours: 11, break_after_hours: 8, break_hours: 0.5, reset_hours: 10 },
+  CA: { max_driving_hours: 13, break_after_hours: null, break_hours: 0, reset_hours: 10 },
+};
+
+const DEFAULT_AVERAGE_SPEED_MPH = 50;
+const DEFAULT_MAX_SPEED_MPH = 62;
+const DEFAULT_START_HOUR = 8;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Read a positive number from the environment
+ */
+const readSetting = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return isNaN(value) || value <= 0 ? fallback : value;
+};
+
+/**
+ * Average truck speed used when the routing provider has no driving time
+ * (TRANSIT_AVERAGE_SPEED_MPH)
+ * @returns {number}
+ */
+export const getAverageSpeedMph = () => readSetting('TRANSIT_AVERAGE_SPEED_MPH', DEFAULT_AVERAGE_SPEED_MPH);
+
+/**
+ * Highest average speed a truck is assumed to hold (TRANSIT_MAX_SPEED_MPH).
+ * Routing providers time most routes for cars; this keeps their durations realistic for trucks.
+ * @returns {number}
+ */
+export const getMaxSpeedMph = () => readSetting('TRANSIT_MAX_SPEED_MPH', DEFAULT_MAX_SPEED_MPH);
+
+/**
+ * Hour of the pickup day the driver starts rolling (TRANSIT_START_HOUR, 0-23)
+ * @returns {number}
+ */
+export const getStartHour = () => {
+  const hour = parseFloat(process.env.TRANSIT_START_HOUR);
+  return isNaN(hour) || hour < 0 || hour >= 24 ? DEFAULT_START_HOUR : hour;
+};
+
+/**
+ * Pick the HOS rules for a route
+ * Canadian rules apply only to routes entirely within Canada; any route touching the
+ * US or Mexico is planned on the stricter US rules.
+ * @param {Array<string>} countries - Country of every location on the route
+ * @returns {string} US or CA
+ */
+export const getHosRuleSet = (countries) =>
+  countries.length > 0 && countries.every((country) => country === 'CA') ? 'CA' : 'US';
+
+/**
+ * Hours behind the wheel for a route
+ * @param {number} distanceMiles
+ * @param {number|null} durationHours - Driving time from the routing provider
+ * @returns {number}
+ */
+export const getDrivingHours = (distanceMiles, durationHours = null) => {
+  if (durationHours) {
+    return Math.max(durationHours, distanceMiles / getMaxSpeedMph());
+  }
+  return distanceMiles / getAverageSpeedMph();
+};
+
+/**
+ * Plan the driving shifts of a trip
+ * A solo driver takes a 10-hour reset after each shift; a team hands over to the
+ * rested driver instead. Either way the driver at the wheel takes the 30-minute
+ * break when the shift runs past the break threshold.
+ * @param {number} drivingHours
+ * @param {Object} rules - Entry of HOS_RULES
+ * @param {boolean} teamDrivers
+ * @returns {Object} { transit_hours, shifts, breaks, resets }
+ */
+export const planShifts = (drivingHours, rules, teamDrivers = false) => {
+  let remaining = drivingHours;
+  let elapsed = 0;
+  let shifts = 0;
+  let breaks = 0;
+  let resets = 0;
+
+  while (remaining > 0) {
+    const shift = Math.min(remaining, rules.max_driving_hours);
+    if (rules.break_after_hours !== null && shift > rules.break_after_hours) {
+      elapsed += rules.break_hours;
+      breaks += 1;
+    }
+    elapsed += shift;
+    remaining -= shift;
+    shifts += 1;
+
+    if (remaining > 0 && !teamDrivers) {
+      elapsed += rules.reset_hours;
+      resets += 1;
+    }
+  }
+
+  return { transit_hours: elapsed, shifts, breaks, resets };
+};
+
+/**
+ * Estimate transit time and the delivery date
+ * @param {Object} trip
+ * @param {number} trip.distanceMiles - Route distance
+ * @param {number|null} trip.durationHours - Driving time from the routing provider
+ * @param {string} trip.pickupDate - Pickup date (ISO 8601; only the date part is used)
+ * @param {Array<string>} trip.countries - Country of every location on the route
+ * @param {boolean} trip.teamDrivers - Two drivers alternating at the wheel
+ * @returns {Object} { hos_rules, team_drivers, driving_hours, transit_hours, transit_days, breaks, resets,
+ *   estimated_delivery_date (YYYY-MM-DD) }
+ */
+export const estimateTransit = ({ distanceMiles, durationHours = null, pickupDate, countries = [], teamDrivers = false }) => {
+  const ruleSet = getHosRuleSet(countries);
+  const drivingHours = getDrivingHours(distanceMiles, durationHours);
+  const plan = planShifts(drivingHours, HOS_RULES[ruleSet], teamDrivers);
+
+  // Dates are handled as UTC so the wall-clock arithmetic ignores the server's time zone
+  const pickup = Date.parse(`${String(pickupDate).slice(0, 10)}T00:00:00Z`);
+  const delivery = new Date(pickup + (getStartHour() + plan.transit_hours) * MS_PER_HOUR);
+  const deliveryDate = delivery.toISOString().slice(0, 10);
+
+  return {
+    hos_rules: ruleSet,
+    team_drivers: teamDrivers,
+    driving_hours: parseFloat(drivingHours.toFixed(2)),
+    transit_hours: parseFloat(plan.transit_hours.toFixed(2)),
+    transit_days: Math.round((Date.parse(`${deliveryDate}T00:00:00Z`) - pickup) / MS_PER_DAY),
+    breaks: plan.breaks,
+    resets: plan.resets,
+    estimated_delivery_date: deliveryDate,
+  };
+};
@@ -0,0 +1,118 @@
+import axios from 'axios';
+
+/**
+ * Valhalla routing provider
+ * Truck routing from a Valhalla server (VALHALLA_URL, a locally hosted instance by
+ * default). The vehicle's height, length, gross weight and hazmat flag are passed
+ * as truck costing options, so the route avoids low clearances, weight-restricted
+ * roads and hazmat-restricted tunnels.
+ */
+
+const DEFAULT_VALHALLA_URL = 'http://localhost:8002';
+
+const INCHES_TO_METERS = 0.0254;
+const LBS_TO_METRIC_TONS = 0.00045359237;
+
+/**
+ * Base URL of the Valhalla server (without a trailing slash)
+ * @returns {string}
+ */
+export const getValhallaUrl = () => (process.env.VALHALLA_URL || DEFAULT_VALHALLA_URL).replace(/\/+$/, '');
+
+/**
+ * Decode a Valhalla shape (encoded polyline, 6 digits of precision)
+ * @param {string} encoded
+ * @returns {Array<Array<number>>} [longitude, latitude] pairs
+ */
+const decodePolyline6 = (encoded) => {
+  const coordinates = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lon += nextValue();
+    coordinates.push([lon / 1e6, lat / 1e6]);
+  }
+
+  return coordinates;
+};
+
+/**
+ * Build Valhalla truck costing options from a vehicle
+ * @param {Object} vehicle - { height_in, length_in, weight_lbs, hazmat }
+ * @returns {Object}
+ */
+const buildTruckCosting = (vehicle) => ({
+  height: parseFloat((vehicle.height_in * INCHES_TO_METERS).toFixed(2)),
+  length: parseFloat((vehicle.length_in * INCHES_TO_METERS).toFixed(2)),
+  weight: parseFloat((vehicle.weight_lbs * LBS_TO_METRIC_TONS).toFixed(2)),
+  hazmat: Boolean(vehicle.hazmat),
+});
+
+/**
+ * Route through every point with Valhalla
+ * Uses truck costing when a vehicle is given, auto (car) costing otherwise.
+ * @param {Array<Object>} points - Route waypoints in order ({ latitude, longitude }), at least two
+ * @param {Object|null} vehicle - { height_in, length_in, weight_lbs, hazmat }
+ * @returns {Promise<Object>} { legs: distance of each leg in km, duration: driving time in seconds,
+ *   geometry: GeoJSON LineString, profile }
+ */
+export const routeWithValhalla = async (points, vehicle = null) => {
+  const costing = vehicle ? 'truck' : 'auto';
+
+  try {
+    const response = await axios.post(
+      `${getValhallaUrl()}/route`,
+      {
+        locations: points.map((point) => ({ lat: point.latitude, lon: point.longitude, type: 'break' })),
+        costing,
+        costing_options: vehicle ? { truck: buildTruckCosting(vehicle) } : undefined,
+        units: 'kilometers',
+        directions_type: 'none',
+      },
+      { timeout: 10000 }
+    );
+
+    if (!response.data || !response.data.trip || !response.data.trip.legs) {
+      throw new Error('No route found in API response');
+    }
+
+    const { legs } = response.data.trip;
+    return {
+      legs: legs.map((leg) => leg.summary.length),
+      duration: response.data.trip.summary.time,
+      geometry: {
+        type: 'LineString',
+        coordinates: legs.flatMap((leg, index) => {
+          const shape = decodePolyline6(leg.shape);
+          // Each leg starts where the previous one ended
+          return index === 0 ? shape : shape.slice(1);
+        }),
+      },
+      profile: costing,
+    };
+  } catch (error) {
+    if (error.response) {
+      const detail = error.response.data && error.response.data.error;
+      throw new Error(`Valhalla API error: ${error.response.status} - ${detail || error.response.statusText}`);
+    }
+    if (error.code === 'ECONNABORTED') {
+      throw new Error('Valhalla API timeout');
+    }
+    throw error;
+  }
+};
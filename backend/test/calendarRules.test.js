@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectCalendarRules } from '../src/services/calendarRules.js';
+
+/**
+ * Pickup-date calendar rules
+ */
+
+const rule = (code, fields) => ({
+  code,
+  country: null,
+  equipment_type: null,
+  season_start: null,
+  season_end: null,
+  max_days_notice: null,
+  percent: 0,
+  flat_amount: 0,
+  ...fields,
+});
+
+const WEEKEND = rule('weekend', { rule_type: 'weekend', percent: 10 });
+const HOLIDAY = rule('holiday', { rule_type: 'holiday', percent: 25 });
+const PEAK_REEFER = rule('produce', { rule_type: 'peak_season', equipment_type: 'reefer', season_start: '04-15', season_end: '07-15' });
+const HOLIDAY_PEAK = rule('holiday_peak', { rule_type: 'peak_season', season_start: '12-15', season_end: '01-10' });
+const SAME_DAY = rule('same_day', { rule_type: 'short_notice', max_days_notice: 0, flat_amount: 150 });
+const NEXT_DAY = rule('next_day', { rule_type: 'short_notice', max_days_notice: 1, flat_amount: 75 });
+const RULES = [WEEKEND, HOLIDAY, PEAK_REEFER, HOLIDAY_PEAK, SAME_DAY, NEXT_DAY];
+
+const pickup = (fields) => ({
+  pickupDate: '2026-11-09', // a Monday
+  today: '2026-11-01',
+  originCountry: 'US',
+  equipmentType: 'dry_van',
+  ...fields,
+});
+
+const codes = (rules) => rules.map((matched) => matched.code);
+
+describe('selectCalendarRules', () => {
+  it('matches nothing on a plain weekday with enough notice', () => {
+    assert.deepEqual(selectCalendarRules(RULES, pickup({})), []);
+  });
+
+  it('applies the weekend rule on a Saturday', () => {
+    const [matched] = selectCalendarRules(RULES, pickup({ pickupDate: '2026-11-07' }));
+    assert.equal(matched.code, 'weekend');
+    assert.equal(matched.reason, 'Saturday pickup');
+  });
+
+  it('applies the holiday rule only when a holiday is given', () => {
+    const matched = selectCalendarRules(RULES, pickup({ holiday: { name: 'Veterans Day' } }));
+    assert.deepEqual(codes(matched), ['holiday']);
+    assert.equal(matched[0].reason, 'Veterans Day (US)');
+  });
+
+  it('applies peak-season windows that wrap past the year end', () => {
+    assert.deepEqual(codes(selectCalendarRules(RULES, pickup({ pickupDate: '2027-01-05', today: '2026-12-01' }))), ['holiday_peak']);
+    assert.deepEqual(codes(selectCalendarRules(RULES, pickup({ pickupDate: '2026-12-25', today: '2026-12-01' }))), ['holiday_peak']);
+  });
+
+  it('limits rules to their equipment type and country', () => {
+    const spring = pickup({ pickupDate: '2027-05-03', today: '2027-04-01' });
+    assert.deepEqual(codes(selectCalendarRules(RULES, spring)), []);
+    assert.deepEqual(codes(selectCalendarRules(RULES, { ...spring, equipmentType: 'reefer' })), ['produce']);
+
+    const canadaOnly = [{ ...WEEKEND, country: 'CA' }];
+    assert.deepEqual(selectCalendarRules(canadaOnly, pickup({ pickupDate: '2026-11-07' })), []);
+    assert.equal(selectCalendarRules(canadaOnly, pickup({ pickupDate: '2026-11-07', originCountry: 'CA' })).length, 1);
+  });
+
+  it('applies only the most urgent short-notice rule', () => {
+    const today = selectCalendarRules(RULES, pickup({ today: '2026-11-09' }));
+    assert.deepEqual(codes(today), ['same_day']);
+    assert.equal(today[0].reason, 'Pickup today');
+
+    const tomorrow = selectCalendarRules(RULES, pickup({ today: '2026-11-08' }));
+    assert.deepEqual(codes(tomorrow), ['next_day']);
+    assert.equal(tomorrow[0].reason, 'Pickup in 1 day');
+  });
+});
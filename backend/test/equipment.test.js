@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkEquipmentFit } from '../src/services/equipment.js';
+
+/**
+ * Equipment fit checks behind recommendations
+ */
+
+const DRY_VAN = {
+  code: 'dry_van',
+  max_weight_lbs: 45000,
+  max_length_in: 636,
+  max_width_in: 98,
+  max_height_in: 108,
+  min_temp_f: null,
+  max_temp_f: null,
+  loading_methods: ['dock'],
+};
+
+const REEFER = {
+  ...DRY_VAN,
+  code: 'reefer',
+  max_weight_lbs: 43000,
+  min_temp_f: -20,
+  max_temp_f: 70,
+};
+
+describe('checkEquipmentFit', () => {
+  it('accepts a load within every limit', () => {
+    assert.deepEqual(
+      checkEquipmentFit(DRY_VAN, {
+        weightLbs: 20000,
+        dimensions: { length_in: 480, width_in: 96, height_in: 100 },
+        loadingMethod: 'dock',
+      }),
+      []
+    );
+  });
+
+  it('rejects a load over the weight limit', () => {
+    assert.deepEqual(checkEquipmentFit(DRY_VAN, { weightLbs: 48000 }), [
+      'Weight 48,000 lbs exceeds the 45,000 lbs limit',
+    ]);
+  });
+
+  it('turns the footprint so the longer side runs along the deck', () => {
+    // 96 in long and 480 in wide fits once turned
+    assert.deepEqual(checkEquipmentFit(DRY_VAN, { weightLbs: 1000, dimensions: { length_in: 96, width_in: 480 } }), []);
+    assert.deepEqual(
+      checkEquipmentFit(DRY_VAN, { weightLbs: 1000, dimensions: { length_in: 700, width_in: 100, height_in: 110 } }),
+      [
+        'Length 700 in exceeds the 636 in deck',
+        'Width 100 in exceeds the 98 in limit',
+        'Height 110 in exceeds the 108 in limit',
+      ]
+    );
+  });
+
+  it('requires temperature control for a temperature range', () => {
+    const frozen = { weightLbs: 1000, temperature: { min_f: -10, max_f: 0 } };
+    assert.deepEqual(checkEquipmentFit(DRY_VAN, frozen), ['Not temperature controlled']);
+    assert.deepEqual(checkEquipmentFit(REEFER, frozen), []);
+    assert.deepEqual(checkEquipmentFit(REEFER, { weightLbs: 1000, temperature: { min_f: -30 } }), [
+      'Holds -20°F to 70°F only',
+    ]);
+  });
+
+  it('rejects a loading method the equipment does not support', () => {
+    assert.deepEqual(checkEquipmentFit(DRY_VAN, { weightLbs: 1000, loadingMethod: 'top' }), [
+      'Does not support top (crane) loading',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateDistance, getRoutingProviders } from '../src/services/routing.js';
+import { routeWithFixture } from '../src/services/fixtureRouter.js';
+import { calculateQuoteAmount, DEFAULT_RATE_CARD } from '../src/services/quoteCalculator.js';
+import { buildRouteStops } from '../src/services/quoteStops.js';
+
+/**
+ * Routing and pricing against the fixture routing provider
+ * Runs without the database or the network.
+ */
+
+const TORONTO = { latitude: 43.6532, longitude: -79.3832 };
+const DETROIT = { latitude: 42.3314, longitude: -83.0458 };
+const CHICAGO = { latitude: 41.8781, longitude: -87.6298 };
+
+const ENV_KEYS = ['ROUTING_PROVIDERS', 'ROAD_DISTANCE_FACTOR', 'OSRM_URL'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+const useProviders = (providers) => {
+  process.env.ROUTING_PROVIDERS = providers;
+  delete process.env.ROAD_DISTANCE_FACTOR;
+};
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe('fixture routing provider', () => {
+  it('returns one leg per pair of points, with a straight-line geometry', async () => {
+    useProviders('fixture');
+    const route = await routeWithFixture([TORONTO, DETROIT, CHICAGO]);
+
+    assert.equal(route.legs.length, 2);
+    assert.equal(route.duration, null);
+    assert.equal(route.profile, 'driving');
+    assert.deepEqual(route.geometry, {
+      type: 'LineString',
+      coordinates: [
+        [TORONTO.longitude, TORONTO.latitude],
+        [DETROIT.longitude, DETROIT.latitude],
+        [CHICAGO.longitude, CHICAGO.latitude],
+      ],
+    });
+  });
+
+  it('applies the road-distance factor to the haversine distance', async () => {
+    useProviders('fixture');
+    const [defaultLeg] = (await routeWithFixture([TORONTO, CHICAGO])).legs;
+    process.env.ROAD_DISTANCE_FACTOR = '1.5';
+    const [widerLeg] = (await routeWithFixture([TORONTO, CHICAGO])).legs;
+
+    // Toronto to Chicago is about 702 km in a straight line (× 1.2 by default)
+    assert.ok(defaultLeg > 835 && defaultLeg < 850, `unexpected distance ${defaultLeg}`);
+    assert.ok(Math.abs(widerLeg / defaultLeg - 1.5 / 1.2) < 1e-9);
+  });
+
+  it('records a truck profile when a vehicle is given', async () => {
+    useProviders('fixture');
+    const route = await routeWithFixture([TORONTO, CHICAGO], {
+      equipment_type: 'dry_van',
+      height_in: 162,
+      length_in: 864,
+      weight_lbs: 80000,
+      hazmat: false,
+    });
+    assert.equal(route.profile, 'truck');
+  });
+});
+
+describe('routing provider chain', () => {
+  it('measures the route with the configured fixture provider', async () => {
+    useProviders('fixture');
+    const distance = await calculateDistance([TORONTO, DETROIT, CHICAGO]);
+
+    assert.equal(distance.source, 'fixture');
+    assert.equal(distance.duration_hours, null);
+    assert.equal(distance.legs.length, 2);
+    const legKm = distance.legs.reduce((sum, leg) => sum + leg.distance_km, 0);
+    assert.ok(Math.abs(distance.distance_km - legKm) < 0.02);
+    assert.ok(Math.abs(distance.distance_miles - distance.distance_km * 0.621371) < 0.01);
+  });
+
+  it('gives the same distance on every run', async () => {
+    useProviders('fixture');
+    const first = await calculateDistance([TORONTO, CHICAGO]);
+    const second = await calculateDistance([TORONTO, CHICAGO]);
+    assert.deepEqual(first, second);
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    useProviders('osrm,fixture');
+    process.env.OSRM_URL = 'http://127.0.0.1:9';
+    const distance = await calculateDistance([TORONTO, CHICAGO]);
+    assert.equal(distance.source, 'fixture');
+  });
+
+  it('rejects unknown provider names', () => {
+    useProviders('fixture,teleport');
+    assert.throws(() => getRoutingProviders(), /Unknown routing provider\(s\): teleport/);
+  });
+});
+
+describe('quote pricing on fixture distances', () => {
+  it('prices the linehaul from the routed miles', async () => {
+    useProviders('fixture');
+    const distance = await calculateDistance([TORONTO, CHICAGO]);
+    const pricing = calculateQuoteAmount(distance.distance_miles, 'dry_van', 5000);
+
+    const [base] = pricing.line_items;
+    assert.equal(base.type, 'base');
+    assert.equal(base.quantity, distance.distance_miles);
+    assert.equal(base.unit_price, DEFAULT_RATE_CARD.base_rate_per_mile);
+    assert.equal(pricing.linehaul_amount, Math.round(distance.distance_miles * DEFAULT_RATE_CARD.base_rate_per_mile * 100) / 100);
+    assert.equal(pricing.quote_amount, pricing.linehaul_amount);
+    assert.equal(pricing.currency, 'USD');
+  });
+
+  it('adds the equipment multiplier and a stop charge per intermediate stop', async () => {
+    useProviders('fixture');
+    const distance = await calculateDistance([TORONTO, DETROIT, CHICAGO]);
+    const dryVan = calculateQuoteAmount(distance.distance_miles, 'dry_van', 5000, { stopCount: 1 });
+    const reefer = calculateQuoteAmount(distance.distance_miles, 'reefer', 5000, { stopCount: 1 });
+
+    assert.equal(dryVan.stop_charge_amount, DEFAULT_RATE_CARD.stop_charge);
+    assert.ok(Math.abs(reefer.linehaul_amount - dryVan.linehaul_amount * DEFAULT_RATE_CARD.equipment_multipliers.reefer) < 0.02);
+
+    // The line items are the breakdown of the quote amount
+    const itemTotal = reefer.line_items.reduce((sum, item) => sum + item.amount, 0);
+    assert.ok(Math.abs(reefer.quote_amount - itemTotal) < 0.01);
+  });
+
+  it('stores the routed leg distances on the quote stops', async () => {
+    useProviders('fixture');
+    const distance = await calculateDistance([TORONTO, DETROIT, CHICAGO]);
+    const stops = buildRouteStops(
+      { city: 'Toronto', state_province: 'ON', country: 'CA', coords: TORONTO },
+      [{ type: 'drop', city: 'Detroit', state_province: 'MI', country: 'US', coords: DETROIT }],
+      { city: 'Chicago', state_province: 'IL', country: 'US', coords: CHICAGO },
+      distance.legs
+    );
+
+    assert.deepEqual(stops.map((stop) => stop.stop_type), ['pickup', 'drop', 'drop']);
+    assert.deepEqual(
+      stops.map((stop) => stop.leg_distance_miles),
+      [null, distance.legs[0].distance_miles, distance.legs[1].distance_miles]
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectLaneRate } from '../src/services/laneRates.js';
+
+/**
+ * Lane rate matching (most specific override wins)
+ */
+
+const TORONTO = { country: 'CA', state_province: 'ON', postal_code: 'M5V 2T6' };
+const MONTREAL = { country: 'CA', state_province: 'QC', postal_code: 'H3B 1A7' };
+
+let nextId = 1;
+const laneRate = (fields) => ({
+  id: nextId++,
+  origin_country: 'CA',
+  origin_state_province: null,
+  origin_postal_prefix: null,
+  destination_country: 'CA',
+  destination_state_province: null,
+  destination_postal_prefix: null,
+  equipment_type: null,
+  rate_per_mile: 2.5,
+  minimum_quote: null,
+  ...fields,
+});
+
+describe('selectLaneRate', () => {
+  it('returns null when no lane rate matches', () => {
+    const rates = [
+      laneRate({ destination_country: 'US' }),
+      laneRate({ origin_state_province: 'BC' }),
+      laneRate({ origin_postal_prefix: 'K1' }),
+    ];
+    assert.equal(selectLaneRate(rates, TORONTO, MONTREAL, 'dry_van'), null);
+  });
+
+  it('prefers a postal prefix over a state/province over a country', () => {
+    const country = laneRate({});
+    const province = laneRate({ origin_state_province: 'ON' });
+    const prefix = laneRate({ origin_state_province: 'ON', origin_postal_prefix: 'M5' });
+
+    assert.equal(selectLaneRate([country], TORONTO, MONTREAL, 'dry_van'), country);
+    assert.equal(selectLaneRate([country, province], TORONTO, MONTREAL, 'dry_van'), province);
+    assert.equal(selectLaneRate([prefix, country, province], TORONTO, MONTREAL, 'dry_van'), prefix);
+  });
+
+  it('adds up the specificity of both ends', () => {
+    const originOnly = laneRate({ origin_state_province: 'ON' });
+    const bothEnds = laneRate({ origin_state_province: 'ON', destination_state_province: 'QC' });
+    assert.equal(selectLaneRate([bothEnds, originOnly], TORONTO, MONTREAL, 'dry_van'), bothEnds);
+  });
+
+  it('matches the state/province case-insensitively and the postal code without spaces', () => {
+    const rate = laneRate({ origin_state_province: 'ON', origin_postal_prefix: 'M5V2' });
+    const origin = { ...TORONTO, state_province: ' on ', postal_code: 'm5v 2t6' };
+    assert.equal(selectLaneRate([rate], origin, MONTREAL, 'dry_van'), rate);
+  });
+
+  it('skips rates for other equipment and prefers an equipment-specific rate', () => {
+    const anyEquipment = laneRate({});
+    const reefer = laneRate({ equipment_type: 'reefer' });
+    const dryVan = laneRate({ equipment_type: 'dry_van' });
+
+    assert.equal(selectLaneRate([reefer, anyEquipment], TORONTO, MONTREAL, 'dry_van'), anyEquipment);
+    assert.equal(selectLaneRate([anyEquipment, dryVan, reefer], TORONTO, MONTREAL, 'dry_van'), dryVan);
+  });
+
+  it('breaks ties by the longer postal prefix, then the newest rate', () => {
+    const short = laneRate({ origin_postal_prefix: 'M' });
+    const long = laneRate({ origin_postal_prefix: 'M5V' });
+    assert.equal(selectLaneRate([long, short], TORONTO, MONTREAL, 'dry_van'), long);
+
+    const older = laneRate({});
+    const newer = laneRate({});
+    assert.equal(selectLaneRate([older, newer], TORONTO, MONTREAL, 'dry_van'), newer);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findChangedFields, requiresRepricing } from '../src/services/quoteChanges.js';
+
+/**
+ * Change detection for quote edits
+ */
+
+const STORED = {
+  origin: { city: 'Toronto', postal_code: 'M5V 2T6', state_province: 'ON', country: 'CA', address: null },
+  originCoords: { latitude: 43.6426, longitude: -79.3871 },
+  destination: { city: 'Chicago', postal_code: '60601', state_province: 'IL', country: 'US', address: null },
+  destCoords: { latitude: 41.8858, longitude: -87.6181 },
+  stops: [
+    {
+      type: 'drop',
+      city: 'Detroit',
+      postal_code: null,
+      state_province: 'MI',
+      country: 'US',
+      address: null,
+      coords: { latitude: 42.3314, longitude: -83.0458 },
+    },
+  ],
+  equipment_type: 'dry_van',
+  total_weight: 12000,
+  pickup_date: '2026-11-09',
+  currency: 'USD',
+  accessorials: [{ code: 'liftgate', quantity: null }, { code: 'detention', quantity: 2 }],
+  port_of_entry: 'AMB',
+  customer_reference: 'PO-1',
+  notes: null,
+};
+
+describe('findChangedFields', () => {
+  it('reports nothing for an edit that sends the stored values', () => {
+    const edit = {
+      origin: { city: ' toronto ', postal_code: 'm5v 2t6', state_province: 'on', country: 'CA' },
+      destination: { ...STORED.destination, coordinates: { latitude: '41.8858', longitude: '-87.6181' } },
+      stops: [{ type: 'drop', city: 'Detroit', state_province: 'MI', country: 'US' }],
+      equipment_type: 'dry_van',
+      total_weight: '12000',
+      pickup_date: '2026-11-09T00:00:00.000Z',
+      currency: 'usd',
+      accessorials: [{ code: 'detention', quantity: '2' }, { code: 'LIFTGATE' }],
+      port_of_entry: 'amb',
+      customer_reference: 'PO-1',
+      notes: '',
+    };
+    assert.deepEqual(findChangedFields(edit, STORED), []);
+  });
+
+  it('ignores fields left out of the edit', () => {
+    assert.deepEqual(findChangedFields({ notes: 'Call ahead' }, STORED), ['notes']);
+  });
+
+  it('reports a moved map pin and a reordered or retyped stop', () => {
+    const movedPin = { ...STORED.origin, coordinates: { latitude: 43.65, longitude: -79.3871 } };
+    assert.deepEqual(findChangedFields({ origin: movedPin }, STORED), ['origin']);
+    assert.deepEqual(findChangedFields({ stops: [{ ...STORED.stops[0], type: 'pickup' }] }, STORED), ['stops']);
+    assert.deepEqual(findChangedFields({ stops: [] }, STORED), ['stops']);
+  });
+
+  it('reports pricing fields that changed', () => {
+    const edit = {
+      total_weight: 15000,
+      accessorials: [{ code: 'liftgate' }, { code: 'detention', quantity: 3 }],
+      port_of_entry: 'BWB',
+    };
+    assert.deepEqual(findChangedFields(edit, STORED), ['total_weight', 'accessorials', 'port_of_entry']);
+  });
+});
+
+describe('requiresRepricing', () => {
+  it('reprices for route and pricing changes only', () => {
+    assert.equal(requiresRepricing(['customer_reference', 'notes']), false);
+    assert.equal(requiresRepricing(['notes', 'pickup_date']), true);
+    assert.equal(requiresRepricing(['stops']), true);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateValidUntil } from '../src/services/quoteExpiry.js';
+
+/**
+ * Quote validity windows
+ */
+
+const NOW = new Date('2026-11-09T15:30:00Z');
+const savedValidityDays = process.env.QUOTE_VALIDITY_DAYS;
+
+beforeEach(() => {
+  delete process.env.QUOTE_VALIDITY_DAYS;
+});
+
+afterEach(() => {
+  if (savedValidityDays === undefined) delete process.env.QUOTE_VALIDITY_DAYS;
+  else process.env.QUOTE_VALIDITY_DAYS = savedValidityDays;
+});
+
+describe('calculateValidUntil', () => {
+  it('keeps a quote valid for the validity window when the pickup is later', () => {
+    assert.equal(calculateValidUntil('2026-12-01', NOW).toISOString(), '2026-11-16T15:30:00.000Z');
+  });
+
+  it('keeps a quote valid through its pickup day when that comes first', () => {
+    assert.equal(calculateValidUntil('2026-11-11', NOW).toISOString(), '2026-11-12T00:00:00.000Z');
+    assert.equal(calculateValidUntil('2026-11-09', NOW).toISOString(), '2026-11-10T00:00:00.000Z');
+  });
+
+  it('uses only the date part of the pickup date', () => {
+    assert.equal(calculateValidUntil('2026-11-11T23:00:00-05:00', NOW).toISOString(), '2026-11-12T00:00:00.000Z');
+  });
+
+  it('reads the window from QUOTE_VALIDITY_DAYS', () => {
+    process.env.QUOTE_VALIDITY_DAYS = '1';
+    assert.equal(calculateValidUntil('2026-12-01', NOW).toISOString(), '2026-11-10T15:30:00.000Z');
+    process.env.QUOTE_VALIDITY_DAYS = '0';
+    assert.equal(calculateValidUntil('2026-12-01', NOW).toISOString(), '2026-11-16T15:30:00.000Z');
+  });
+
+  it('falls back to the validity window without a pickup date', () => {
+    assert.equal(calculateValidUntil(null, NOW).toISOString(), '2026-11-16T15:30:00.000Z');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSnapshot, diffSnapshots } from '../src/services/quoteRevisions.js';
+
+/**
+ * Quote revision snapshots and diffs
+ */
+
+const QUOTE = {
+  id: 7,
+  status: 'draft',
+  notes: 'Call ahead',
+  lane: 'Toronto, ON, CA → Chicago, IL, US',
+  equipment_type: 'dry_van',
+  total_weight: 12000,
+  quote_amount: 1850.25,
+  currency: 'CAD',
+  pickup_date: new Date(2026, 10, 9),
+  exchange_rate_date: new Date(2026, 10, 6),
+  origin_latitude: 43.6426,
+};
+
+const LINE_ITEMS = [
+  { type: 'base', code: null, amount: 1400 },
+  { type: 'accessorial', code: 'liftgate', amount: 75 },
+];
+
+const STOPS = [
+  { stop_type: 'pickup', city: 'Toronto', state_province: 'ON', country: 'CA' },
+  { stop_type: 'drop', city: 'Chicago', state_province: 'IL', country: 'US' },
+];
+
+describe('buildSnapshot', () => {
+  it('keeps the pricing fields, with DATE columns as days', () => {
+    const snapshot = buildSnapshot(QUOTE, LINE_ITEMS, STOPS);
+
+    assert.equal(snapshot.pickup_date, '2026-11-09');
+    assert.equal(snapshot.exchange_rate_date, '2026-11-06');
+    assert.equal(snapshot.quote_amount, 1850.25);
+    assert.deepEqual(snapshot.line_items, LINE_ITEMS);
+    assert.deepEqual(snapshot.stops, STOPS);
+    for (const field of ['status', 'notes', 'origin_latitude']) {
+      assert.ok(!(field in snapshot), `${field} should not be in the snapshot`);
+    }
+  });
+});
+
+describe('diffSnapshots', () => {
+  const previous = buildSnapshot(QUOTE, LINE_ITEMS, STOPS);
+
+  it('finds no changes between equal snapshots, whatever the key order', () => {
+    const reordered = Object.fromEntries(Object.entries(previous).reverse());
+    assert.deepEqual(diffSnapshots(previous, reordered), []);
+  });
+
+  it('lists changed fields, skipping the quote ID', () => {
+    const current = buildSnapshot({ ...QUOTE, id: 8, total_weight: 15000, quote_amount: 1990 }, LINE_ITEMS, STOPS);
+    assert.deepEqual(diffSnapshots(previous, current), [
+      { field: 'total_weight', from: 12000, to: 15000 },
+      { field: 'quote_amount', from: 1850.25, to: 1990 },
+    ]);
+  });
+
+  it('compares line items by type and code', () => {
+    const lineItems = [
+      { type: 'base', code: null, amount: 1500 },
+      { type: 'accessorial', code: 'tarp', amount: 50 },
+    ];
+    const current = buildSnapshot(QUOTE, lineItems, STOPS);
+    assert.deepEqual(diffSnapshots(previous, current), [
+      { field: 'line_items.base', from: 1400, to: 1500 },
+      { field: 'line_items.accessorial.liftgate', from: 75, to: null },
+      { field: 'line_items.accessorial.tarp', from: null, to: 50 },
+    ]);
+  });
+
+  it('compares the route as its list of stops', () => {
+    const detour = [STOPS[0], { stop_type: 'drop', city: 'Detroit', state_province: 'MI', country: 'US' }, STOPS[1]];
+    const [change] = diffSnapshots(previous, buildSnapshot(QUOTE, LINE_ITEMS, detour));
+    assert.deepEqual(change, {
+      field: 'stops',
+      from: ['pickup: Toronto, ON, CA', 'drop: Chicago, IL, US'],
+      to: ['pickup: Toronto, ON, CA', 'drop: Detroit, MI, US', 'drop: Chicago, IL, US'],
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { STATUS_TRANSITIONS, getAllowedTransitions } from '../src/services/quoteStatus.js';
+import { QUOTE_STATUSES } from '../src/middleware/validation.js';
+
+/**
+ * Quote status lifecycle
+ */
+
+describe('STATUS_TRANSITIONS', () => {
+  it('covers every quote status and only leads to known statuses', () => {
+    assert.deepEqual(Object.keys(STATUS_TRANSITIONS).sort(), [...QUOTE_STATUSES].sort());
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      for (const target of targets) assert.ok(QUOTE_STATUSES.includes(target), `unknown status ${target}`);
+    }
+  });
+
+  it('never leads back to draft', () => {
+    for (const [status, targets] of Object.entries(STATUS_TRANSITIONS)) {
+      assert.ok(!targets.includes('draft'), `${status} can move back to draft`);
+    }
+  });
+
+  it('only accepts or rejects a sent quote', () => {
+    const from = (target) => Object.keys(STATUS_TRANSITIONS).filter((status) => STATUS_TRANSITIONS[status].includes(target));
+    assert.deepEqual(from('accepted'), ['sent']);
+    assert.deepEqual(from('rejected'), ['sent']);
+    assert.deepEqual(from('cancelled'), ['draft', 'sent', 'accepted']);
+  });
+
+  it('keeps rejected, expired and cancelled quotes final', () => {
+    for (const status of ['rejected', 'expired', 'cancelled']) {
+      assert.deepEqual(getAllowedTransitions(status), []);
+    }
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  it('returns the next statuses, or none for an unknown status', () => {
+    assert.deepEqual(getAllowedTransitions('draft'), ['sent', 'expired', 'cancelled']);
+    assert.deepEqual(getAllowedTransitions('archived'), []);
+  });
+});
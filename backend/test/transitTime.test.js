@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTransit, planShifts } from '../src/services/transitTime.js';
+
+/**
+ * Hours-of-service transit planning
+ */
+
+const US_RULES = { max_driving_hours: 11, break_after_hours: 8, break_hours: 0.5, reset_hours: 10 };
+const CA_RULES = { max_driving_hours: 13, break_after_hours: null, break_hours: 0, reset_hours: 10 };
+
+const ENV_KEYS = ['TRANSIT_AVERAGE_SPEED_MPH', 'TRANSIT_MAX_SPEED_MPH', 'TRANSIT_START_HOUR'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe('planShifts', () => {
+  it('drives a short trip in one shift without a break', () => {
+    assert.deepEqual(planShifts(6, US_RULES), { transit_hours: 6, shifts: 1, breaks: 0, resets: 0 });
+  });
+
+  it('adds a break per long shift and a reset between solo shifts (US)', () => {
+    // 11 + 0.5 break, 10 reset, 11 + 0.5 break, 10 reset, 3
+    assert.deepEqual(planShifts(25, US_RULES), { transit_hours: 46, shifts: 3, breaks: 2, resets: 2 });
+  });
+
+  it('keeps a team truck moving without resets', () => {
+    assert.deepEqual(planShifts(25, US_RULES, true), { transit_hours: 26, shifts: 3, breaks: 2, resets: 0 });
+  });
+
+  it('allows 13-hour shifts without a break under Canadian rules', () => {
+    assert.deepEqual(planShifts(25, CA_RULES), { transit_hours: 35, shifts: 2, breaks: 0, resets: 1 });
+  });
+});
+
+describe('estimateTransit', () => {
+  it('plans a cross-border trip on US rules from the average speed', () => {
+    // 1,000 miles at 50 mph = 20 h: 11 + 0.5, 10 reset, 9 + 0.5 = 31 h from 08:00
+    const transit = estimateTransit({ distanceMiles: 1000, pickupDate: '2026-11-09', countries: ['CA', 'US'] });
+    assert.deepEqual(transit, {
+      hos_rules: 'US',
+      team_drivers: false,
+      driving_hours: 20,
+      transit_hours: 31,
+      transit_days: 1,
+      breaks: 2,
+      resets: 1,
+      estimated_delivery_date: '2026-11-10',
+    });
+  });
+
+  it('uses Canadian rules for a route entirely within Canada', () => {
+    const transit = estimateTransit({ distanceMiles: 1000, pickupDate: '2026-11-09', countries: ['CA', 'CA'] });
+    assert.equal(transit.hos_rules, 'CA');
+    assert.equal(transit.transit_hours, 30);
+  });
+
+  it('slows a routed driving time down to the truck speed limit', () => {
+    const fast = estimateTransit({ distanceMiles: 620, durationHours: 8, pickupDate: '2026-11-09', countries: ['US'] });
+    const slow = estimateTransit({ distanceMiles: 620, durationHours: 12, pickupDate: '2026-11-09', countries: ['US'] });
+    assert.equal(fast.driving_hours, 10);
+    assert.equal(slow.driving_hours, 12);
+  });
+
+  it('counts delivery days from the configured start hour', () => {
+    process.env.TRANSIT_START_HOUR = '20';
+    const transit = estimateTransit({ distanceMiles: 300, pickupDate: '2026-11-09', countries: ['US'] });
+    assert.equal(transit.estimated_delivery_date, '2026-11-10');
+    assert.equal(transit.transit_days, 1);
+  });
+});
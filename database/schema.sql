@@ -4,6 +4,556 @@
 -- Enable PostGIS extensions (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS postgis;
 CREATE EXTENSION IF NOT EXISTS postgis_topology;
+-- Trigram matching for location search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Rate cards (versioned pricing configuration)
+-- Each quote is stamped with the rate card that priced it, so pricing can change
+-- without a redeploy and historical quotes remain explainable.
+CREATE TABLE IF NOT EXISTS rate_cards (
+    id SERIAL PRIMARY KEY,
+    version INTEGER NOT NULL UNIQUE, -- monotonically increasing version number
+    name VARCHAR(100) NOT NULL,
+    base_rate_per_mile DECIMAL(10, 4) NOT NULL CHECK (base_rate_per_mile > 0),
+    minimum_quote DECIMAL(10, 2) NOT NULL CHECK (minimum_quote >= 0),
+    weight_threshold_lbs DECIMAL(10, 2) NOT NULL DEFAULT 10000 CHECK (weight_threshold_lbs >= 0),
+    weight_rate_per_100_lbs DECIMAL(10, 4) NOT NULL DEFAULT 0.10 CHECK (weight_rate_per_100_lbs >= 0),
+    stop_charge DECIMAL(10, 2) NOT NULL DEFAULT 75.00 CHECK (stop_charge >= 0), -- per intermediate pickup/drop
+    repositioning_rate_per_mile DECIMAL(10, 4) NOT NULL DEFAULT 0.50 CHECK (repositioning_rate_per_mile >= 0), -- per deadhead mile to/from market hubs
+    equipment_multipliers JSONB NOT NULL, -- e.g. {"dry_van": 1.0, "reefer": 1.2}
+    effective_from DATE NOT NULL,
+    effective_to DATE, -- NULL = open-ended
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_cards_effective ON rate_cards(effective_from, effective_to);
+
+-- Default rate card (matches the original hardcoded pricing)
+INSERT INTO rate_cards (
+    version, name, base_rate_per_mile, minimum_quote, weight_threshold_lbs, weight_rate_per_100_lbs,
+    equipment_multipliers, effective_from
+) VALUES (
+    1, 'Standard rates', 2.00, 100.00, 10000, 0.10,
+    '{"dry_van": 1.0, "reefer": 1.2, "flatbed": 1.15, "step_deck": 1.2, "hotshot": 0.85, "straight_truck": 0.95}',
+    '2024-01-01'
+) ON CONFLICT (version) DO NOTHING;
+
+-- Lane rate overrides
+-- Override the base rate for an origin/destination region pair. Regions are keyed by
+-- country, optionally narrowed by state/province and/or postal code prefix.
+-- NULL equipment_type applies to every equipment type.
+CREATE TABLE IF NOT EXISTS lane_rates (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100),
+    
+    -- Origin region
+    origin_country VARCHAR(2) NOT NULL,
+    origin_state_province VARCHAR(50),
+    origin_postal_prefix VARCHAR(10), -- stored uppercase without spaces (e.g. "M5", "900")
+    
+    -- Destination region
+    destination_country VARCHAR(2) NOT NULL,
+    destination_state_province VARCHAR(50),
+    destination_postal_prefix VARCHAR(10),
+    
+    equipment_type VARCHAR(20) CHECK (equipment_type IS NULL OR equipment_type IN ('dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck')),
+    rate_per_mile DECIMAL(10, 4) NOT NULL CHECK (rate_per_mile > 0),
+    minimum_quote DECIMAL(10, 2) CHECK (minimum_quote IS NULL OR minimum_quote >= 0), -- NULL = rate card minimum
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lane_rates_countries ON lane_rates(origin_country, destination_country) WHERE active;
+
+-- Fuel surcharge schedule
+-- Weekly average diesel price per country and the resulting surcharge in cents per mile.
+-- Seeded below from database/seed/fuel_surcharge_schedule.csv (see backend: npm run load:fuel).
+CREATE TABLE IF NOT EXISTS fuel_surcharge_schedule (
+    id SERIAL PRIMARY KEY,
+    country VARCHAR(2) NOT NULL, -- US, CA, MX
+    week_start DATE NOT NULL, -- first day the price applies
+    diesel_price DECIMAL(10, 3) NOT NULL, -- average retail diesel (USD/gal for US, CAD/L for CA, MXN/L for MX)
+    cents_per_mile DECIMAL(10, 2) NOT NULL CHECK (cents_per_mile >= 0), -- surcharge in USD cents per mile
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (country, week_start)
+);
+
+-- Default fuel schedule (same rows as database/seed/fuel_surcharge_schedule.csv; npm run load:fuel
+-- appends the weekly updates)
+INSERT INTO fuel_surcharge_schedule (country, week_start, diesel_price, cents_per_mile) VALUES
+    ('US', '2026-07-06', 3.742, 41.53),
+    ('US', '2026-07-13', 3.761, 41.85),
+    ('US', '2026-07-20', 3.755, 41.75),
+    ('US', '2026-07-27', 3.789, 42.32),
+    ('US', '2026-08-03', 3.812, 42.70),
+    ('US', '2026-08-10', 3.798, 42.47),
+    ('US', '2026-08-17', 3.776, 42.10),
+    ('US', '2026-08-24', 3.804, 42.57),
+    ('US', '2026-08-31', 3.831, 43.02),
+    ('US', '2026-09-07', 3.847, 43.28),
+    ('US', '2026-09-14', 3.829, 42.98),
+    ('US', '2026-09-21', 3.858, 43.47),
+    ('US', '2026-09-28', 3.872, 43.70),
+    ('US', '2026-10-05', 3.866, 43.60),
+    ('US', '2026-10-12', 3.881, 43.85),
+    ('CA', '2026-07-06', 1.689, 56.95),
+    ('CA', '2026-07-13', 1.694, 57.18),
+    ('CA', '2026-07-20', 1.702, 57.55),
+    ('CA', '2026-07-27', 1.711, 57.96),
+    ('CA', '2026-08-03', 1.708, 57.82),
+    ('CA', '2026-08-10', 1.716, 58.19),
+    ('CA', '2026-08-17', 1.723, 58.51),
+    ('CA', '2026-08-24', 1.719, 58.33),
+    ('CA', '2026-08-31', 1.731, 58.88),
+    ('CA', '2026-09-07', 1.742, 59.39),
+    ('CA', '2026-09-14', 1.738, 59.20),
+    ('CA', '2026-09-21', 1.747, 59.62),
+    ('CA', '2026-09-28', 1.755, 59.99),
+    ('CA', '2026-10-05', 1.751, 59.80),
+    ('CA', '2026-10-12', 1.760, 60.22),
+    ('MX', '2026-07-06', 25.84, 67.76),
+    ('MX', '2026-07-13', 25.86, 67.83),
+    ('MX', '2026-07-20', 25.88, 67.89),
+    ('MX', '2026-07-27', 25.91, 68.00),
+    ('MX', '2026-08-03', 25.93, 68.07),
+    ('MX', '2026-08-10', 25.92, 68.03),
+    ('MX', '2026-08-17', 25.95, 68.13),
+    ('MX', '2026-08-24', 25.97, 68.20),
+    ('MX', '2026-08-31', 25.99, 68.27),
+    ('MX', '2026-09-07', 26.02, 68.37),
+    ('MX', '2026-09-14', 26.04, 68.44),
+    ('MX', '2026-09-21', 26.03, 68.41),
+    ('MX', '2026-09-28', 26.06, 68.51),
+    ('MX', '2026-10-05', 26.08, 68.58),
+    ('MX', '2026-10-12', 26.11, 68.68)
+ON CONFLICT (country, week_start) DO NOTHING;
+
+-- Accessorial charge types
+-- Optional services added to a quote. Prices are configurable here; allowed_equipment_types
+-- restricts a service to specific equipment (NULL = any equipment).
+CREATE TABLE IF NOT EXISTS accessorial_types (
+    code VARCHAR(30) PRIMARY KEY, -- e.g. liftgate, detention
+    name VARCHAR(100) NOT NULL,
+    pricing_unit VARCHAR(20) NOT NULL CHECK (pricing_unit IN ('flat', 'per_hour', 'per_mile')),
+    price DECIMAL(10, 2) NOT NULL CHECK (price >= 0), -- USD per unit
+    allowed_equipment_types TEXT[], -- NULL = available for all equipment
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Default accessorial prices
+INSERT INTO accessorial_types (code, name, pricing_unit, price, allowed_equipment_types) VALUES
+    ('liftgate', 'Liftgate', 'flat', 75.00, NULL),
+    ('inside_delivery', 'Inside Delivery', 'flat', 100.00, NULL),
+    ('detention', 'Detention', 'per_hour', 75.00, NULL),
+    ('hazmat', 'Hazmat', 'flat', 150.00, NULL),
+    ('team_driver', 'Team Driver', 'per_mile', 0.35, NULL),
+    ('tarping', 'Tarping', 'flat', 100.00, ARRAY['flatbed', 'step_deck']),
+    ('appointment_delivery', 'Appointment Delivery', 'flat', 40.00, NULL)
+ON CONFLICT (code) DO NOTHING;
+
+-- Cross-border fees
+-- Flat fees added when origin and destination are in different countries.
+-- applies_to_country limits a fee to lanes touching that country (NULL = every cross-border lane).
+CREATE TABLE IF NOT EXISTS cross_border_fees (
+    code VARCHAR(30) PRIMARY KEY, -- e.g. customs_brokerage
+    name VARCHAR(100) NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0), -- USD per shipment
+    applies_to_country VARCHAR(2) CHECK (applies_to_country IN ('US', 'CA', 'MX')),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Default cross-border fees
+-- PAPS (US-bound) / PARS (Canada-bound) pre-arrival processing applies to US-Canada crossings;
+-- Mexico freight is transferred to a drayage carrier at the border.
+INSERT INTO cross_border_fees (code, name, amount, applies_to_country) VALUES
+    ('customs_brokerage', 'Customs Brokerage', 175.00, NULL),
+    ('customs_bond', 'Customs Bond', 65.00, NULL),
+    ('paps_pars', 'PAPS/PARS Handling', 35.00, 'CA'),
+    ('mexico_transfer', 'Mexico Transfer/Drayage', 275.00, 'MX')
+ON CONFLICT (code) DO NOTHING;
+
+-- Exchange rates
+-- Quotes are priced in USD and converted to the requested currency with the most recent
+-- rate effective on or before the quote date. Loaded from database/seed/exchange_rates.csv.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id SERIAL PRIMARY KEY,
+    currency VARCHAR(3) NOT NULL CHECK (currency IN ('CAD', 'MXN')),
+    rate_per_usd DECIMAL(12, 6) NOT NULL CHECK (rate_per_usd > 0), -- units of currency per 1 USD
+    effective_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (currency, effective_date)
+);
+
+-- Baseline rates so CAD/MXN quotes work before the first rate load
+INSERT INTO exchange_rates (currency, rate_per_usd, effective_date) VALUES
+    ('CAD', 1.350000, '2024-01-01'),
+    ('MXN', 17.000000, '2024-01-01')
+ON CONFLICT (currency, effective_date) DO NOTHING;
+
+-- Equipment capabilities
+-- Legal/practical capacity of each equipment type, used to recommend equipment
+-- for a shipment. Dimensions are usable deck/interior space in inches.
+CREATE TABLE IF NOT EXISTS equipment_types (
+    code VARCHAR(20) PRIMARY KEY CHECK (code IN ('dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck')),
+    name VARCHAR(100) NOT NULL,
+    max_weight_lbs INTEGER NOT NULL CHECK (max_weight_lbs > 0), -- legal payload
+    max_length_in INTEGER NOT NULL CHECK (max_length_in > 0),
+    max_width_in INTEGER NOT NULL CHECK (max_width_in > 0),
+    max_height_in INTEGER NOT NULL CHECK (max_height_in > 0), -- load height that stays under the legal overall height
+    min_temp_f INTEGER, -- temperature range it can hold (NULL = not temperature controlled)
+    max_temp_f INTEGER,
+    loading_methods TEXT[] NOT NULL, -- dock, side (forklift), top (crane), ground (liftgate/ramp)
+    -- Truck that pulls the equipment, passed to the routing provider for truck routing
+    vehicle_height_in INTEGER NOT NULL CHECK (vehicle_height_in > 0), -- overall height, loaded
+    vehicle_length_in INTEGER NOT NULL CHECK (vehicle_length_in > 0), -- overall length, tractor and trailer
+    vehicle_weight_lbs INTEGER NOT NULL CHECK (vehicle_weight_lbs > 0), -- gross vehicle weight at full payload
+    hazmat BOOLEAN NOT NULL DEFAULT FALSE, -- always routed as hazmat (quotes with the hazmat accessorial are too)
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((min_temp_f IS NULL) = (max_temp_f IS NULL) AND (min_temp_f IS NULL OR min_temp_f <= max_temp_f))
+);
+
+-- Default equipment capabilities
+INSERT INTO equipment_types (code, name, max_weight_lbs, max_length_in, max_width_in, max_height_in, min_temp_f, max_temp_f, loading_methods, vehicle_height_in, vehicle_length_in, vehicle_weight_lbs) VALUES
+    ('dry_van', 'Dry Van', 45000, 630, 98, 108, NULL, NULL, ARRAY['dock', 'ground'], 162, 840, 80000),
+    ('reefer', 'Reefer', 43500, 612, 96, 100, -20, 70, ARRAY['dock'], 162, 840, 80000),
+    ('flatbed', 'Flatbed', 48000, 636, 102, 102, NULL, NULL, ARRAY['side', 'top'], 162, 852, 80000),
+    ('step_deck', 'Step Deck', 46000, 636, 102, 120, NULL, NULL, ARRAY['side', 'top'], 162, 876, 80000),
+    ('hotshot', 'Hotshot', 16500, 480, 102, 120, NULL, NULL, ARRAY['side', 'top', 'ground'], 162, 660, 40000),
+    ('straight_truck', 'Straight Truck', 10000, 312, 96, 96, NULL, NULL, ARRAY['dock', 'ground'], 150, 420, 26000)
+ON CONFLICT (code) DO NOTHING;
+
+-- Calendar pricing rules
+-- Pickup-date premiums: weekend pickups, statutory holidays (of the origin country),
+-- peak-season windows (optionally per equipment type) and short-notice pickups.
+-- A rule adds percent of the linehaul and/or a flat amount (USD).
+CREATE TABLE IF NOT EXISTS calendar_rules (
+    code VARCHAR(30) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('weekend', 'holiday', 'peak_season', 'short_notice')),
+    country VARCHAR(2) CHECK (country IN ('US', 'CA', 'MX')), -- origin country the rule applies to (NULL = all)
+    equipment_type VARCHAR(20) CHECK (equipment_type IN ('dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck')), -- NULL = all equipment
+    season_start VARCHAR(5) CHECK (season_start ~ '^[0-9]{2}-[0-9]{2}$'), -- peak_season: first day as MM-DD
+    season_end VARCHAR(5) CHECK (season_end ~ '^[0-9]{2}-[0-9]{2}$'), -- peak_season: last day as MM-DD (may wrap past year end)
+    max_days_notice INTEGER CHECK (max_days_notice >= 0), -- short_notice: 0 = same day, 1 = next day
+    percent DECIMAL(6, 2) NOT NULL DEFAULT 0 CHECK (percent >= 0), -- percent of linehaul
+    flat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (flat_amount >= 0), -- USD
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (rule_type <> 'peak_season' OR (season_start IS NOT NULL AND season_end IS NOT NULL)),
+    CHECK (rule_type <> 'short_notice' OR max_days_notice IS NOT NULL)
+);
+
+-- Default calendar rules
+INSERT INTO calendar_rules (code, name, rule_type, country, equipment_type, season_start, season_end, max_days_notice, percent, flat_amount) VALUES
+    ('weekend_pickup', 'Weekend pickup', 'weekend', NULL, NULL, NULL, NULL, NULL, 10.00, 0),
+    ('us_holiday', 'US holiday pickup', 'holiday', 'US', NULL, NULL, NULL, NULL, 25.00, 0),
+    ('ca_holiday', 'Canadian holiday pickup', 'holiday', 'CA', NULL, NULL, NULL, NULL, 25.00, 0),
+    ('mx_holiday', 'Mexican holiday pickup', 'holiday', 'MX', NULL, NULL, NULL, NULL, 20.00, 0),
+    ('produce_season_reefer', 'Produce season (reefer)', 'peak_season', NULL, 'reefer', '04-15', '07-15', NULL, 15.00, 0),
+    ('year_end_peak', 'Year-end peak season', 'peak_season', NULL, NULL, '11-20', '12-31', NULL, 8.00, 0),
+    ('same_day_pickup', 'Same-day pickup', 'short_notice', NULL, NULL, NULL, NULL, 0, 0, 200.00),
+    ('next_day_pickup', 'Next-day pickup', 'short_notice', NULL, NULL, NULL, NULL, 1, 0, 100.00)
+ON CONFLICT (code) DO NOTHING;
+
+-- Statutory holidays (seeded below from database/seed/holidays.csv)
+CREATE TABLE IF NOT EXISTS holidays (
+    id SERIAL PRIMARY KEY,
+    country VARCHAR(2) NOT NULL CHECK (country IN ('US', 'CA', 'MX')),
+    holiday_date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    UNIQUE (country, holiday_date)
+);
+
+-- Default holiday calendar (same rows as database/seed/holidays.csv; npm run load:holidays
+-- refreshes them or loads later years)
+INSERT INTO holidays (country, holiday_date, name) VALUES
+    ('US', '2026-01-01', 'New Year''s Day'),
+    ('US', '2026-01-19', 'Martin Luther King Jr. Day'),
+    ('US', '2026-02-16', 'Presidents'' Day'),
+    ('US', '2026-05-25', 'Memorial Day'),
+    ('US', '2026-06-19', 'Juneteenth'),
+    ('US', '2026-07-04', 'Independence Day'),
+    ('US', '2026-09-07', 'Labor Day'),
+    ('US', '2026-10-12', 'Columbus Day'),
+    ('US', '2026-11-11', 'Veterans Day'),
+    ('US', '2026-11-26', 'Thanksgiving Day'),
+    ('US', '2026-12-25', 'Christmas Day'),
+    ('US', '2027-01-01', 'New Year''s Day'),
+    ('US', '2027-01-18', 'Martin Luther King Jr. Day'),
+    ('US', '2027-02-15', 'Presidents'' Day'),
+    ('US', '2027-05-31', 'Memorial Day'),
+    ('US', '2027-06-19', 'Juneteenth'),
+    ('US', '2027-07-04', 'Independence Day'),
+    ('US', '2027-09-06', 'Labor Day'),
+    ('US', '2027-10-11', 'Columbus Day'),
+    ('US', '2027-11-11', 'Veterans Day'),
+    ('US', '2027-11-25', 'Thanksgiving Day'),
+    ('US', '2027-12-25', 'Christmas Day'),
+    ('CA', '2026-01-01', 'New Year''s Day'),
+    ('CA', '2026-04-03', 'Good Friday'),
+    ('CA', '2026-05-18', 'Victoria Day'),
+    ('CA', '2026-07-01', 'Canada Day'),
+    ('CA', '2026-09-07', 'Labour Day'),
+    ('CA', '2026-09-30', 'National Day for Truth and Reconciliation'),
+    ('CA', '2026-10-12', 'Thanksgiving'),
+    ('CA', '2026-11-11', 'Remembrance Day'),
+    ('CA', '2026-12-25', 'Christmas Day'),
+    ('CA', '2026-12-26', 'Boxing Day'),
+    ('CA', '2027-01-01', 'New Year''s Day'),
+    ('CA', '2027-03-26', 'Good Friday'),
+    ('CA', '2027-05-24', 'Victoria Day'),
+    ('CA', '2027-07-01', 'Canada Day'),
+    ('CA', '2027-09-06', 'Labour Day'),
+    ('CA', '2027-09-30', 'National Day for Truth and Reconciliation'),
+    ('CA', '2027-10-11', 'Thanksgiving'),
+    ('CA', '2027-11-11', 'Remembrance Day'),
+    ('CA', '2027-12-25', 'Christmas Day'),
+    ('CA', '2027-12-26', 'Boxing Day'),
+    ('MX', '2026-01-01', 'Año Nuevo'),
+    ('MX', '2026-02-02', 'Día de la Constitución'),
+    ('MX', '2026-03-16', 'Natalicio de Benito Juárez'),
+    ('MX', '2026-05-01', 'Día del Trabajo'),
+    ('MX', '2026-09-16', 'Día de la Independencia'),
+    ('MX', '2026-11-16', 'Día de la Revolución'),
+    ('MX', '2026-12-25', 'Navidad'),
+    ('MX', '2027-01-01', 'Año Nuevo'),
+    ('MX', '2027-02-01', 'Día de la Constitución'),
+    ('MX', '2027-03-15', 'Natalicio de Benito Juárez'),
+    ('MX', '2027-05-01', 'Día del Trabajo'),
+    ('MX', '2027-09-16', 'Día de la Independencia'),
+    ('MX', '2027-11-15', 'Día de la Revolución'),
+    ('MX', '2027-12-25', 'Navidad')
+ON CONFLICT (country, holiday_date) DO NOTHING;
+
+-- Offline gazetteer: postal codes and their cities for US/CA/MX
+-- (seeded below from database/seed/gazetteer.csv), used by the gazetteer geocoding provider
+CREATE TABLE IF NOT EXISTS gazetteer (
+    id SERIAL PRIMARY KEY,
+    country VARCHAR(2) NOT NULL CHECK (country IN ('US', 'CA', 'MX')),
+    postal_code VARCHAR(10) NOT NULL, -- uppercase, no spaces (e.g. M5H2N2, 10001)
+    city VARCHAR(100) NOT NULL,
+    state_province VARCHAR(50),
+    coordinates GEOGRAPHY(POINT, 4326) NOT NULL,
+    population INTEGER, -- ranks cities that share a name
+    UNIQUE (country, postal_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gazetteer_city ON gazetteer(country, LOWER(city));
+CREATE INDEX IF NOT EXISTS idx_gazetteer_coordinates ON gazetteer USING GIST(coordinates);
+-- Location search: prefix and fuzzy matching on "city, state/province" and prefix matching on postal codes
+CREATE INDEX IF NOT EXISTS idx_gazetteer_label_trgm ON gazetteer USING GIN (LOWER(city || ', ' || COALESCE(state_province, '')) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_gazetteer_postal_code_prefix ON gazetteer(postal_code text_pattern_ops);
+
+-- Default gazetteer (same rows as database/seed/gazetteer.csv; npm run load:gazetteer
+-- refreshes them or loads a fuller postal code export)
+INSERT INTO gazetteer (country, postal_code, city, state_province, coordinates, population) VALUES
+    ('US', '10001', 'New York', 'NY', ST_SetSRID(ST_MakePoint(-73.9972, 40.7506), 4326)::geography, 8336817),
+    ('US', '90001', 'Los Angeles', 'CA', ST_SetSRID(ST_MakePoint(-118.2479, 33.9731), 4326)::geography, 3898747),
+    ('US', '60601', 'Chicago', 'IL', ST_SetSRID(ST_MakePoint(-87.6181, 41.8858), 4326)::geography, 2746388),
+    ('US', '77001', 'Houston', 'TX', ST_SetSRID(ST_MakePoint(-95.3698, 29.7604), 4326)::geography, 2304580),
+    ('US', '85001', 'Phoenix', 'AZ', ST_SetSRID(ST_MakePoint(-112.074, 33.4484), 4326)::geography, 1608139),
+    ('US', '19101', 'Philadelphia', 'PA', ST_SetSRID(ST_MakePoint(-75.1652, 39.9526), 4326)::geography, 1603797),
+    ('US', '78201', 'San Antonio', 'TX', ST_SetSRID(ST_MakePoint(-98.5254, 29.4689), 4326)::geography, 1434625),
+    ('US', '92101', 'San Diego', 'CA', ST_SetSRID(ST_MakePoint(-117.1628, 32.7194), 4326)::geography, 1386932),
+    ('US', '75201', 'Dallas', 'TX', ST_SetSRID(ST_MakePoint(-96.7994, 32.7876), 4326)::geography, 1304379),
+    ('US', '95101', 'San Jose', 'CA', ST_SetSRID(ST_MakePoint(-121.8863, 37.3382), 4326)::geography, 1013240),
+    ('US', '78701', 'Austin', 'TX', ST_SetSRID(ST_MakePoint(-97.7437, 30.2711), 4326)::geography, 961855),
+    ('US', '32201', 'Jacksonville', 'FL', ST_SetSRID(ST_MakePoint(-81.6557, 30.3322), 4326)::geography, 949611),
+    ('US', '94101', 'San Francisco', 'CA', ST_SetSRID(ST_MakePoint(-122.4194, 37.7749), 4326)::geography, 873965),
+    ('US', '43201', 'Columbus', 'OH', ST_SetSRID(ST_MakePoint(-83.0026, 39.9906), 4326)::geography, 905748),
+    ('US', '76101', 'Fort Worth', 'TX', ST_SetSRID(ST_MakePoint(-97.3308, 32.7555), 4326)::geography, 918915),
+    ('US', '28201', 'Charlotte', 'NC', ST_SetSRID(ST_MakePoint(-80.8431, 35.2271), 4326)::geography, 874579),
+    ('US', '98101', 'Seattle', 'WA', ST_SetSRID(ST_MakePoint(-122.3344, 47.6101), 4326)::geography, 737015),
+    ('US', '80201', 'Denver', 'CO', ST_SetSRID(ST_MakePoint(-104.9903, 39.7392), 4326)::geography, 715522),
+    ('US', '20001', 'Washington', 'DC', ST_SetSRID(ST_MakePoint(-77.0147, 38.9101), 4326)::geography, 689545),
+    ('US', '02101', 'Boston', 'MA', ST_SetSRID(ST_MakePoint(-71.0589, 42.3601), 4326)::geography, 675647),
+    ('US', '48201', 'Detroit', 'MI', ST_SetSRID(ST_MakePoint(-83.0606, 42.3475), 4326)::geography, 639111),
+    ('US', '37201', 'Nashville', 'TN', ST_SetSRID(ST_MakePoint(-86.7844, 36.1658), 4326)::geography, 689447),
+    ('US', '38101', 'Memphis', 'TN', ST_SetSRID(ST_MakePoint(-90.049, 35.1495), 4326)::geography, 633104),
+    ('US', '97201', 'Portland', 'OR', ST_SetSRID(ST_MakePoint(-122.6897, 45.5075), 4326)::geography, 652503),
+    ('US', '73101', 'Oklahoma City', 'OK', ST_SetSRID(ST_MakePoint(-97.5164, 35.4676), 4326)::geography, 681054),
+    ('US', '89101', 'Las Vegas', 'NV', ST_SetSRID(ST_MakePoint(-115.1222, 36.1722), 4326)::geography, 641903),
+    ('US', '40201', 'Louisville', 'KY', ST_SetSRID(ST_MakePoint(-85.7585, 38.2527), 4326)::geography, 633045),
+    ('US', '21201', 'Baltimore', 'MD', ST_SetSRID(ST_MakePoint(-76.6252, 39.2946), 4326)::geography, 585708),
+    ('US', '53201', 'Milwaukee', 'WI', ST_SetSRID(ST_MakePoint(-87.9065, 43.0389), 4326)::geography, 577222),
+    ('US', '87101', 'Albuquerque', 'NM', ST_SetSRID(ST_MakePoint(-106.6504, 35.0844), 4326)::geography, 564559),
+    ('US', '85701', 'Tucson', 'AZ', ST_SetSRID(ST_MakePoint(-110.9696, 32.2217), 4326)::geography, 542629),
+    ('US', '93701', 'Fresno', 'CA', ST_SetSRID(ST_MakePoint(-119.7877, 36.7496), 4326)::geography, 542107),
+    ('US', '95814', 'Sacramento', 'CA', ST_SetSRID(ST_MakePoint(-121.4922, 38.5804), 4326)::geography, 524943),
+    ('US', '64101', 'Kansas City', 'MO', ST_SetSRID(ST_MakePoint(-94.6003, 39.103), 4326)::geography, 508090),
+    ('US', '85201', 'Mesa', 'AZ', ST_SetSRID(ST_MakePoint(-111.847, 33.4352), 4326)::geography, 504258),
+    ('US', '30301', 'Atlanta', 'GA', ST_SetSRID(ST_MakePoint(-84.388, 33.749), 4326)::geography, 498715),
+    ('US', '68101', 'Omaha', 'NE', ST_SetSRID(ST_MakePoint(-95.9345, 41.2565), 4326)::geography, 486051),
+    ('US', '33101', 'Miami', 'FL', ST_SetSRID(ST_MakePoint(-80.1918, 25.7617), 4326)::geography, 442241),
+    ('US', '94601', 'Oakland', 'CA', ST_SetSRID(ST_MakePoint(-122.2207, 37.7799), 4326)::geography, 440646),
+    ('US', '55401', 'Minneapolis', 'MN', ST_SetSRID(ST_MakePoint(-93.269, 44.9839), 4326)::geography, 429954),
+    ('US', '74101', 'Tulsa', 'OK', ST_SetSRID(ST_MakePoint(-95.9928, 36.154), 4326)::geography, 413066),
+    ('US', '44101', 'Cleveland', 'OH', ST_SetSRID(ST_MakePoint(-81.6944, 41.4993), 4326)::geography, 372624),
+    ('US', '67201', 'Wichita', 'KS', ST_SetSRID(ST_MakePoint(-97.3301, 37.6872), 4326)::geography, 397532),
+    ('US', '76001', 'Arlington', 'TX', ST_SetSRID(ST_MakePoint(-97.1208, 32.6357), 4326)::geography, 394266),
+    ('CA', 'M5H2N2', 'Toronto', 'ON', ST_SetSRID(ST_MakePoint(-79.3832, 43.6511), 4326)::geography, 2794356),
+    ('CA', 'H2Y1A6', 'Montreal', 'QC', ST_SetSRID(ST_MakePoint(-73.5562, 45.5048), 4326)::geography, 1762949),
+    ('CA', 'V6B1A1', 'Vancouver', 'BC', ST_SetSRID(ST_MakePoint(-123.1207, 49.2827), 4326)::geography, 662248),
+    ('CA', 'T2P1J1', 'Calgary', 'AB', ST_SetSRID(ST_MakePoint(-114.0708, 51.0486), 4326)::geography, 1306784),
+    ('CA', 'T5J0N7', 'Edmonton', 'AB', ST_SetSRID(ST_MakePoint(-113.4938, 53.5461), 4326)::geography, 1010899),
+    ('CA', 'K1A0A6', 'Ottawa', 'ON', ST_SetSRID(ST_MakePoint(-75.7009, 45.4236), 4326)::geography, 1017449),
+    ('CA', 'R3B0T6', 'Winnipeg', 'MB', ST_SetSRID(ST_MakePoint(-97.1379, 49.8994), 4326)::geography, 749607),
+    ('CA', 'G1A1A1', 'Quebec City', 'QC', ST_SetSRID(ST_MakePoint(-71.2075, 46.8131), 4326)::geography, 549459),
+    ('CA', 'L8L4X3', 'Hamilton', 'ON', ST_SetSRID(ST_MakePoint(-79.8711, 43.2557), 4326)::geography, 569353),
+    ('CA', 'N2H1A1', 'Kitchener', 'ON', ST_SetSRID(ST_MakePoint(-80.4925, 43.4516), 4326)::geography, 256885),
+    ('CA', 'N6A1A1', 'London', 'ON', ST_SetSRID(ST_MakePoint(-81.2453, 42.9849), 4326)::geography, 422324),
+    ('CA', 'B3H1A1', 'Halifax', 'NS', ST_SetSRID(ST_MakePoint(-63.5752, 44.6488), 4326)::geography, 439819),
+    ('CA', 'V8W1A1', 'Victoria', 'BC', ST_SetSRID(ST_MakePoint(-123.3656, 48.4284), 4326)::geography, 91867),
+    ('CA', 'N9A1A1', 'Windsor', 'ON', ST_SetSRID(ST_MakePoint(-83.0364, 42.3149), 4326)::geography, 229660),
+    ('CA', 'S7K0A1', 'Saskatoon', 'SK', ST_SetSRID(ST_MakePoint(-106.67, 52.1332), 4326)::geography, 266141),
+    ('CA', 'S4P0A1', 'Regina', 'SK', ST_SetSRID(ST_MakePoint(-104.6189, 50.4452), 4326)::geography, 226404),
+    ('CA', 'A1A1A1', 'St. John''s', 'NL', ST_SetSRID(ST_MakePoint(-52.7126, 47.5615), 4326)::geography, 110525),
+    ('CA', 'L1H1A1', 'Oshawa', 'ON', ST_SetSRID(ST_MakePoint(-78.8658, 43.8971), 4326)::geography, 175383),
+    ('CA', 'L4M1A1', 'Barrie', 'ON', ST_SetSRID(ST_MakePoint(-79.6903, 44.3894), 4326)::geography, 147829),
+    ('CA', 'V2S1A1', 'Abbotsford', 'BC', ST_SetSRID(ST_MakePoint(-122.3045, 49.0504), 4326)::geography, 153524),
+    ('MX', '01000', 'Mexico City', 'CDMX', ST_SetSRID(ST_MakePoint(-99.1332, 19.4326), 4326)::geography, 9209944),
+    ('MX', '44100', 'Guadalajara', 'Jalisco', ST_SetSRID(ST_MakePoint(-103.3496, 20.6597), 4326)::geography, 1385629),
+    ('MX', '64000', 'Monterrey', 'Nuevo León', ST_SetSRID(ST_MakePoint(-100.3161, 25.6866), 4326)::geography, 1142994),
+    ('MX', '72000', 'Puebla', 'Puebla', ST_SetSRID(ST_MakePoint(-98.2063, 19.0414), 4326)::geography, 1692181),
+    ('MX', '22000', 'Tijuana', 'Baja California', ST_SetSRID(ST_MakePoint(-117.0382, 32.5149), 4326)::geography, 1922523),
+    ('MX', '37000', 'León', 'Guanajuato', ST_SetSRID(ST_MakePoint(-101.686, 21.125), 4326)::geography, 1721215),
+    ('MX', '32000', 'Juárez', 'Chihuahua', ST_SetSRID(ST_MakePoint(-106.4245, 31.6904), 4326)::geography, 1512450),
+    ('MX', '27000', 'Torreón', 'Coahuila', ST_SetSRID(ST_MakePoint(-103.4068, 25.5428), 4326)::geography, 720848),
+    ('MX', '76000', 'Querétaro', 'Querétaro', ST_SetSRID(ST_MakePoint(-100.3899, 20.5888), 4326)::geography, 1049777),
+    ('MX', '78000', 'San Luis Potosí', 'San Luis Potosí', ST_SetSRID(ST_MakePoint(-100.9855, 22.1565), 4326)::geography, 911908)
+ON CONFLICT (country, postal_code) DO NOTHING;
+
+-- Geocoding results cached by normalized location, so repeat lanes skip the providers.
+-- Key parts are lowercased/trimmed; missing postal code or state/province is ''.
+CREATE TABLE IF NOT EXISTS geocode_cache (
+    id SERIAL PRIMARY KEY,
+    country VARCHAR(2) NOT NULL,
+    postal_code VARCHAR(10) NOT NULL DEFAULT '', -- uppercase, no spaces
+    city VARCHAR(100) NOT NULL, -- lowercase
+    state_province VARCHAR(50) NOT NULL DEFAULT '', -- lowercase
+    address VARCHAR(255) NOT NULL DEFAULT '', -- street address, lowercase
+    coordinates GEOGRAPHY(POINT, 4326) NOT NULL,
+    accuracy VARCHAR(20) NOT NULL, -- address, street, postal_code, city_state or city_only
+    provider VARCHAR(20) NOT NULL, -- provider that resolved the location
+    display_name VARCHAR(255),
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL, -- entries past this are ignored and re-geocoded
+    UNIQUE (country, postal_code, city, state_province, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_expires_at ON geocode_cache(expires_at);
+
+-- Market hubs
+-- Freight markets where trucks find loads. Deadhead (empty) miles are estimated from
+-- the nearest active hub to the origin and from the destination to its nearest hub.
+CREATE TABLE IF NOT EXISTS market_hubs (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE, -- e.g. Chicago
+    country VARCHAR(2) NOT NULL CHECK (country IN ('US', 'CA', 'MX')),
+    state_province VARCHAR(50),
+    coordinates GEOGRAPHY(POINT, 4326) NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_hubs_coordinates ON market_hubs USING GIST(coordinates);
+
+-- Default market hubs
+INSERT INTO market_hubs (name, country, state_province, coordinates) VALUES
+    ('Chicago', 'US', 'IL', ST_SetSRID(ST_MakePoint(-87.6298, 41.8781), 4326)::geography),
+    ('Atlanta', 'US', 'GA', ST_SetSRID(ST_MakePoint(-84.388, 33.749), 4326)::geography),
+    ('Dallas', 'US', 'TX', ST_SetSRID(ST_MakePoint(-96.797, 32.7767), 4326)::geography),
+    ('Houston', 'US', 'TX', ST_SetSRID(ST_MakePoint(-95.3698, 29.7604), 4326)::geography),
+    ('Los Angeles', 'US', 'CA', ST_SetSRID(ST_MakePoint(-118.2437, 34.0522), 4326)::geography),
+    ('Memphis', 'US', 'TN', ST_SetSRID(ST_MakePoint(-90.049, 35.1495), 4326)::geography),
+    ('Columbus', 'US', 'OH', ST_SetSRID(ST_MakePoint(-82.9988, 39.9612), 4326)::geography),
+    ('Indianapolis', 'US', 'IN', ST_SetSRID(ST_MakePoint(-86.1581, 39.7684), 4326)::geography),
+    ('Newark', 'US', 'NJ', ST_SetSRID(ST_MakePoint(-74.1724, 40.7357), 4326)::geography),
+    ('Harrisburg', 'US', 'PA', ST_SetSRID(ST_MakePoint(-76.8867, 40.2732), 4326)::geography),
+    ('Charlotte', 'US', 'NC', ST_SetSRID(ST_MakePoint(-80.8431, 35.2271), 4326)::geography),
+    ('Jacksonville', 'US', 'FL', ST_SetSRID(ST_MakePoint(-81.6557, 30.3322), 4326)::geography),
+    ('Kansas City', 'US', 'MO', ST_SetSRID(ST_MakePoint(-94.5786, 39.0997), 4326)::geography),
+    ('Denver', 'US', 'CO', ST_SetSRID(ST_MakePoint(-104.9903, 39.7392), 4326)::geography),
+    ('Phoenix', 'US', 'AZ', ST_SetSRID(ST_MakePoint(-112.074, 33.4484), 4326)::geography),
+    ('Seattle', 'US', 'WA', ST_SetSRID(ST_MakePoint(-122.3321, 47.6062), 4326)::geography),
+    ('Laredo', 'US', 'TX', ST_SetSRID(ST_MakePoint(-99.4803, 27.5306), 4326)::geography),
+    ('Toronto', 'CA', 'ON', ST_SetSRID(ST_MakePoint(-79.3832, 43.6532), 4326)::geography),
+    ('Montreal', 'CA', 'QC', ST_SetSRID(ST_MakePoint(-73.5673, 45.5017), 4326)::geography),
+    ('Winnipeg', 'CA', 'MB', ST_SetSRID(ST_MakePoint(-97.1384, 49.8951), 4326)::geography),
+    ('Calgary', 'CA', 'AB', ST_SetSRID(ST_MakePoint(-114.0719, 51.0447), 4326)::geography),
+    ('Vancouver', 'CA', 'BC', ST_SetSRID(ST_MakePoint(-123.1207, 49.2827), 4326)::geography),
+    ('Monterrey', 'MX', 'NL', ST_SetSRID(ST_MakePoint(-100.3161, 25.6866), 4326)::geography),
+    ('Guadalajara', 'MX', 'JAL', ST_SetSRID(ST_MakePoint(-103.3496, 20.6597), 4326)::geography),
+    ('Mexico City', 'MX', 'CDMX', ST_SetSRID(ST_MakePoint(-99.1332, 19.4326), 4326)::geography)
+ON CONFLICT (name) DO NOTHING;
+
+-- Ports of entry
+-- US-Canada and US-Mexico border crossings. Cross-border lanes are routed through the
+-- requested port, or the one whose detour plus crossing fee costs least.
+CREATE TABLE IF NOT EXISTS ports_of_entry (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(30) NOT NULL UNIQUE, -- e.g. ambassador_bridge
+    name VARCHAR(100) NOT NULL, -- e.g. Detroit-Windsor (Ambassador Bridge)
+    border_country VARCHAR(2) NOT NULL CHECK (border_country IN ('CA', 'MX')), -- country across the border from the US
+    state_province VARCHAR(50), -- US state of the crossing
+    coordinates GEOGRAPHY(POINT, 4326) NOT NULL,
+    crossing_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (crossing_fee >= 0), -- USD per crossing (tolls, port charges)
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ports_of_entry_border_country ON ports_of_entry(border_country);
+
+-- Default ports of entry (commercial crossings; crossing_fee is the truck toll/port charge in USD)
+INSERT INTO ports_of_entry (code, name, border_country, state_province, coordinates, crossing_fee) VALUES
+    ('ambassador_bridge', 'Detroit-Windsor (Ambassador Bridge)', 'CA', 'MI', ST_SetSRID(ST_MakePoint(-83.0736, 42.3116), 4326)::geography, 32.00),
+    ('blue_water_bridge', 'Port Huron-Sarnia (Blue Water Bridge)', 'CA', 'MI', ST_SetSRID(ST_MakePoint(-82.4238, 42.9986), 4326)::geography, 24.00),
+    ('peace_bridge', 'Buffalo-Fort Erie (Peace Bridge)', 'CA', 'NY', ST_SetSRID(ST_MakePoint(-78.9056, 42.9069), 4326)::geography, 27.00),
+    ('lewiston_queenston', 'Lewiston-Queenston Bridge', 'CA', 'NY', ST_SetSRID(ST_MakePoint(-79.0441, 43.1530), 4326)::geography, 27.00),
+    ('thousand_islands', 'Alexandria Bay-Lansdowne (Thousand Islands Bridge)', 'CA', 'NY', ST_SetSRID(ST_MakePoint(-75.9824, 44.3470), 4326)::geography, 20.00),
+    ('champlain_lacolle', 'Champlain-Lacolle', 'CA', 'NY', ST_SetSRID(ST_MakePoint(-73.4514, 45.0086), 4326)::geography, 0.00),
+    ('pembina_emerson', 'Pembina-Emerson', 'CA', 'ND', ST_SetSRID(ST_MakePoint(-97.2386, 48.9996), 4326)::geography, 0.00),
+    ('sweetgrass_coutts', 'Sweetgrass-Coutts', 'CA', 'MT', ST_SetSRID(ST_MakePoint(-111.9597, 48.9982), 4326)::geography, 0.00),
+    ('blaine_pacific_highway', 'Blaine-Surrey (Pacific Highway)', 'CA', 'WA', ST_SetSRID(ST_MakePoint(-122.7354, 49.0024), 4326)::geography, 0.00),
+    ('laredo_world_trade_bridge', 'Laredo-Nuevo Laredo (World Trade Bridge)', 'MX', 'TX', ST_SetSRID(ST_MakePoint(-99.5332, 27.5994), 4326)::geography, 38.00),
+    ('laredo_colombia', 'Laredo-Colombia (Solidarity Bridge)', 'MX', 'TX', ST_SetSRID(ST_MakePoint(-99.7397, 27.7002), 4326)::geography, 32.00),
+    ('pharr_reynosa', 'Pharr-Reynosa International Bridge', 'MX', 'TX', ST_SetSRID(ST_MakePoint(-98.1814, 26.0653), 4326)::geography, 34.00),
+    ('el_paso_ysleta', 'El Paso-Ciudad Juarez (Ysleta-Zaragoza Bridge)', 'MX', 'TX', ST_SetSRID(ST_MakePoint(-106.3315, 31.6719), 4326)::geography, 30.00),
+    ('santa_teresa', 'Santa Teresa-San Jeronimo', 'MX', 'NM', ST_SetSRID(ST_MakePoint(-106.6767, 31.7838), 4326)::geography, 0.00),
+    ('nogales_mariposa', 'Nogales (Mariposa)', 'MX', 'AZ', ST_SetSRID(ST_MakePoint(-110.9677, 31.3337), 4326)::geography, 0.00),
+    ('otay_mesa', 'Otay Mesa-Tijuana', 'MX', 'CA', ST_SetSRID(ST_MakePoint(-116.9383, 32.5508), 4326)::geography, 0.00)
+ON CONFLICT (code) DO NOTHING;
 
 -- Create quotes table
 CREATE TABLE IF NOT EXISTS quotes (
@@ -18,8 +568,10 @@ CREATE TABLE IF NOT EXISTS quotes (
     -- Both options are valid - use postal code for precise quotes, skip for quick estimates
     origin_state_province VARCHAR(50),
     origin_country VARCHAR(2) NOT NULL, -- US, CA, MX
+    origin_address VARCHAR(255), -- OPTIONAL street address (e.g. the dock), geocoded to rooftop accuracy
     origin_coordinates GEOGRAPHY(POINT, 4326), -- PostGIS geography type for lat/lng
-    -- Coordinates are geocoded from postal code (if provided) or city center (fallback for approximate quotes)
+    -- Coordinates are geocoded from the street address or postal code (if provided), city center
+    -- (fallback for approximate quotes), or taken from a pin placed on the map
     -- Distance calculation uses these coordinates - postal code = more accurate, city center = approximate
     
     -- Destination location
@@ -31,8 +583,10 @@ CREATE TABLE IF NOT EXISTS quotes (
     -- Both options are valid - use postal code for precise quotes, skip for quick estimates
     destination_state_province VARCHAR(50),
     destination_country VARCHAR(2) NOT NULL, -- US, CA, MX
+    destination_address VARCHAR(255), -- OPTIONAL street address (e.g. the dock), geocoded to rooftop accuracy
     destination_coordinates GEOGRAPHY(POINT, 4326), -- PostGIS geography type for lat/lng
-    -- Coordinates are geocoded from postal code (if provided) or city center (fallback for approximate quotes)
+    -- Coordinates are geocoded from the street address or postal code (if provided), city center
+    -- (fallback for approximate quotes), or taken from a pin placed on the map
     -- Distance calculation uses these coordinates - postal code = more accurate, city center = approximate
     
     -- Lane (computed field - can be generated from origin + destination)
@@ -46,7 +600,63 @@ CREATE TABLE IF NOT EXISTS quotes (
     -- Calculated fields
     distance_miles DECIMAL(10, 2), -- distance in miles
     distance_kilometers DECIMAL(10, 2), -- distance in kilometers
-    quote_amount DECIMAL(10, 2) NOT NULL, -- calculated quote price
+    distance_source VARCHAR(20) CHECK (distance_source IN ('osrm', 'valhalla', 'great_circle', 'fixture')), -- routing provider that measured the distance
+    routing_profile VARCHAR(30), -- profile the provider routed with, e.g. truck or driving (NULL for great_circle)
+    route_geometry GEOGRAPHY(LINESTRING, 4326), -- route the distance was measured on (NULL when the provider has no road path)
+    transit_driving_hours DECIMAL(6, 2), -- hours behind the wheel
+    transit_hours DECIMAL(6, 2), -- pickup to delivery, including HOS breaks and resets
+    transit_days INTEGER, -- calendar days from pickup_date to estimated_delivery_date
+    estimated_delivery_date DATE, -- delivery date under hours-of-service rules
+    hos_rules VARCHAR(2) CHECK (hos_rules IN ('US', 'CA')), -- hours-of-service rules the transit time was planned on
+    team_drivers BOOLEAN NOT NULL DEFAULT FALSE, -- two drivers alternating (team driver accessorial)
+    linehaul_amount DECIMAL(10, 2), -- distance/equipment/weight charge (after minimum)
+    fuel_surcharge_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- fuel surcharge line item
+    fuel_surcharge_cents_per_mile DECIMAL(10, 2), -- schedule rate used (NULL = no schedule in effect)
+    accessorials_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- sum of accessorial line items
+    is_cross_border BOOLEAN NOT NULL DEFAULT FALSE, -- origin and destination countries differ
+    cross_border_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- sum of cross-border fee line items (including the port crossing fee)
+    port_of_entry_id INTEGER REFERENCES ports_of_entry(id) ON DELETE SET NULL, -- border crossing the route was forced through
+    port_of_entry_name VARCHAR(100), -- that port's name when quoted (NULL = domestic lane)
+    port_of_entry_coordinates GEOGRAPHY(POINT, 4326), -- that port's location when quoted
+    port_of_entry_selection VARCHAR(10) CHECK (port_of_entry_selection IN ('cheapest', 'requested')), -- how the port was chosen
+    stop_count INTEGER NOT NULL DEFAULT 0, -- intermediate pickups/drops between origin and destination
+    stop_charge_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- per-stop charges
+    deadhead_origin_miles DECIMAL(10, 2), -- empty miles from the nearest market hub to the origin
+    deadhead_origin_hub VARCHAR(100), -- that hub's name (NULL = no hubs configured)
+    deadhead_destination_miles DECIMAL(10, 2), -- empty miles from the destination to its nearest market hub
+    deadhead_destination_hub VARCHAR(100),
+    repositioning_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- deadhead miles × the rate card's repositioning rate
+    calendar_amount DECIMAL(10, 2) NOT NULL DEFAULT 0, -- sum of pickup-date premiums
+    calendar_rules JSONB NOT NULL DEFAULT '[]', -- calendar rules that fired ({ code, name, rule_type, reason })
+    quote_amount DECIMAL(10, 2) NOT NULL, -- calculated quote price (in currency)
+    
+    -- Currency (amounts above are in the quote currency)
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'CAD', 'MXN')),
+    exchange_rate DECIMAL(12, 6) NOT NULL DEFAULT 1, -- units of currency per 1 USD
+    exchange_rate_date DATE, -- effective date of the rate used (NULL for USD)
+    quote_amount_usd DECIMAL(10, 2), -- quote_amount converted back to USD for reporting
+    
+    -- Pricing provenance
+    rate_card_id INTEGER REFERENCES rate_cards(id), -- rate card that priced this quote
+    rate_card_version INTEGER, -- version of that rate card at pricing time
+    lane_rate_id INTEGER REFERENCES lane_rates(id) ON DELETE SET NULL, -- lane override used (if any)
+    pricing_rule VARCHAR(255), -- human-readable description of the rule that set the rate
+    
+    -- Status lifecycle (transitions are enforced by PATCH /api/quotes/:id/status)
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'expired', 'cancelled')),
+    status_reason TEXT, -- reason given with the latest status change (required for rejections)
+    status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    valid_until TIMESTAMP WITH TIME ZONE, -- QUOTE_VALIDITY_DAYS after creation or the pickup date, whichever is sooner
+    
+    -- Requotes
+    parent_quote_id INTEGER REFERENCES quotes(id) ON DELETE SET NULL, -- quote this one reprices (POST /api/quotes/:id/requote)
+    
+    -- Shipper details (never affect the price)
+    customer_reference VARCHAR(100), -- shipper's PO or load reference
+    notes TEXT,
+    
+    -- Soft delete (DELETE /api/quotes/:id; restored by POST /api/quotes/:id/restore)
+    deleted_at TIMESTAMP WITH TIME ZONE,
     
     -- Metadata
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -62,11 +672,72 @@ CREATE INDEX IF NOT EXISTS idx_quotes_equipment_type ON quotes(equipment_type);
 CREATE INDEX IF NOT EXISTS idx_quotes_pickup_date ON quotes(pickup_date);
 CREATE INDEX IF NOT EXISTS idx_quotes_created_at ON quotes(created_at);
 CREATE INDEX IF NOT EXISTS idx_quotes_lane ON quotes(lane);
+CREATE INDEX IF NOT EXISTS idx_quotes_rate_card_id ON quotes(rate_card_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_status ON quotes(status);
+CREATE INDEX IF NOT EXISTS idx_quotes_parent_quote_id ON quotes(parent_quote_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_open_valid_until ON quotes(valid_until) WHERE status IN ('draft', 'sent'); -- expiry job
+CREATE INDEX IF NOT EXISTS idx_quotes_live_created_at ON quotes(created_at) WHERE deleted_at IS NULL; -- quote list
 
 -- Spatial indexes for PostGIS geography columns (for distance queries)
 CREATE INDEX IF NOT EXISTS idx_quotes_origin_coordinates ON quotes USING GIST(origin_coordinates);
 CREATE INDEX IF NOT EXISTS idx_quotes_destination_coordinates ON quotes USING GIST(destination_coordinates);
 
+-- Itemized quote breakdown (server-authoritative; clients render these instead of re-deriving prices)
+CREATE TABLE IF NOT EXISTS quote_line_items (
+    id SERIAL PRIMARY KEY,
+    quote_id INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL, -- display order
+    type VARCHAR(30) NOT NULL CHECK (type IN ('base', 'equipment', 'weight', 'minimum', 'stop_charge', 'repositioning', 'fuel_surcharge', 'calendar_rule', 'accessorial', 'cross_border_fee')),
+    code VARCHAR(30), -- accessorial/fee code or equipment type
+    description VARCHAR(255) NOT NULL, -- e.g. "Base rate", "Liftgate"
+    detail VARCHAR(255), -- e.g. "1,234.50 miles × $2.00/mile"
+    quantity DECIMAL(12, 4), -- miles, hours, hundredweights or multiplier
+    unit VARCHAR(20), -- mile, hour, 100_lbs (NULL for flat amounts)
+    unit_price DECIMAL(10, 4),
+    amount DECIMAL(10, 2) NOT NULL, -- USD, may be negative (e.g. hotshot discount)
+    UNIQUE (quote_id, position)
+);
+
+-- Stops of a quote in route order (origin first, destination last)
+CREATE TABLE IF NOT EXISTS quote_stops (
+    id SERIAL PRIMARY KEY,
+    quote_id INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL, -- 1 = origin
+    stop_type VARCHAR(10) NOT NULL CHECK (stop_type IN ('pickup', 'drop')),
+    city VARCHAR(100) NOT NULL,
+    postal_code VARCHAR(20),
+    state_province VARCHAR(50),
+    country VARCHAR(2) NOT NULL CHECK (country IN ('CA', 'US', 'MX')),
+    address VARCHAR(255), -- optional street address
+    coordinates GEOGRAPHY(POINT, 4326),
+    leg_distance_miles DECIMAL(10, 2), -- distance from the previous stop (NULL for the origin)
+    UNIQUE (quote_id, sequence)
+);
+
+-- Status changes of a quote (the first row is the draft status it was created in)
+CREATE TABLE IF NOT EXISTS quote_status_history (
+    id SERIAL PRIMARY KEY,
+    quote_id INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+    from_status VARCHAR(20), -- NULL for the initial status
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_quote_id ON quote_status_history(quote_id, changed_at);
+
+-- Revisions of a quote's pricing inputs and outputs (rows are never updated)
+CREATE TABLE IF NOT EXISTS quote_revisions (
+    id SERIAL PRIMARY KEY,
+    quote_id INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL, -- 1 for the quote as created or requoted
+    source VARCHAR(20) NOT NULL CHECK (source IN ('created', 'requoted', 'edited')),
+    snapshot JSONB NOT NULL, -- quote fields, line items and stops as priced
+    changes JSONB NOT NULL DEFAULT '[]', -- [{ field, from, to }] against the previous revision
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (quote_id, revision_number)
+);
+
 -- Function to automatically update the lane field
 CREATE OR REPLACE FUNCTION update_lane()
 RETURNS TRIGGER AS $$
@@ -85,6 +756,63 @@ CREATE TRIGGER trigger_update_lane
     FOR EACH ROW
     EXECUTE FUNCTION update_lane();
 
+-- Function to keep updated_at current on tables without a dedicated trigger
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_rate_cards_updated_at
+    BEFORE UPDATE ON rate_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_lane_rates_updated_at
+    BEFORE UPDATE ON lane_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_accessorial_types_updated_at
+    BEFORE UPDATE ON accessorial_types
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_cross_border_fees_updated_at
+    BEFORE UPDATE ON cross_border_fees
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_calendar_rules_updated_at
+    BEFORE UPDATE ON calendar_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_equipment_types_updated_at
+    BEFORE UPDATE ON equipment_types
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER trigger_ports_of_entry_updated_at
+    BEFORE UPDATE ON ports_of_entry
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Function to keep quote revisions immutable
+CREATE OR REPLACE FUNCTION prevent_quote_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Quote revisions cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_quote_revisions_immutable
+    BEFORE UPDATE ON quote_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_quote_revision_update();
+
 -- Function to calculate distance between two points (in kilometers)
 CREATE OR REPLACE FUNCTION calculate_distance(
     origin_coord GEOGRAPHY,
@@ -123,7 +851,41 @@ COMMENT ON COLUMN quotes.destination_postal_code IS 'Postal/ZIP code - OPTIONAL.
 COMMENT ON COLUMN quotes.origin_coordinates IS 'PostGIS geography point for origin location (lat/lng). Geocoded from postal code (if provided, more accurate) or city center (if omitted, approximate). Supports both precise and approximate quote calculations.';
 COMMENT ON COLUMN quotes.destination_coordinates IS 'PostGIS geography point for destination location (lat/lng). Geocoded from postal code (if provided, more accurate) or city center (if omitted, approximate). Supports both precise and approximate quote calculations.';
 COMMENT ON COLUMN quotes.lane IS 'Computed field: origin → destination route';
-COMMENT ON COLUMN quotes.distance_miles IS 'Calculated distance in miles using PostGIS ST_Distance between origin_coordinates and destination_coordinates';
-COMMENT ON COLUMN quotes.distance_kilometers IS 'Calculated distance in kilometers using PostGIS ST_Distance between origin_coordinates and destination_coordinates';
+COMMENT ON COLUMN quotes.distance_miles IS 'Route distance in miles through every stop, measured by the provider in distance_source';
+COMMENT ON COLUMN quotes.distance_kilometers IS 'Route distance in kilometers through every stop, measured by the provider in distance_source';
+COMMENT ON COLUMN quotes.distance_source IS 'Routing provider that measured the distance: osrm (driving route), valhalla (truck route), great_circle (PostGIS straight line × ROAD_DISTANCE_FACTOR) or fixture (deterministic test distances)';
+COMMENT ON COLUMN quotes.routing_profile IS 'Profile the routing provider used: truck (routed for the equipment''s height, length, weight and hazmat status), driving/auto (car) or an OSRM_TRUCK_PROFILE name; NULL for great_circle';
+COMMENT ON COLUMN quotes.route_geometry IS 'Route the quote was priced on, as returned by the routing provider; served as GeoJSON by GET /api/quotes/:id/route. NULL for great_circle distances';
+COMMENT ON COLUMN quotes.origin_address IS 'Optional street address of the pickup (e.g. the dock); geocoded to rooftop accuracy when a provider matches it';
+COMMENT ON COLUMN quotes.destination_address IS 'Optional street address of the delivery; geocoded to rooftop accuracy when a provider matches it';
+COMMENT ON COLUMN quotes.estimated_delivery_date IS 'Estimated delivery date: driving time from the routing provider (or distance at TRANSIT_AVERAGE_SPEED_MPH) planned from pickup_date under the hos_rules driving limits, breaks and 10-hour resets';
+COMMENT ON COLUMN quotes.hos_rules IS 'Hours-of-service rules used for transit time: CA (13-hour driving limit) for routes entirely within Canada, US (11-hour limit, 30-minute break) otherwise';
+COMMENT ON COLUMN quotes.team_drivers IS 'TRUE when the team driver accessorial was requested; the drivers swap instead of taking 10-hour resets';
 COMMENT ON COLUMN quotes.equipment_type IS 'Type of equipment: dry van, reefer, or flatbed';
-
+COMMENT ON TABLE rate_cards IS 'Versioned pricing configuration. The card whose effective_from/effective_to range covers the quote date prices new quotes.';
+COMMENT ON COLUMN quotes.rate_card_version IS 'Version of the rate card used to price this quote';
+COMMENT ON TABLE lane_rates IS 'Per-lane rate overrides keyed by origin/destination region (country, state/province, postal prefix) and equipment type. The most specific match wins.';
+COMMENT ON COLUMN quotes.pricing_rule IS 'Which pricing rule set the per-mile rate (lane override or rate card base rate)';
+COMMENT ON COLUMN quotes.fuel_surcharge_amount IS 'Fuel surcharge: distance_miles × fuel_surcharge_cents_per_mile from the origin country schedule in effect on the quote date';
+COMMENT ON TABLE quote_line_items IS 'Itemized price breakdown of a quote as calculated by the server; amounts sum to quotes.quote_amount';
+COMMENT ON TABLE cross_border_fees IS 'Configurable fees charged when origin and destination countries differ (customs brokerage, bond, PAPS/PARS, Mexico transfer)';
+COMMENT ON COLUMN quotes.is_cross_border IS 'TRUE when origin_country differs from destination_country; cross-border fees are itemized in quote_line_items';
+COMMENT ON TABLE ports_of_entry IS 'US-Canada and US-Mexico border crossings with their crossing fees; cross-border routes are forced through the requested or cheapest active port';
+COMMENT ON COLUMN quotes.port_of_entry_selection IS 'requested = the shipper picked the port; cheapest = lowest detour (road-adjusted straight-line miles at the base rate) plus crossing fee';
+COMMENT ON TABLE exchange_rates IS 'Locally maintained USD exchange rates with effective dates, used to price quotes in CAD/MXN';
+COMMENT ON COLUMN quotes.currency IS 'Currency of quote_amount, the component amounts and quote_line_items; pricing configuration (rate cards, fees) is in USD';
+COMMENT ON TABLE calendar_rules IS 'Pickup-date pricing rules (weekend, holiday, peak season, short notice); every matching rule adds its percent of linehaul plus flat amount';
+COMMENT ON COLUMN quotes.calendar_rules IS 'Calendar rules that fired for the pickup date, with the reason each applied';
+COMMENT ON TABLE equipment_types IS 'Capacity, dimensions, temperature range and loading methods per equipment type, used for equipment recommendations, plus the vehicle attributes used for truck routing';
+COMMENT ON TABLE quote_stops IS 'Ordered pickups and drops of a quote, including origin and destination; the route passes through every stop';
+COMMENT ON COLUMN quotes.status IS 'Lifecycle status: draft → sent → accepted/rejected/expired; draft and sent quotes expire, and draft, sent and accepted quotes can be cancelled. Rejected, expired and cancelled are final';
+COMMENT ON COLUMN quotes.valid_until IS 'End of the quote''s validity: the sooner of QUOTE_VALIDITY_DAYS after creation and the end of pickup_date (UTC). The expiry job marks draft and sent quotes past it expired, and they cannot be accepted';
+COMMENT ON COLUMN quotes.deleted_at IS 'When the quote was soft-deleted: hidden from the quote list and lookups (unless include_deleted=true) until restored; NULL for live quotes';
+COMMENT ON COLUMN quotes.parent_quote_id IS 'Quote this one was requoted from: same stored locations, coordinates, weight, accessorials and currency, repriced with the rules in effect when requoted';
+COMMENT ON TABLE quote_status_history IS 'Every status a quote has been in, with the reason given for the change';
+COMMENT ON TABLE quote_revisions IS 'Immutable snapshots of a quote each time its pricing inputs or outputs change (created, requoted or repriced by an edit), with the changes from the previous revision; status, reference and notes changes are not revisions';
+COMMENT ON TABLE gazetteer IS 'Offline postal code and city coordinates for US/CA/MX; the gazetteer geocoding provider resolves locations here without calling an external service, and GET /api/locations/search suggests locations from it';
+COMMENT ON TABLE market_hubs IS 'Freight market hubs; deadhead miles are estimated from the nearest active hub to the origin and from the destination to its nearest hub';
+COMMENT ON COLUMN quotes.deadhead_origin_miles IS 'Road-adjusted straight-line miles from deadhead_origin_hub to the origin, charged at rate_cards.repositioning_rate_per_mile';
+COMMENT ON COLUMN quotes.deadhead_destination_miles IS 'Road-adjusted straight-line miles from the destination to deadhead_destination_hub, charged at rate_cards.repositioning_rate_per_mile';
+COMMENT ON TABLE geocode_cache IS 'Cached geocoding results keyed by normalized (postal_code, city, state_province, country); entries expire after GEOCODE_CACHE_TTL_DAYS';
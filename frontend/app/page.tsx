@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { QuoteRequest, QuoteResponse, quoteAPI } from '@/lib/api';
-import QuoteForm from '@/components/QuoteForm';
+import { Location, QuoteRequest, QuoteResponse, RequoteRequest, geocodeAPI, quoteAPI } from '@/lib/api';
+import QuoteForm, { LocationUpdate } from '@/components/QuoteForm';
 import QuoteResult from '@/components/QuoteResult';
 import QuoteHistory from '@/components/QuoteHistory';
 import { Truck, Globe, ArrowLeft } from 'lucide-react';
@@ -13,6 +13,10 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'quote' | 'history'>('quote');
   const [isFromHistory, setIsFromHistory] = useState(false);
+  // Request behind the current quote, so a dragged map pin can requote it
+  const [lastRequest, setLastRequest] = useState<QuoteRequest | null>(null);
+  const [locationUpdate, setLocationUpdate] = useState<LocationUpdate | null>(null);
+  const [isRequoting, setIsRequoting] = useState(false);
   const formContainerRef = useRef<HTMLDivElement>(null);
   const sidebarContainerRef = useRef<HTMLDivElement>(null);
 
@@ -49,6 +53,7 @@ export default function Home() {
     setIsLoading(true);
     setError(null);
     setCurrentQuote(null);
+    setLastRequest(quoteData);
 
     try {
       const response = await quoteAPI.create(quoteData);
@@ -80,6 +85,61 @@ export default function Home() {
     }
   };
 
+  // A map pin was dragged: look up what is there, fill in the form and requote
+  const handlePinMove = async (
+    field: LocationUpdate['field'],
+    coordinates: { latitude: number; longitude: number }
+  ) => {
+    if (!lastRequest) return;
+
+    let location: Location;
+    try {
+      const response = await geocodeAPI.reverse(coordinates.latitude, coordinates.longitude);
+      const place = response.data;
+      location = {
+        city: place.city,
+        postal_code: place.postal_code || undefined,
+        state_province: place.state_province || undefined,
+        country: place.country,
+        address: place.address || undefined,
+        coordinates,
+      };
+    } catch (err: unknown) {
+      const errorMessage = (err as { response?: { data?: { message?: string } } })?.response?.data?.message
+        || 'No location found where the pin was dropped.';
+      setError(errorMessage);
+      return;
+    }
+
+    setLocationUpdate({ field, location });
+    await handleSubmit({ ...lastRequest, [field]: location });
+  };
+
+  // Reprice the quote being viewed from history with today's rates
+  const handleRequote = async (request: RequoteRequest) => {
+    if (!currentQuote) return;
+
+    setIsRequoting(true);
+    setError(null);
+
+    try {
+      const response = await quoteAPI.requote(currentQuote.id, request);
+      setCurrentQuote(response.data);
+      // The requote has no form request behind it, so its pins stay fixed
+      setLastRequest(null);
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string; errors?: Array<{ msg: string }> } } };
+      const validationErrors = axiosError.response?.data?.errors;
+      setError(
+        validationErrors && validationErrors.length > 0
+          ? validationErrors.map((e) => e.msg).join(', ')
+          : axiosError.response?.data?.message || 'Failed to requote. Please try again.'
+      );
+    } finally {
+      setIsRequoting(false);
+    }
+  };
+
   const handleQuoteClick = async (quoteId: number) => {
     setIsLoading(true);
     setError(null);
@@ -134,7 +194,7 @@ export default function Home() {
                 </h2>
               </div>
               <div className="p-6">
-                <QuoteForm onSubmit={handleSubmit} isLoading={isLoading} />
+                <QuoteForm onSubmit={handleSubmit} isLoading={isLoading} locationUpdate={locationUpdate} />
                 
                 {error && (
                   <div className="mt-6 bg-red-50 border-l-4 border-red-500 p-4">
@@ -212,6 +272,10 @@ export default function Home() {
                           <QuoteResult
                             quote={currentQuote}
                             geocodingAccuracy={currentQuote.geocoding_accuracy}
+                            onPinMove={!isFromHistory && lastRequest ? handlePinMove : undefined}
+                            priceDelta={currentQuote.price_delta}
+                            onRequote={isFromHistory ? handleRequote : undefined}
+                            isRequoting={isRequoting}
                           />
                         </div>
                       ) : (
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import {
+  Currency,
+  EquipmentRecommendation,
+  EquipmentType,
+  Location,
+  LoadingMethod,
+  equipmentAPI,
+} from '@/lib/api';
+import { formatCurrency } from '@/lib/format';
+
+interface EquipmentSuggestionProps {
+  origin: Location;
+  destination: Location;
+  weightLbs?: number;
+  pickupDate?: string;
+  currency: Currency;
+  // Requested port of entry code (none = cheapest crossing)
+  portOfEntry?: string;
+  selectedEquipment: EquipmentType;
+  onSelect: (equipmentType: EquipmentType) => void;
+}
+
+const loadingMethods: { id: LoadingMethod; name: string }[] = [
+  { id: 'dock', name: 'Dock' },
+  { id: 'side', name: 'Side (forklift)' },
+  { id: 'top', name: 'Top (crane)' },
+  { id: 'ground', name: 'Ground (no dock)' },
+];
+
+// Parse an optional numeric input ('' -> undefined)
+const parseOptional = (value: string): number | undefined => (value.trim() === '' ? undefined : parseFloat(value));
+
+export default function EquipmentSuggestion({
+  origin,
+  destination,
+  weightLbs,
+  pickupDate,
+  currency,
+  portOfEntry,
+  selectedEquipment,
+  onSelect,
+}: EquipmentSuggestionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dimensions, setDimensions] = useState({ length_in: '', width_in: '', height_in: '' });
+  const [temperatureControlled, setTemperatureControlled] = useState(false);
+  const [temperature, setTemperature] = useState({ min_f: '', max_f: '' });
+  const [loadingMethod, setLoadingMethod] = useState<LoadingMethod | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recommendations, setRecommendations] = useState<EquipmentRecommendation[] | null>(null);
+  const [cheapest, setCheapest] = useState<EquipmentType | null>(null);
+  const [resultCurrency, setResultCurrency] = useState<Currency>(currency);
+
+  const handleSuggest = async () => {
+    if (!origin.city.trim() || !destination.city.trim() || !weightLbs || !pickupDate) {
+      setError('Enter the origin, destination, total weight and pickup date first');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await equipmentAPI.recommend({
+        origin,
+        destination,
+        total_weight: weightLbs,
+        pickup_date: pickupDate,
+        currency,
+        dimensions: {
+          length_in: parseOptional(dimensions.length_in),
+          width_in: parseOptional(dimensions.width_in),
+          height_in: parseOptional(dimensions.height_in),
+        },
+        temperature: temperatureControlled
+          ? { min_f: parseOptional(temperature.min_f), max_f: parseOptional(temperature.max_f) }
+          : undefined,
+        loading_method: loadingMethod || undefined,
+        port_of_entry: portOfEntry,
+      });
+      setRecommendations(response.data.recommendations);
+      setCheapest(response.data.cheapest_equipment_type);
+      setResultCurrency(response.data.currency);
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string; errors?: Array<{ msg: string }> } } };
+      const validationErrors = axiosError.response?.data?.errors;
+      setError(
+        validationErrors && validationErrors.length > 0
+          ? validationErrors.map((e) => e.msg).join(', ')
+          : axiosError.response?.data?.message || 'Failed to suggest equipment. Please try again.'
+      );
+      setRecommendations(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]';
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="text-sm font-medium text-[#A67C52] hover:text-[#8C6B47] transition-colors"
+      >
+        Not sure? Suggest equipment
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-[#F7F3EF] p-4 rounded-lg border border-[#C8A27A] space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-bold text-[#4E3B31]">Suggest Equipment</div>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-xs font-medium text-[#A67C52] hover:text-[#8C6B47]"
+        >
+          Close
+        </button>
+      </div>
+
+      {/* Load dimensions */}
+      <div>
+        <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Dimensions (inches)</label>
+        <div className="grid grid-cols-3 gap-2">
+          {(['length_in', 'width_in', 'height_in'] as const).map((key) => (
+            <input
+              key={key}
+              type="number"
+              min="0"
+              step="1"
+              value={dimensions[key]}
+              onChange={(e) => setDimensions((prev) => ({ ...prev, [key]: e.target.value }))}
+              placeholder={key === 'length_in' ? 'Length' : key === 'width_in' ? 'Width' : 'Height'}
+              className={inputClassName}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Temperature */}
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-[#4E3B31] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={temperatureControlled}
+            onChange={() => setTemperatureControlled((prev) => !prev)}
+            className="accent-[#A67C52]"
+          />
+          Temperature controlled
+        </label>
+        {temperatureControlled && (
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <input
+              type="number"
+              value={temperature.min_f}
+              onChange={(e) => setTemperature((prev) => ({ ...prev, min_f: e.target.value }))}
+              placeholder="Min °F"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              value={temperature.max_f}
+              onChange={(e) => setTemperature((prev) => ({ ...prev, max_f: e.target.value }))}
+              placeholder="Max °F"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Loading method */}
+      <div>
+        <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Loading Method</label>
+        <div className="flex flex-wrap gap-2">
+          {loadingMethods.map((method) => (
+            <button
+              key={method.id}
+              type="button"
+              onClick={() => setLoadingMethod((prev) => (prev === method.id ? '' : method.id))}
+              className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-colors ${
+                loadingMethod === method.id
+                  ? 'border-[#A67C52] bg-[#A67C52] text-white'
+                  : 'border-[#C8A27A] bg-white text-[#4E3B31] hover:border-[#A67C52]'
+              }`}
+            >
+              {method.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSuggest}
+        disabled={isLoading}
+        className="w-full bg-[#4E3B31] text-white py-2 px-4 rounded-md font-medium text-sm hover:bg-[#3E2F27] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isLoading ? 'Checking equipment...' : 'Suggest equipment'}
+      </button>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {/* Results */}
+      {recommendations && (
+        <div className="space-y-2">
+          {recommendations.length > 0 && !cheapest && (
+            <p className="text-xs text-red-600">No equipment can carry this load as described.</p>
+          )}
+          {recommendations.map((recommendation) => {
+            const isCheapest = recommendation.equipment_type === cheapest;
+            const isSelected = recommendation.equipment_type === selectedEquipment;
+            return (
+              <div
+                key={recommendation.equipment_type}
+                className={`flex items-center justify-between gap-3 p-3 rounded-md border ${
+                  !recommendation.viable
+                    ? 'border-[#EBD9C3] bg-white opacity-60'
+                    : isCheapest
+                      ? 'border-[#A67C52] bg-[#EBD9C3]'
+                      : 'border-[#C8A27A] bg-white'
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Image
+                    src={`/icons/${recommendation.equipment_type}.png`}
+                    alt={recommendation.name}
+                    width={28}
+                    height={28}
+                    className="object-contain shrink-0"
+                    unoptimized
+                  />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-[#4E3B31]">{recommendation.name}</span>
+                      {isCheapest && (
+                        <span className="text-[10px] font-medium text-white bg-[#4E3B31] px-1.5 py-0.5 rounded">
+                          Cheapest
+                        </span>
+                      )}
+                    </div>
+                    {!recommendation.viable && (
+                      <div className="text-xs text-[#4E3B31] opacity-80">{recommendation.reasons.join('; ')}</div>
+                    )}
+                    {recommendation.viable && recommendation.distance_miles !== null && (
+                      <div className="text-xs text-[#A67C52]">
+                        {recommendation.distance_miles.toLocaleString('en-US', { maximumFractionDigits: 0 })} mi
+                        {recommendation.routing_profile ? ` · ${recommendation.routing_profile} route` : ''}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {recommendation.viable && recommendation.quote_amount !== null && (
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className="text-sm font-semibold text-[#4E3B31]">
+                      {formatCurrency(recommendation.quote_amount, resultCurrency)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(recommendation.equipment_type)}
+                      disabled={isSelected}
+                      className="px-3 py-1 rounded-md text-xs font-medium bg-[#A67C52] text-white hover:bg-[#8C6B47] disabled:bg-[#C8A27A] disabled:cursor-default transition-colors"
+                    >
+                      {isSelected ? 'Selected' : 'Use'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QuoteStatus } from '@/lib/api';
+import { formatTimeLeft } from '@/lib/format';
+import { format } from 'date-fns';
+
+interface ExpiryCountdownProps {
+  validUntil?: string | null;
+  status: QuoteStatus;
+  className?: string;
+}
+
+// Refresh the countdown every minute
+const TICK_MS = 60 * 1000;
+// Highlight quotes expiring sooner than this
+const EXPIRING_SOON_MS = 24 * 60 * 60 * 1000;
+
+export default function ExpiryCountdown({ validUntil, status, className = '' }: ExpiryCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Only open quotes can still expire
+  if (!validUntil || (status !== 'draft' && status !== 'sent')) return null;
+
+  const timeLeft = formatTimeLeft(validUntil, now);
+  const expiringSoon = new Date(validUntil).getTime() - now < EXPIRING_SOON_MS;
+
+  return (
+    <span
+      title={`Valid until ${format(new Date(validUntil), 'MMM dd, yyyy HH:mm')}`}
+      className={`text-xs ${timeLeft && !expiringSoon ? 'text-[#A67C52]' : 'text-red-600 font-medium'} ${className}`}
+    >
+      {timeLeft ? `Expires in ${timeLeft}` : 'Validity ended'}
+    </span>
+  );
+}
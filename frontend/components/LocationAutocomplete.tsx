@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { Location, LocationSuggestion, locationAPI } from '@/lib/api';
+
+interface LocationAutocompleteProps {
+  value: string;
+  // Only suggest locations in this country
+  country: Location['country'];
+  onChange: (value: string) => void;
+  onSelect: (location: LocationSuggestion) => void;
+  placeholder?: string;
+  hasError?: boolean;
+  className?: string;
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_SEARCH_LENGTH = 2;
+
+const formatLocationName = (location: LocationSuggestion): string =>
+  `${location.city}${location.state_province ? `, ${location.state_province}` : ''}`;
+
+export default function LocationAutocomplete({
+  value,
+  country,
+  onChange,
+  onSelect,
+  placeholder = 'City name',
+  hasError = false,
+  className = '',
+}: LocationAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Text to search for; only set by typing, so selecting a suggestion does not search again
+  const [searchText, setSearchText] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const listId = useId();
+
+  // Search as the user types (debounced; stale requests are aborted)
+  useEffect(() => {
+    const text = searchText.trim();
+    if (text.length < MIN_SEARCH_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await locationAPI.search(text, country, controller.signal);
+        setSuggestions(response.data);
+        setActiveIndex(-1);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Location search failed:', error);
+          setSuggestions([]);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchText, country]);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Keep the highlighted suggestion in view
+  useEffect(() => {
+    if (activeIndex < 0 || !listRef.current) return;
+    const item = listRef.current.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const selectSuggestion = (suggestion: LocationSuggestion) => {
+    onSelect(suggestion);
+    setSearchText('');
+    setSuggestions([]);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) {
+      if (e.key === 'ArrowDown' && suggestions.length > 0) {
+        e.preventDefault();
+        setIsOpen(true);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+        break;
+      case 'Enter':
+        // Only take over Enter when a suggestion is highlighted (otherwise the form submits)
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+      case 'Tab':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && suggestions.length > 0;
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setSearchText(e.target.value);
+          // Clear suggestions for text too short to search
+          if (e.target.value.trim().length < MIN_SEARCH_LENGTH) {
+            setSuggestions([]);
+          }
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        className={`w-full px-3 py-2.5 rounded-md border bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52] ${
+          hasError ? 'border-red-300' : 'border-[#C8A27A]'
+        }`}
+      />
+      {showDropdown && (
+        <ul
+          ref={listRef}
+          id={listId}
+          role="listbox"
+          className="absolute z-20 w-full mt-1 bg-white border border-[#C8A27A] rounded-md shadow-lg max-h-60 overflow-auto"
+        >
+          {suggestions.map((suggestion, idx) => (
+            <li
+              key={`${suggestion.country}-${suggestion.postal_code}`}
+              id={`${listId}-${idx}`}
+              role="option"
+              aria-selected={idx === activeIndex}
+              // mousedown keeps focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(idx)}
+              className={`px-3 py-2 cursor-pointer border-b border-[#EBD9C3] last:border-b-0 text-sm ${
+                idx === activeIndex ? 'bg-[#F7F3EF]' : ''
+              }`}
+            >
+              <div className="font-medium text-[#4E3B31]">{formatLocationName(suggestion)}</div>
+              <div className="text-xs text-[#A67C52]">{suggestion.postal_code}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { format as formatDate } from 'date-fns';
+import { EquipmentType, Quote, QuoteUpdateRequest, QuoteUpdateResponse, quoteAPI } from '@/lib/api';
+
+interface QuoteEditFormProps {
+  quote: Quote;
+  onSaved: (quote: QuoteUpdateResponse['data']) => void;
+  onCancel: () => void;
+}
+
+const equipmentTypes: EquipmentType[] = ['dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck'];
+
+const inputClassName =
+  'w-full px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52] disabled:bg-[#F7F3EF] disabled:text-[#A67C52]';
+
+export default function QuoteEditForm({ quote, onSaved, onCancel }: QuoteEditFormProps) {
+  const initialPickup = quote.pickup_date ? formatDate(new Date(quote.pickup_date), 'yyyy-MM-dd') : '';
+  const [pickupDate, setPickupDate] = useState<Date | null>(quote.pickup_date ? new Date(quote.pickup_date) : null);
+  const [weight, setWeight] = useState(quote.total_weight != null ? String(quote.total_weight) : '');
+  const [equipmentType, setEquipmentType] = useState(quote.equipment_type as EquipmentType);
+  const [customerReference, setCustomerReference] = useState(quote.customer_reference ?? '');
+  const [notes, setNotes] = useState(quote.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only open quotes can be priced again; the others keep their reference and notes editable
+  const canReprice = quote.status === 'draft' || quote.status === 'sent';
+
+  const handleSave = async () => {
+    // Send only what changed (the server reprices when a pricing field is among them)
+    const changes: QuoteUpdateRequest = {};
+    const pickup = pickupDate ? formatDate(pickupDate, 'yyyy-MM-dd') : '';
+    if (pickup && pickup !== initialPickup) changes.pickup_date = pickup;
+    if (weight && parseFloat(weight) !== Number(quote.total_weight)) changes.total_weight = parseFloat(weight);
+    if (equipmentType !== quote.equipment_type) changes.equipment_type = equipmentType;
+    if (customerReference.trim() !== (quote.customer_reference ?? '')) {
+      changes.customer_reference = customerReference.trim() || null;
+    }
+    if (notes.trim() !== (quote.notes ?? '')) changes.notes = notes.trim() || null;
+
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await quoteAPI.update(quote.id, changes);
+      onSaved(response.data);
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string; errors?: Array<{ msg: string }> } } };
+      const validationErrors = axiosError.response?.data?.errors;
+      setError(
+        validationErrors && validationErrors.length > 0
+          ? validationErrors.map((e) => e.msg).join(', ')
+          : axiosError.response?.data?.message || 'Failed to update the quote'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#F7F3EF] p-3 rounded-lg border border-[#C8A27A] space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Pickup Date</label>
+          <DatePicker
+            selected={pickupDate}
+            onChange={(date: Date | null) => setPickupDate(date)}
+            minDate={new Date()}
+            dateFormat="MMM dd, yyyy"
+            disabled={!canReprice}
+            className={inputClassName}
+            calendarClassName="rounded-md shadow-lg border border-[#C8A27A]"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Weight (lbs)</label>
+          <input
+            type="number"
+            min="1"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            disabled={!canReprice}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Equipment</label>
+          <select
+            value={equipmentType}
+            onChange={(e) => setEquipmentType(e.target.value as EquipmentType)}
+            disabled={!canReprice}
+            className={`${inputClassName} capitalize`}
+          >
+            {equipmentTypes.map((type) => (
+              <option key={type} value={type}>
+                {type.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Customer Reference</label>
+        <input
+          type="text"
+          value={customerReference}
+          onChange={(e) => setCustomerReference(e.target.value)}
+          placeholder="PO or load number"
+          maxLength={100}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={2000}
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+      <p className="text-xs text-[#A67C52]">
+        {canReprice
+          ? "Changing the pickup date, weight or equipment reprices the quote with today's rates."
+          : `This quote is ${quote.status}; only its reference and notes can change (requote it to reprice).`}
+      </p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex-1 bg-[#4E3B31] text-white py-2 px-4 rounded-md font-medium text-sm hover:bg-[#3E2F27] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-xs font-medium text-[#A67C52] hover:text-[#4E3B31]"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
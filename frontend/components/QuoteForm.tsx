@@ -1,12 +1,25 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import { format as formatDate } from 'date-fns';
-import { QuoteRequest, Location } from '@/lib/api';
-import { popularCities, PopularCity, formatCityName } from '@/data/popularCities';
+import {
+  QuoteRequest,
+  Location,
+  LocationSuggestion,
+  StopRequest,
+  StopType,
+  AccessorialType,
+  Currency,
+  EquipmentType,
+  PortOfEntry,
+  accessorialAPI,
+  portOfEntryAPI,
+} from '@/lib/api';
+import EquipmentSuggestion from '@/components/EquipmentSuggestion';
+import LocationAutocomplete from '@/components/LocationAutocomplete';
 
 // Helper to parse a local Date from 'yyyy-MM-dd' (avoids UTC offset issues)
 const parseLocalDate = (value?: string): Date | null => {
@@ -18,21 +31,47 @@ const parseLocalDate = (value?: string): Date | null => {
   return new Date(y, m - 1, d);
 };
 
+// Maximum intermediate stops (matches the API limit)
+const MAX_STOPS = 8;
+
+// Country across the US border on the first leg that crosses it (where the API places the port of entry)
+const findBorderCountry = (locations: Location[]): PortOfEntry['border_country'] | null => {
+  for (let i = 0; i < locations.length - 1; i += 1) {
+    const countries = [locations[i].country, locations[i + 1].country];
+    const borderCountry = countries.find((country) => country !== 'US');
+    if (countries.includes('US') && borderCountry) return borderCountry as PortOfEntry['border_country'];
+  }
+  return null;
+};
+
+// Location set from outside the form (e.g. a pin dragged on the route map)
+export interface LocationUpdate {
+  field: 'origin' | 'destination';
+  location: Location;
+}
+
 interface QuoteFormProps {
   onSubmit: (quote: QuoteRequest) => Promise<void>;
   isLoading?: boolean;
+  locationUpdate?: LocationUpdate | null;
 }
 
 // Form state uses space-separated equipment types for display
 interface QuoteFormData {
   origin: Location;
   destination: Location;
+  stops: StopRequest[];
   equipment_type: 'dry van' | 'reefer' | 'flatbed' | 'step deck' | 'hotshot' | 'straight truck';
   total_weight?: number;
   pickup_date?: string;
+  currency: Currency;
+  // Requested port of entry code ('' = cheapest crossing)
+  port_of_entry: string;
+  customer_reference: string;
+  notes: string;
 }
 
-export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProps) {
+export default function QuoteForm({ onSubmit, isLoading = false, locationUpdate = null }: QuoteFormProps) {
   const [formData, setFormData] = useState<QuoteFormData>({
     origin: {
       city: '',
@@ -42,85 +81,142 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
       city: '',
       country: 'CA',
     },
+    stops: [],
     equipment_type: 'dry van',
     total_weight: undefined,
     pickup_date: undefined,
+    currency: 'USD',
+    port_of_entry: '',
+    customer_reference: '',
+    notes: '',
   });
 
+  // Apply a location set from outside the form (adjusting state during render, not in an effect)
+  const [appliedLocationUpdate, setAppliedLocationUpdate] = useState(locationUpdate);
+  if (locationUpdate !== appliedLocationUpdate) {
+    setAppliedLocationUpdate(locationUpdate);
+    if (locationUpdate) {
+      setFormData((prev) => ({ ...prev, [locationUpdate.field]: locationUpdate.location }));
+    }
+  }
+
   const [weightUnit, setWeightUnit] = useState<'kg' | 'lbs'>('kg');
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [showOriginDropdown, setShowOriginDropdown] = useState(false);
-  const [showDestDropdown, setShowDestDropdown] = useState(false);
-  const [originSearch, setOriginSearch] = useState('');
-  const [destSearch, setDestSearch] = useState('');
   
-  const originRef = useRef<HTMLDivElement>(null);
-  const destRef = useRef<HTMLDivElement>(null);
+  const [accessorialTypes, setAccessorialTypes] = useState<AccessorialType[]>([]);
+  // Selected accessorial codes mapped to hours (hours only used by per_hour types)
+  const [selectedAccessorials, setSelectedAccessorials] = useState<Record<string, number | undefined>>({});
 
-  // Close dropdowns when clicking outside
+  const [portsOfEntry, setPortsOfEntry] = useState<PortOfEntry[]>([]);
+
+  // Load accessorial options and prices
   useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (originRef.current && !originRef.current.contains(event.target as Node)) {
-        setShowOriginDropdown(false);
-      }
-      if (destRef.current && !destRef.current.contains(event.target as Node)) {
-        setShowDestDropdown(false);
-      }
-    };
+    accessorialAPI
+      .getAll()
+      .then((response) => setAccessorialTypes(response.data))
+      .catch(() => setAccessorialTypes([]));
+  }, []);
 
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
+  // Load border crossings for cross-border lanes
+  useEffect(() => {
+    portOfEntryAPI
+      .getAll()
+      .then((response) => setPortsOfEntry(response.data))
+      .catch(() => setPortsOfEntry([]));
   }, []);
 
-  const filteredOriginCities = popularCities.filter(
-    (city) =>
-      city.country === formData.origin.country &&
-      (city.city.toLowerCase().includes(originSearch.toLowerCase()) ||
-        city.state_province.toLowerCase().includes(originSearch.toLowerCase()))
-  );
+  // Weight in lbs for the API (the form accepts kg or lbs)
+  const weightLbs =
+    formData.total_weight && weightUnit === 'kg' ? formData.total_weight * 2.20462 : formData.total_weight;
+
+  // Only offer crossings on the border the route crosses; a port picked for another border is ignored
+  const borderCountry = findBorderCountry([formData.origin, ...formData.stops, formData.destination]);
+  const borderPorts = portsOfEntry.filter((port) => port.border_country === borderCountry);
+  const requestedPort = borderPorts.find((port) => port.code === formData.port_of_entry);
 
-  const filteredDestCities = popularCities.filter(
-    (city) =>
-      city.country === formData.destination.country &&
-      (city.city.toLowerCase().includes(destSearch.toLowerCase()) ||
-        city.state_province.toLowerCase().includes(destSearch.toLowerCase()))
+  // Only offer accessorials allowed for the selected equipment
+  const normalizedEquipment = formData.equipment_type.replace(/\s+/g, '_');
+  const availableAccessorials = accessorialTypes.filter(
+    (type) => !type.allowed_equipment_types || type.allowed_equipment_types.includes(normalizedEquipment)
   );
 
+  const toggleAccessorial = (code: string) => {
+    setSelectedAccessorials((prev) => {
+      const next = { ...prev };
+      if (code in next) {
+        delete next[code];
+      } else {
+        next[code] = undefined;
+      }
+      return next;
+    });
+    setErrors((prev) => ({ ...prev, [`accessorials.${code}`]: '' }));
+  };
+
+  const formatAccessorialPrice = (type: AccessorialType) => {
+    if (type.pricing_unit === 'per_hour') return `$${type.price.toFixed(2)}/hr`;
+    if (type.pricing_unit === 'per_mile') return `$${type.price.toFixed(2)}/mi`;
+    return `$${type.price.toFixed(2)}`;
+  };
+
   const handleLocationChange = (
     field: 'origin' | 'destination',
-    key: keyof Location,
+    key: Exclude<keyof Location, 'coordinates'>,
     value: string
   ) => {
+    // Editing a location drops any pin placed on the map, so it is geocoded again
     setFormData((prev) => ({
       ...prev,
       [field]: {
         ...prev[field],
         [key]: value,
+        coordinates: undefined,
       },
     }));
     setErrors((prev) => ({ ...prev, [`${field}.${key}`]: '' }));
   };
 
-  const handleCitySelect = (
-    field: 'origin' | 'destination',
-    city: PopularCity
-  ) => {
+  const addStop = () => {
+    setFormData((prev) =>
+      prev.stops.length >= MAX_STOPS
+        ? prev
+        : { ...prev, stops: [...prev.stops, { type: 'drop', city: '', country: prev.destination.country }] }
+    );
+  };
+
+  const removeStop = (index: number) => {
+    setFormData((prev) => ({ ...prev, stops: prev.stops.filter((_, i) => i !== index) }));
+    setErrors((prev) => ({ ...prev, [`stops.${index}.city`]: '' }));
+  };
+
+  const handleStopChange = (index: number, key: Exclude<keyof StopRequest, 'coordinates'>, value: string) => {
     setFormData((prev) => ({
       ...prev,
-      [field]: {
-        city: city.city,
-        state_province: city.state_province,
-        country: city.country,
-        postal_code: city.postal_code,
-      },
+      stops: prev.stops.map((stop, i) => (i === index ? { ...stop, [key]: value } : stop)),
     }));
-    if (field === 'origin') {
-      setShowOriginDropdown(false);
-      setOriginSearch('');
-    } else {
-      setShowDestDropdown(false);
-      setDestSearch('');
-    }
+    setErrors((prev) => ({ ...prev, [`stops.${index}.${key}`]: '' }));
+  };
+
+  // Fill a location from a search suggestion
+  const toLocation = (location: LocationSuggestion): Location => ({
+    city: location.city,
+    state_province: location.state_province || undefined,
+    country: location.country,
+    postal_code: location.postal_code,
+  });
+
+  const handleCitySelect = (field: 'origin' | 'destination', location: LocationSuggestion) => {
+    // Keep the street address typed before picking the city
+    setFormData((prev) => ({ ...prev, [field]: { ...toLocation(location), address: prev[field].address } }));
+    setErrors((prev) => ({ ...prev, [`${field}.city`]: '' }));
+  };
+
+  const handleStopSelect = (index: number, location: LocationSuggestion) => {
+    setFormData((prev) => ({
+      ...prev,
+      stops: prev.stops.map((stop, i) => (i === index ? { ...stop, ...toLocation(location) } : stop)),
+    }));
+    setErrors((prev) => ({ ...prev, [`stops.${index}.city`]: '' }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -134,7 +230,7 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
     if (!formData.destination.city.trim()) {
       newErrors['destination.city'] = 'Destination city is required';
     }
-    // Allow same city if postal codes are both provided and different.
+    // Allow same city if postal codes or street addresses are both provided and different.
     const sameCountry = formData.origin.country === formData.destination.country;
     const sameCity =
       formData.origin.city.trim().toLowerCase() ===
@@ -144,10 +240,20 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
     const bothPostalProvided = originPostal !== '' && destPostal !== '';
     const samePostalWhenProvided = bothPostalProvided && originPostal === destPostal;
 
-    if (sameCountry && sameCity && (!bothPostalProvided || samePostalWhenProvided)) {
+    const originAddress = formData.origin.address?.trim().toLowerCase() || '';
+    const destAddress = formData.destination.address?.trim().toLowerCase() || '';
+    const differentAddresses = originAddress !== '' && destAddress !== '' && originAddress !== destAddress;
+
+    if (sameCountry && sameCity && !differentAddresses && (!bothPostalProvided || samePostalWhenProvided)) {
       newErrors['destination.city'] = 'Destination must be different from origin';
     }
 
+    formData.stops.forEach((stop, index) => {
+      if (!stop.city.trim()) {
+        newErrors[`stops.${index}.city`] = `Stop ${index + 1} city is required`;
+      }
+    });
+
     // Require total_weight > 0
     if (formData.total_weight === undefined || formData.total_weight === null || formData.total_weight <= 0) {
       newErrors['total_weight'] = 'Total weight is required';
@@ -158,17 +264,20 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
       newErrors['pickup_date'] = 'Pickup date is required';
     }
 
+    // Hourly accessorials (e.g. detention) need a number of hours
+    const requestedAccessorials = availableAccessorials.filter((type) => type.code in selectedAccessorials);
+    requestedAccessorials.forEach((type) => {
+      const hours = selectedAccessorials[type.code];
+      if (type.pricing_unit === 'per_hour' && (!hours || hours <= 0)) {
+        newErrors[`accessorials.${type.code}`] = `Enter hours for ${type.name}`;
+      }
+    });
+
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
       return;
     }
 
-    // Convert weight if needed
-    let finalWeight = formData.total_weight;
-    if (finalWeight && weightUnit === 'kg') {
-      finalWeight = finalWeight * 2.20462; // Convert kg to lbs
-    }
-
     // Convert equipment type from space-separated to underscore-separated format
     // (e.g., 'dry van' -> 'dry_van', 'straight truck' -> 'straight_truck')
     const normalizedEquipmentType = formData.equipment_type.replace(/\s+/g, '_');
@@ -176,10 +285,26 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
     // Clean up optional fields - convert empty strings to undefined
     const submitData: QuoteRequest = {
       ...formData,
-      equipment_type: normalizedEquipmentType as 'dry_van' | 'reefer' | 'flatbed' | 'step_deck' | 'hotshot' | 'straight_truck',
-      total_weight: finalWeight,
+      origin: { ...formData.origin, address: formData.origin.address?.trim() || undefined },
+      destination: { ...formData.destination, address: formData.destination.address?.trim() || undefined },
+      equipment_type: normalizedEquipmentType as EquipmentType,
+      stops: formData.stops.map((stop) => ({
+        ...stop,
+        city: stop.city.trim(),
+        postal_code: stop.postal_code?.trim() || undefined,
+        address: stop.address?.trim() || undefined,
+      })),
+      total_weight: weightLbs,
+      port_of_entry: requestedPort?.code,
+      customer_reference: formData.customer_reference.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
       // pickup_date is already stored as local 'yyyy-MM-dd'
       pickup_date: formData.pickup_date,
+      accessorials: requestedAccessorials.map((type) =>
+        type.pricing_unit === 'per_hour'
+          ? { code: type.code, quantity: selectedAccessorials[type.code] }
+          : { code: type.code }
+      ),
     };
 
     await onSubmit(submitData);
@@ -224,19 +349,26 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
     },
   ];
 
+  const currencies: Currency[] = ['USD', 'CAD', 'MXN'];
+
   const countries = [
     { code: 'CA', flag: '🇨🇦', name: 'Canada' },
     { code: 'US', flag: '🇺🇸', name: 'United States' },
     { code: 'MX', flag: '🇲🇽', name: 'Mexico' },
   ];
 
+  const stopTypes: { id: StopType; name: string }[] = [
+    { id: 'pickup', name: 'Pickup' },
+    { id: 'drop', name: 'Drop' },
+  ];
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* From / To Section */}
       <div className="flex flex-col md:flex-row gap-4">
         {/* From */}
         <div className="flex-1 bg-[#F7F3EF] p-4 rounded-lg border border-[#C8A27A]">
-          <div className="relative" ref={originRef}>
+          <div className="relative">
             <div className="flex items-center gap-3 mb-3">
               <label className="text-md font-bold text-[#4E3B31]">
                 From
@@ -281,39 +413,14 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
 
             {/* City and Postal Code on Same Line */}
             <div className="flex gap-2">
-              <div className="flex-1 relative">
-                <input
-                  type="text"
-                  value={formData.origin.city}
-                  onChange={(e) => {
-                    handleLocationChange('origin', 'city', e.target.value);
-                    setOriginSearch(e.target.value);
-                    setShowOriginDropdown(true);
-                  }}
-                  onFocus={() => setShowOriginDropdown(true)}
-                  placeholder="City name"
-                  className={`w-full px-3 py-2.5 rounded-md border bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52] ${
-                    errors['origin.city'] ? 'border-red-300' : 'border-[#C8A27A]'
-                  }`}
-                />
-                {showOriginDropdown && filteredOriginCities.length > 0 && (
-                  <div className="absolute z-20 w-full mt-1 bg-white border border-[#C8A27A] rounded-md shadow-lg max-h-60 overflow-auto">
-                    {filteredOriginCities.map((city, idx) => (
-                      <button
-                        key={idx}
-                        type="button"
-                        onClick={() => handleCitySelect('origin', city)}
-                        className="w-full px-3 py-2 text-left hover:bg-[#F7F3EF] focus:bg-[#F7F3EF] focus:outline-none border-b border-[#EBD9C3] last:border-b-0 text-sm"
-                      >
-                        <div className="font-medium text-[#4E3B31]">{formatCityName(city)}</div>
-                        {city.postal_code && (
-                          <div className="text-xs text-[#A67C52]">{city.postal_code}</div>
-                        )}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <LocationAutocomplete
+                value={formData.origin.city}
+                country={formData.origin.country}
+                onChange={(value) => handleLocationChange('origin', 'city', value)}
+                onSelect={(location) => handleCitySelect('origin', location)}
+                hasError={!!errors['origin.city']}
+                className="flex-1"
+              />
               <input
                 type="text"
                 value={formData.origin.postal_code || ''}
@@ -324,6 +431,14 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
                 className="w-32 px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
               />
             </div>
+            <input
+              type="text"
+              value={formData.origin.address || ''}
+              onChange={(e) => handleLocationChange('origin', 'address', e.target.value)}
+              placeholder="Street address (optional)"
+              maxLength={255}
+              className="mt-2 w-full px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+            />
             {errors['origin.city'] && (
               <p className="mt-1 text-xs text-red-600">{errors['origin.city']}</p>
             )}
@@ -351,7 +466,7 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
 
         {/* To */}
         <div className="flex-1 bg-[#F7F3EF] p-4 rounded-lg border border-[#C8A27A]">
-          <div className="relative" ref={destRef}>
+          <div className="relative">
             <div className="flex items-center gap-3 mb-3">
               <label className="text-md font-bold text-[#4E3B31]">
                 To
@@ -396,39 +511,14 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
 
             {/* City and Postal Code on Same Line */}
             <div className="flex gap-2">
-              <div className="flex-1 relative">
-                <input
-                  type="text"
-                  value={formData.destination.city}
-                  onChange={(e) => {
-                    handleLocationChange('destination', 'city', e.target.value);
-                    setDestSearch(e.target.value);
-                    setShowDestDropdown(true);
-                  }}
-                  onFocus={() => setShowDestDropdown(true)}
-                  placeholder="City name"
-                  className={`w-full px-3 py-2.5 rounded-md border bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52] ${
-                    errors['destination.city'] ? 'border-red-300' : 'border-[#C8A27A]'
-                  }`}
-                />
-                {showDestDropdown && filteredDestCities.length > 0 && (
-                  <div className="absolute z-20 w-full mt-1 bg-white border border-[#C8A27A] rounded-md shadow-lg max-h-60 overflow-auto">
-                    {filteredDestCities.map((city, idx) => (
-                      <button
-                        key={idx}
-                        type="button"
-                        onClick={() => handleCitySelect('destination', city)}
-                        className="w-full px-3 py-2 text-left hover:bg-[#F7F3EF] focus:bg-[#F7F3EF] focus:outline-none border-b border-[#EBD9C3] last:border-b-0 text-sm"
-                      >
-                        <div className="font-medium text-[#4E3B31]">{formatCityName(city)}</div>
-                        {city.postal_code && (
-                          <div className="text-xs text-[#A67C52]">{city.postal_code}</div>
-                        )}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <LocationAutocomplete
+                value={formData.destination.city}
+                country={formData.destination.country}
+                onChange={(value) => handleLocationChange('destination', 'city', value)}
+                onSelect={(location) => handleCitySelect('destination', location)}
+                hasError={!!errors['destination.city']}
+                className="flex-1"
+              />
               <input
                 type="text"
                 value={formData.destination.postal_code || ''}
@@ -439,6 +529,14 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
                 className="w-32 px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
               />
             </div>
+            <input
+              type="text"
+              value={formData.destination.address || ''}
+              onChange={(e) => handleLocationChange('destination', 'address', e.target.value)}
+              placeholder="Street address (optional)"
+              maxLength={255}
+              className="mt-2 w-full px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+            />
             {errors['destination.city'] && (
               <p className="mt-1 text-xs text-red-600">{errors['destination.city']}</p>
             )}
@@ -446,9 +544,147 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
         </div>
       </div>
 
+      {/* Intermediate Stops */}
+      <div className="space-y-3">
+        {formData.stops.map((stop, index) => (
+          <div key={index} className="bg-[#F7F3EF] p-4 rounded-lg border border-[#C8A27A]">
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <label className="text-md font-bold text-[#4E3B31]">Stop {index + 1}</label>
+              {/* Pickup / Drop */}
+              <div className="flex gap-2">
+                {stopTypes.map((stopType) => (
+                  <button
+                    key={stopType.id}
+                    type="button"
+                    onClick={() => handleStopChange(index, 'type', stopType.id)}
+                    className={`px-2 py-1.5 rounded-md border-2 text-xs font-bold text-[#4E3B31] transition-all ${
+                      stop.type === stopType.id
+                        ? 'border-[#A67C52] bg-[#EBD9C3]'
+                        : 'border-[#C8A27A] bg-white hover:border-[#A67C52]'
+                    }`}
+                  >
+                    {stopType.name}
+                  </button>
+                ))}
+              </div>
+              {/* Country Selection */}
+              <div className="flex gap-2">
+                {countries.map((country) => (
+                  <button
+                    key={country.code}
+                    type="button"
+                    onClick={() => handleStopChange(index, 'country', country.code)}
+                    className={`px-2 py-1.5 rounded-md border-2 flex items-center gap-1.5 text-sm transition-all ${
+                      stop.country === country.code
+                        ? 'border-[#A67C52] bg-[#EBD9C3]'
+                        : 'border-[#C8A27A] bg-white hover:border-[#A67C52]'
+                    }`}
+                    title={country.name}
+                  >
+                    <span className="text-xs font-bold text-[#4E3B31]">{country.code}</span>
+                    <Image
+                      src={`/flags/${country.code.toLowerCase()}.png`}
+                      alt={country.name}
+                      width={16}
+                      height={16}
+                      className="object-contain m-0"
+                      style={{ height: '1em', width: 'auto' }}
+                      unoptimized
+                    />
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => removeStop(index)}
+                className="ml-auto text-xs font-medium text-[#A67C52] hover:text-[#8C6B47]"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <LocationAutocomplete
+                value={stop.city}
+                country={stop.country}
+                onChange={(value) => handleStopChange(index, 'city', value)}
+                onSelect={(location) => handleStopSelect(index, location)}
+                hasError={!!errors[`stops.${index}.city`]}
+                className="flex-1"
+              />
+              <input
+                type="text"
+                value={stop.postal_code || ''}
+                onChange={(e) => handleStopChange(index, 'postal_code', e.target.value)}
+                placeholder="Postal code"
+                className="w-32 px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+              />
+            </div>
+            <input
+              type="text"
+              value={stop.address || ''}
+              onChange={(e) => handleStopChange(index, 'address', e.target.value)}
+              placeholder="Street address (optional)"
+              maxLength={255}
+              className="mt-2 w-full px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+            />
+            {errors[`stops.${index}.city`] && (
+              <p className="mt-1 text-xs text-red-600">{errors[`stops.${index}.city`]}</p>
+            )}
+          </div>
+        ))}
+        {formData.stops.length < MAX_STOPS && (
+          <button
+            type="button"
+            onClick={addStop}
+            className="text-sm font-medium text-[#A67C52] hover:text-[#8C6B47] transition-colors"
+          >
+            + Add stop
+          </button>
+        )}
+      </div>
+
+      {/* Border Crossing */}
+      {borderCountry && borderPorts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <label htmlFor="port-of-entry" className="text-sm font-bold text-[#4E3B31]">Border Crossing</label>
+          <select
+            id="port-of-entry"
+            value={requestedPort ? requestedPort.code : ''}
+            onChange={(e) => setFormData((prev) => ({ ...prev, port_of_entry: e.target.value }))}
+            className="flex-1 min-w-48 px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+          >
+            <option value="">Cheapest crossing (automatic)</option>
+            {borderPorts.map((port) => (
+              <option key={port.code} value={port.code}>
+                {port.name}
+                {port.state_province ? `, ${port.state_province}` : ''}
+                {port.crossing_fee > 0 ? ` ($${port.crossing_fee.toFixed(2)} fee)` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Equipment Type Selection */}
       <div>
         <label className="block text-sm font-bold text-[#4E3B31] mb-3">Equipment Type</label>
+        <div className="mb-3">
+          <EquipmentSuggestion
+            origin={formData.origin}
+            destination={formData.destination}
+            weightLbs={weightLbs}
+            pickupDate={formData.pickup_date}
+            currency={formData.currency}
+            portOfEntry={requestedPort?.code}
+            selectedEquipment={normalizedEquipment as EquipmentType}
+            onSelect={(equipmentType) =>
+              setFormData((prev) => ({
+                ...prev,
+                equipment_type: equipmentType.replace(/_/g, ' ') as QuoteFormData['equipment_type'],
+              }))
+            }
+          />
+        </div>
         <div className="grid grid-cols-3 gap-3">
           {equipmentTypes.map((equipment) => (
             <button
@@ -587,6 +823,109 @@ export default function QuoteForm({ onSubmit, isLoading = false }: QuoteFormProp
         </div>
       </div>
 
+      {/* Quote Currency */}
+      <div className="flex items-center gap-3">
+        <label className="text-sm font-bold text-[#4E3B31]">Quote Currency</label>
+        <div className="flex rounded-md border border-[#C8A27A] overflow-hidden">
+          {currencies.map((currency, idx) => (
+            <button
+              key={currency}
+              type="button"
+              onClick={() => setFormData((prev) => ({ ...prev, currency }))}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${idx > 0 ? 'border-l border-[#C8A27A]' : ''} ${
+                formData.currency === currency
+                  ? 'bg-[#A67C52] text-white'
+                  : 'bg-white text-[#4E3B31] hover:bg-[#F7F3EF]'
+              }`}
+            >
+              {currency}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Accessorials */}
+      {availableAccessorials.length > 0 && (
+        <div>
+          <label className="block text-sm font-bold text-[#4E3B31] mb-3">Accessorials</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {availableAccessorials.map((type) => {
+              const isSelected = type.code in selectedAccessorials;
+              return (
+                <div
+                  key={type.code}
+                  className={`p-3 rounded-md border ${
+                    isSelected ? 'border-[#A67C52] bg-[#EBD9C3]' : 'border-[#C8A27A] bg-white'
+                  }`}
+                >
+                  <label className="flex items-center justify-between gap-2 cursor-pointer">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleAccessorial(type.code)}
+                        className="accent-[#A67C52]"
+                      />
+                      <span className="text-sm font-medium text-[#4E3B31]">{type.name}</span>
+                    </span>
+                    <span className="text-xs font-medium text-[#A67C52]">{formatAccessorialPrice(type)}</span>
+                  </label>
+                  {isSelected && type.pricing_unit === 'per_hour' && (
+                    <div className="mt-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="72"
+                        step="0.5"
+                        value={selectedAccessorials[type.code] ?? ''}
+                        onChange={(e) => {
+                          const hours = e.target.value ? parseFloat(e.target.value) : undefined;
+                          setSelectedAccessorials((prev) => ({ ...prev, [type.code]: hours }));
+                          setErrors((prev) => ({ ...prev, [`accessorials.${type.code}`]: '' }));
+                        }}
+                        placeholder="Hours"
+                        className={`w-full px-3 py-1.5 rounded-md border bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] ${
+                          errors[`accessorials.${type.code}`] ? 'border-red-300' : 'border-[#C8A27A] focus:border-[#A67C52]'
+                        }`}
+                      />
+                      {errors[`accessorials.${type.code}`] && (
+                        <p className="mt-1 text-xs text-red-600">{errors[`accessorials.${type.code}`]}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Reference & Notes (not priced) */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-bold text-[#4E3B31] mb-2">Customer Reference</label>
+          <input
+            type="text"
+            value={formData.customer_reference}
+            onChange={(e) => setFormData((prev) => ({ ...prev, customer_reference: e.target.value }))}
+            placeholder="PO or load number"
+            maxLength={100}
+            className="w-full px-3 py-2.5 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-bold text-[#4E3B31] mb-2">Notes</label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+            placeholder="Anything the dispatcher should know"
+            maxLength={2000}
+            rows={2}
+            className="w-full px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+          />
+        </div>
+      </div>
+
       {/* Submit Button */}
       <button
         type="submit"
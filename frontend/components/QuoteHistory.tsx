@@ -1,14 +1,27 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Quote, quoteAPI } from '@/lib/api';
+import { Quote, QuoteStatus, QuoteTransitionStatus, quoteAPI } from '@/lib/api';
+import { formatCurrency } from '@/lib/format';
 import { format } from 'date-fns';
 import Image from 'next/image';
+import QuoteStatusBadge, { statusLabels } from './QuoteStatusBadge';
+import ExpiryCountdown from './ExpiryCountdown';
+import QuoteEditForm from './QuoteEditForm';
 
 interface QuoteHistoryProps {
   onQuoteClick?: (quoteId: number) => void;
 }
 
+// Button label for moving a quote to each status
+const statusActions: Record<QuoteTransitionStatus, string> = {
+  sent: 'Mark sent',
+  accepted: 'Accept',
+  rejected: 'Reject',
+  expired: 'Mark expired',
+  cancelled: 'Cancel',
+};
+
 export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
@@ -16,6 +29,15 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [searchQuery, setSearchQuery] = useState('');
+  // Quote being rejected (waiting for a reason)
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [updatingStatusId, setUpdatingStatusId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<{ quoteId: number; message: string } | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  // Quote waiting for its delete to be confirmed
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
 
   // Helper function to safely format quote amount
   const formatQuoteAmount = (amount: number | string | undefined): string => {
@@ -35,7 +57,7 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
     try {
       setLoading(true);
       setError(null);
-      const response = await quoteAPI.getAll(page, 10);
+      const response = await quoteAPI.getAll(page, 10, showDeleted);
       setQuotes(response.data);
       setTotalPages(response.pagination.totalPages);
     } catch (err: unknown) {
@@ -48,10 +70,83 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
     }
   };
 
+  const changeStatus = async (quoteId: number, status: QuoteStatus, reason?: string) => {
+    setUpdatingStatusId(quoteId);
+    setActionError(null);
+
+    try {
+      const response = await quoteAPI.updateStatus(quoteId, status, reason);
+      const { data } = response;
+      setQuotes((prev) =>
+        prev.map((quote) =>
+          quote.id === quoteId
+            ? {
+                ...quote,
+                status: data.status,
+                status_reason: data.status_reason,
+                status_changed_at: data.status_changed_at,
+                allowed_transitions: data.allowed_transitions,
+              }
+            : quote
+        )
+      );
+      setRejectingId(null);
+      setRejectReason('');
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string; errors?: Array<{ msg: string }> } } };
+      const validationErrors = axiosError.response?.data?.errors;
+      setActionError({
+        quoteId,
+        message:
+          validationErrors && validationErrors.length > 0
+            ? validationErrors.map((e) => e.msg).join(', ')
+            : axiosError.response?.data?.message || 'Failed to change the quote status',
+      });
+    } finally {
+      setUpdatingStatusId(null);
+    }
+  };
+
+  const deleteQuote = async (quoteId: number) => {
+    setUpdatingStatusId(quoteId);
+    setActionError(null);
+
+    try {
+      const response = await quoteAPI.remove(quoteId);
+      // Deleted quotes stay listed (marked) only while they are shown
+      setQuotes((prev) =>
+        showDeleted
+          ? prev.map((quote) => (quote.id === quoteId ? { ...quote, deleted_at: response.data.deleted_at } : quote))
+          : prev.filter((quote) => quote.id !== quoteId)
+      );
+      setConfirmDeleteId(null);
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setActionError({ quoteId, message: axiosError.response?.data?.message || 'Failed to delete the quote' });
+    } finally {
+      setUpdatingStatusId(null);
+    }
+  };
+
+  const restoreQuote = async (quoteId: number) => {
+    setUpdatingStatusId(quoteId);
+    setActionError(null);
+
+    try {
+      await quoteAPI.restore(quoteId);
+      setQuotes((prev) => prev.map((quote) => (quote.id === quoteId ? { ...quote, deleted_at: null } : quote)));
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { message?: string } } };
+      setActionError({ quoteId, message: axiosError.response?.data?.message || 'Failed to restore the quote' });
+    } finally {
+      setUpdatingStatusId(null);
+    }
+  };
+
   useEffect(() => {
     loadQuotes();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page]);
+  }, [page, showDeleted]);
 
   // Filter quotes based on search query
   const filteredQuotes = quotes.filter((quote) => {
@@ -75,8 +170,11 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
       quote.destination_city,
       quote.destination_state_province,
       quote.lane,
+      quote.customer_reference,
       quote.equipment_type.replace(/_/g, ' '),
+      statusLabels[quote.status],
       formatQuoteAmount(quote.quote_amount),
+      quote.currency,
       formatDistance(quote.distance_miles),
       quote.total_weight?.toString(),
       ...pickupDateFormats,
@@ -138,6 +236,18 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
       <div className="mb-4 px-2">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-lg font-bold text-[#4E3B31]">Recent Quotes</h3>
+          <label className="ml-auto mr-2 flex items-center gap-1.5 text-xs text-[#A67C52] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showDeleted}
+              onChange={(e) => {
+                setShowDeleted(e.target.checked);
+                setPage(1);
+              }}
+              className="accent-[#A67C52]"
+            />
+            Show deleted
+          </label>
           <button
             onClick={loadQuotes}
             className="p-2 text-[#A67C52] hover:bg-[#F7F3EF] rounded-md transition-colors"
@@ -155,7 +265,7 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by city, route, equipment, amount..."
+            placeholder="Search by city, route, equipment, status, amount..."
             className="w-full px-4 py-2.5 pl-10 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
           />
           <div className="absolute left-3 top-1/2 transform -translate-y-1/2">
@@ -198,8 +308,12 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
           filteredQuotes.map((quote) => (
           <div
             key={quote.id}
-            onClick={() => onQuoteClick?.(quote.id)}
-            className="bg-white rounded-lg p-4 border-2 border-[#C8A27A] hover:border-[#A67C52] hover:shadow-lg transition-all cursor-pointer"
+            onClick={() => !quote.deleted_at && onQuoteClick?.(quote.id)}
+            className={`bg-white rounded-lg p-4 border-2 transition-all ${
+              quote.deleted_at
+                ? 'border-dashed border-[#EBD9C3] opacity-70'
+                : 'border-[#C8A27A] hover:border-[#A67C52] hover:shadow-lg cursor-pointer'
+            }`}
           >
             <div className="flex items-start justify-between mb-2">
               <div className="flex items-center gap-2">
@@ -212,15 +326,24 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
                   unoptimized
                 />
                 <div>
-                  <div className="font-semibold text-[#4E3B31] text-sm">{quote.lane}</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-[#4E3B31] text-sm">{quote.lane}</span>
+                    {quote.status && <QuoteStatusBadge status={quote.status} />}
+                    {quote.deleted_at && (
+                      <span className="text-[10px] font-medium uppercase tracking-wide text-red-600">Deleted</span>
+                    )}
+                  </div>
                   <div className="text-xs text-[#A67C52]">
                     {format(new Date(quote.created_at), 'MMM dd, yyyy HH:mm')}
+                    {quote.status && (
+                      <ExpiryCountdown validUntil={quote.valid_until} status={quote.status} className="ml-2" />
+                    )}
                   </div>
                 </div>
               </div>
               <div className="text-right">
                 <div className="text-xl font-bold text-[#4E3B31]">
-                  ${formatQuoteAmount(quote.quote_amount)}
+                  {formatCurrency(quote.quote_amount, quote.currency)}
                 </div>
               </div>
             </div>
@@ -248,6 +371,145 @@ export default function QuoteHistory({ onQuoteClick }: QuoteHistoryProps) {
                   {format(new Date(quote.pickup_date), 'MMM dd')}
                 </div>
               )}
+              {quote.estimated_delivery_date && (
+                <div className="text-[#A67C52]">
+                  <span className="font-medium">Delivery:</span>{' '}
+                  {format(new Date(quote.estimated_delivery_date), 'MMM dd')}
+                  {quote.team_drivers ? ' (team)' : ''}
+                </div>
+              )}
+              {quote.customer_reference && (
+                <div className="text-[#A67C52]">
+                  <span className="font-medium">Ref:</span> {quote.customer_reference}
+                </div>
+              )}
+            </div>
+            {quote.notes && (
+              <p className="mt-2 text-xs text-[#4E3B31] opacity-80 whitespace-pre-line">{quote.notes}</p>
+            )}
+
+            {/* Status */}
+            {quote.status_reason && (quote.status === 'rejected' || quote.status === 'cancelled') && (
+              <div className="mt-2 text-xs text-[#4E3B31] opacity-80">
+                <span className="font-medium">{statusLabels[quote.status]}:</span> {quote.status_reason}
+              </div>
+            )}
+            <div className="mt-3 pt-3 border-t border-[#EBD9C3]" onClick={(e) => e.stopPropagation()}>
+              {quote.deleted_at ? (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-[#A67C52]">
+                    Deleted {format(new Date(quote.deleted_at), 'MMM dd, yyyy HH:mm')}
+                  </span>
+                  <button
+                    onClick={() => restoreQuote(quote.id)}
+                    disabled={updatingStatusId === quote.id}
+                    className="px-2 py-1 rounded-md border border-[#C8A27A] bg-white text-xs font-medium text-[#4E3B31] hover:border-[#A67C52] hover:bg-[#F7F3EF] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Restore
+                  </button>
+                </div>
+              ) : editingId === quote.id ? (
+                <QuoteEditForm
+                  quote={quote}
+                  onSaved={(updated) => {
+                    setQuotes((prev) => prev.map((item) => (item.id === quote.id ? { ...item, ...updated } : item)));
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : rejectingId === quote.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={rejectReason}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && rejectReason.trim()) {
+                        changeStatus(quote.id, 'rejected', rejectReason.trim());
+                      }
+                    }}
+                    placeholder="Reason for rejecting"
+                    maxLength={500}
+                    autoFocus
+                    className="flex-1 min-w-0 px-2 py-1 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-xs focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+                  />
+                  <button
+                    onClick={() => changeStatus(quote.id, 'rejected', rejectReason.trim())}
+                    disabled={!rejectReason.trim() || updatingStatusId === quote.id}
+                    className="px-2 py-1 rounded-md text-xs font-medium bg-[#A67C52] text-white hover:bg-[#8C6B47] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRejectingId(null);
+                      setRejectReason('');
+                    }}
+                    className="px-2 py-1 text-xs font-medium text-[#A67C52] hover:text-[#4E3B31]"
+                  >
+                    Back
+                  </button>
+                </div>
+              ) : confirmDeleteId === quote.id ? (
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-xs text-[#4E3B31]">Delete this quote? It can be restored later.</span>
+                  <button
+                    onClick={() => deleteQuote(quote.id)}
+                    disabled={updatingStatusId === quote.id}
+                    className="px-2 py-1 rounded-md text-xs font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="px-2 py-1 text-xs font-medium text-[#A67C52] hover:text-[#4E3B31]"
+                  >
+                    Back
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {(quote.allowed_transitions ?? []).map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => {
+                        if (status === 'rejected') {
+                          setRejectingId(quote.id);
+                          setRejectReason('');
+                          setActionError(null);
+                        } else {
+                          changeStatus(quote.id, status);
+                        }
+                      }}
+                      disabled={updatingStatusId === quote.id}
+                      className="px-2 py-1 rounded-md border border-[#C8A27A] bg-white text-xs font-medium text-[#4E3B31] hover:border-[#A67C52] hover:bg-[#F7F3EF] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {statusActions[status]}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setEditingId(quote.id);
+                      setActionError(null);
+                    }}
+                    className="ml-auto px-2 py-1 text-xs font-medium text-[#A67C52] hover:text-[#4E3B31]"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => {
+                      setConfirmDeleteId(quote.id);
+                      setActionError(null);
+                    }}
+                    className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+              {actionError?.quoteId === quote.id && (
+                <p className="mt-1 text-xs text-red-600">{actionError.message}</p>
+              )}
             </div>
           </div>
           ))
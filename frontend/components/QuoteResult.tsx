@@ -1,6 +1,12 @@
 'use client';
 
-import { Quote } from '@/lib/api';
+import { DistanceSource, EquipmentType, Quote, QuotePriceDelta, RequoteRequest } from '@/lib/api';
+import type { PinField, RouteMapStop } from './RouteMap';
+import { formatCurrency } from '@/lib/format';
+import QuoteStatusBadge from './QuoteStatusBadge';
+import ExpiryCountdown from './ExpiryCountdown';
+import RequoteButton from './RequoteButton';
+import RevisionTimeline from './RevisionTimeline';
 import { format } from 'date-fns';
 import dynamic from 'next/dynamic';
 import Image from 'next/image';
@@ -17,15 +23,30 @@ const RouteMap = dynamic(() => import('./RouteMap'), {
   ),
 });
 
+// How each routing provider's distance is described
+const distanceSourceLabels: Record<DistanceSource, string> = {
+  osrm: 'Driving route',
+  valhalla: 'Truck route',
+  great_circle: 'Estimated (straight line, road-adjusted)',
+  fixture: 'Test fixture',
+};
+
 interface QuoteResultProps {
   quote: Quote;
   geocodingAccuracy?: {
     origin: string;
     destination: string;
   };
+  // Called when the origin or destination pin is dragged on the map (pins are fixed without it)
+  onPinMove?: (field: PinField, coordinates: { latitude: number; longitude: number }) => void;
+  // Price change versus the original quote (for a requote)
+  priceDelta?: QuotePriceDelta;
+  // Shows a "Requote" button that reprices this quote with today's rates
+  onRequote?: (request: RequoteRequest) => void | Promise<void>;
+  isRequoting?: boolean;
 }
 
-export default function QuoteResult({ quote }: QuoteResultProps) {
+export default function QuoteResult({ quote, onPinMove, priceDelta, onRequote, isRequoting = false }: QuoteResultProps) {
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
   const [showCalculationDetails, setShowCalculationDetails] = useState(false);
   const downloadMenuRef = useRef<HTMLDivElement>(null);
@@ -47,47 +68,70 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
   const pricePerMile = distanceMiles > 0 ? quoteAmount / distanceMiles : 0;
   const pricePerKm = distanceKm > 0 ? quoteAmount / distanceKm : 0;
 
-  // Calculate breakdown for display
-  const BASE_RATE_PER_MILE = 2.00;
-  const WEIGHT_THRESHOLD = 10000;
-  const WEIGHT_FACTOR_RATE = 0.10;
-  const MINIMUM_QUOTE = 100.00;
-
-  const equipmentMultipliers: Record<string, number> = {
-    'dry_van': 1.0,
-    'reefer': 1.2,
-    'flatbed': 1.15,
-    'step_deck': 1.20,
-    'hotshot': 0.85,
-    'straight_truck': 0.95,
-  };
-
-  const baseQuote = distanceMiles * BASE_RATE_PER_MILE;
-  const equipmentMultiplier = equipmentMultipliers[quote.equipment_type] || 1.0;
-  const quoteAfterEquipment = baseQuote * equipmentMultiplier;
-  const weightOverThreshold = quote.total_weight && quote.total_weight > WEIGHT_THRESHOLD 
-    ? quote.total_weight - WEIGHT_THRESHOLD 
-    : 0;
-  const weightFactor = weightOverThreshold > 0 
-    ? Math.ceil(weightOverThreshold / 100) * WEIGHT_FACTOR_RATE 
-    : 0;
-  const quoteBeforeMinimum = quoteAfterEquipment + weightFactor;
-  const minimumApplied = quoteBeforeMinimum < MINIMUM_QUOTE;
+  // Price breakdown is calculated and stored by the server
+  const lineItems = quote.line_items || [];
+  const calendarRules = quote.calendar_rules || [];
+  const distanceSourceLabel = quote.distance_source
+    ? `${distanceSourceLabels[quote.distance_source]}${quote.routing_profile ? ` (${quote.routing_profile} profile)` : ''}`
+    : null;
+  const deadheadLabel = quote.deadhead_origin_hub
+    ? `${formatNumber(quote.deadhead_origin_miles ?? 0, 0)} mi from ${quote.deadhead_origin_hub} · ` +
+      `${formatNumber(quote.deadhead_destination_miles ?? 0, 0)} mi to ${quote.deadhead_destination_hub}`
+    : null;
+  const portOfEntryLabel = quote.port_of_entry_name
+    ? `${quote.port_of_entry_name}${quote.port_of_entry_selection === 'cheapest' ? ' (cheapest crossing)' : ''}`
+    : null;
+  const transitLabel = quote.estimated_delivery_date
+    ? `${quote.transit_days} ${quote.transit_days === 1 ? 'day' : 'days'} · ` +
+      `${formatNumber(quote.transit_hours ?? 0, 1)} h (${formatNumber(quote.transit_driving_hours ?? 0, 1)} h driving), ` +
+      `${quote.team_drivers ? 'team' : 'solo'} · ${quote.hos_rules} HOS`
+    : null;
+  // Stops include the origin (first) and destination (last)
+  const intermediateStops = (quote.stops || []).slice(1, -1);
+  const formatPlace = (city: string, stateProvince?: string | null, address?: string | null) =>
+    `${address ? `${address}, ` : ''}${city}${stateProvince ? `, ${stateProvince}` : ''}`;
+  const routePlaces = [
+    formatPlace(quote.origin_city, quote.origin_state_province, quote.origin_address),
+    ...intermediateStops.map((stop) => `${formatPlace(stop.city, stop.state_province, stop.address)} (${stop.stop_type})`),
+    formatPlace(quote.destination_city, quote.destination_state_province, quote.destination_address),
+  ];
+  // Amounts are stored in the quote currency
+  const currency = quote.currency || 'USD';
+  const formatMoney = (amount: number | string | undefined) => formatCurrency(amount, currency);
+  const exchangeRateText = currency !== 'USD' && quote.exchange_rate
+    ? `1 USD = ${formatNumber(quote.exchange_rate, 4)} ${currency}${quote.exchange_rate_date ? ` (${format(new Date(quote.exchange_rate_date), 'MMM dd, yyyy')})` : ''}`
+    : null;
 
   // Memoize RouteMap props to prevent unnecessary re-renders
-  const routeMapOrigin = useMemo(() => ({
-    latitude: Number(quote.origin_coordinates?.latitude),
-    longitude: Number(quote.origin_coordinates?.longitude),
-    city: quote.origin_city,
-    state_province: quote.origin_state_province || undefined,
-  }), [quote.origin_coordinates?.latitude, quote.origin_coordinates?.longitude, quote.origin_city, quote.origin_state_province]);
-
-  const routeMapDestination = useMemo(() => ({
-    latitude: Number(quote.destination_coordinates?.latitude),
-    longitude: Number(quote.destination_coordinates?.longitude),
-    city: quote.destination_city,
-    state_province: quote.destination_state_province || undefined,
-  }), [quote.destination_coordinates?.latitude, quote.destination_coordinates?.longitude, quote.destination_city, quote.destination_state_province]);
+  const routeMapStops = useMemo<RouteMapStop[]>(() => {
+    if (quote.stops && quote.stops.length >= 2) {
+      return quote.stops.map((stop) => ({
+        latitude: Number(stop.coordinates?.latitude),
+        longitude: Number(stop.coordinates?.longitude),
+        city: stop.city,
+        state_province: stop.state_province || undefined,
+        type: stop.stop_type,
+      }));
+    }
+
+    // Quotes without stored stops: origin to destination
+    return [
+      {
+        latitude: Number(quote.origin_coordinates?.latitude),
+        longitude: Number(quote.origin_coordinates?.longitude),
+        city: quote.origin_city,
+        state_province: quote.origin_state_province || undefined,
+        type: 'pickup',
+      },
+      {
+        latitude: Number(quote.destination_coordinates?.latitude),
+        longitude: Number(quote.destination_coordinates?.longitude),
+        city: quote.destination_city,
+        state_province: quote.destination_state_province || undefined,
+        type: 'drop',
+      },
+    ];
+  }, [quote.stops, quote.origin_coordinates, quote.origin_city, quote.origin_state_province, quote.destination_coordinates, quote.destination_city, quote.destination_state_province]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -125,22 +169,22 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     // Total Quote
     doc.setFontSize(16);
     doc.setTextColor(78, 59, 49);
-    doc.text('Total Quote:', margin, yPos);
+    doc.text(`Total Quote (${currency}):`, margin, yPos);
     doc.setFontSize(20);
-    doc.text(`$${formatNumber(quoteAmount, 2)}`, pageWidth - margin, yPos, { align: 'right' });
+    doc.text(formatMoney(quoteAmount), pageWidth - margin, yPos, { align: 'right' });
     yPos += 15;
 
     // Route
     doc.setFontSize(12);
     doc.setTextColor(78, 59, 49);
-    const origin = `${quote.origin_city}${quote.origin_state_province ? `, ${quote.origin_state_province}` : ''}`;
-    const destination = `${quote.destination_city}${quote.destination_state_province ? `, ${quote.destination_state_province}` : ''}`;
     doc.text('Route:', margin, yPos);
-    doc.setFontSize(10);
-    const routeText = `${origin} — ${destination}`;
     const routeLabelWidth = doc.getTextWidth('Route:');
-    doc.text(routeText, margin + routeLabelWidth + 5, yPos);
-    yPos += 12;
+    doc.setFontSize(10);
+    const routeText = `${routePlaces.join(' — ')}${quote.is_cross_border ? ' (cross-border)' : ''}`;
+    // Multi-stop routes may wrap
+    const routeLines = doc.splitTextToSize(routeText, pageWidth - margin * 2 - routeLabelWidth - 5);
+    doc.text(routeLines, margin + routeLabelWidth + 5, yPos);
+    yPos += 12 + (routeLines.length - 1) * 5;
 
     // Details
     doc.setFontSize(10);
@@ -150,6 +194,30 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     doc.text(`${formatNumber(distanceKm, 2)} km / ${formatNumber(distanceMiles, 2)} miles`, pageWidth - margin, yPos, { align: 'right' });
     yPos += 7;
 
+    if (distanceSourceLabel) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Distance Source:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(distanceSourceLabel, pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
+    if (deadheadLabel) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Deadhead:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(deadheadLabel, pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
+    if (portOfEntryLabel) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Border Crossing:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(portOfEntryLabel, pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
     doc.setTextColor(166, 124, 82);
     doc.text('Equipment:', margin, yPos);
     doc.setTextColor(78, 59, 49);
@@ -172,6 +240,36 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
       yPos += 7;
     }
 
+    if (quote.valid_until) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Valid Until:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(format(new Date(quote.valid_until), 'MMM dd, yyyy HH:mm'), pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
+    if (calendarRules.length > 0) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Pickup Rules:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(calendarRules.map((rule) => rule.reason).join(', '), pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
+    if (quote.estimated_delivery_date) {
+      doc.setTextColor(166, 124, 82);
+      doc.text('Estimated Delivery:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(format(new Date(quote.estimated_delivery_date), 'MMM dd, yyyy'), pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+
+      doc.setTextColor(166, 124, 82);
+      doc.text('Transit Time:', margin, yPos);
+      doc.setTextColor(78, 59, 49);
+      doc.text(transitLabel || '', pageWidth - margin, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
     // Price per distance
     yPos += 5;
     doc.setFontSize(10);
@@ -179,11 +277,11 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     doc.text('Price per:', margin, yPos);
     doc.setTextColor(78, 59, 49);
     if (distanceKm > 0 && distanceMiles > 0) {
-      doc.text(`$${formatNumber(pricePerKm, 2)}/km | $${formatNumber(pricePerMile, 2)}/mile`, pageWidth - margin, yPos, { align: 'right' });
+      doc.text(`${formatMoney(pricePerKm)}/km | ${formatMoney(pricePerMile)}/mile`, pageWidth - margin, yPos, { align: 'right' });
     } else if (distanceKm > 0) {
-      doc.text(`$${formatNumber(pricePerKm, 2)}/km`, pageWidth - margin, yPos, { align: 'right' });
+      doc.text(`${formatMoney(pricePerKm)}/km`, pageWidth - margin, yPos, { align: 'right' });
     } else if (distanceMiles > 0) {
-      doc.text(`$${formatNumber(pricePerMile, 2)}/mile`, pageWidth - margin, yPos, { align: 'right' });
+      doc.text(`${formatMoney(pricePerMile)}/mile`, pageWidth - margin, yPos, { align: 'right' });
     }
     yPos += 15;
 
@@ -195,44 +293,26 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     yPos += 8;
 
     doc.setFontSize(10);
-    // Base Rate
-    doc.setTextColor(166, 124, 82);
-    doc.text('Base Rate', margin, yPos);
-    doc.setTextColor(78, 59, 49);
-    const baseRateText = `${formatNumber(distanceMiles, 2)} miles - $${BASE_RATE_PER_MILE.toFixed(2)}/mile`;
-    doc.text(baseRateText, margin + 50, yPos);
-    doc.text(`$${formatNumber(baseQuote, 2)}`, pageWidth - margin, yPos, { align: 'right' });
-    yPos += 7;
-
-    // Equipment Multiplier
-    doc.setTextColor(166, 124, 82);
-    doc.text('Equipment Multiplier', margin, yPos);
-    doc.setTextColor(78, 59, 49);
-    const equipmentText = `${quote.equipment_type.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase())} - ${equipmentMultiplier.toFixed(2)}x`;
-    doc.text(equipmentText, margin + 50, yPos);
-    doc.text(`$${formatNumber(quoteAfterEquipment, 2)}`, pageWidth - margin, yPos, { align: 'right' });
-    yPos += 7;
-
-    // Weight Factor
-    if (weightFactor > 0) {
+    // Pricing Rule
+    if (quote.pricing_rule) {
       doc.setTextColor(166, 124, 82);
-      doc.text('Weight Factor (over 10,000 lbs)', margin, yPos);
+      doc.text('Pricing Rule', margin, yPos);
       doc.setTextColor(78, 59, 49);
-      const weightText = `${formatNumber(weightOverThreshold, 0)} lbs - $${WEIGHT_FACTOR_RATE.toFixed(2)} per 100 lbs`;
-      doc.text(weightText, margin + 50, yPos);
-      doc.text(`$${formatNumber(weightFactor, 2)}`, pageWidth - margin, yPos, { align: 'right' });
+      doc.text(quote.pricing_rule, margin + 50, yPos);
       yPos += 7;
     }
 
-    // Minimum Quote
-    if (minimumApplied) {
+    // Line items
+    lineItems.forEach((item) => {
       doc.setTextColor(166, 124, 82);
-      doc.text('Minimum Quote', margin, yPos);
+      doc.text(item.description, margin, yPos);
       doc.setTextColor(78, 59, 49);
-      doc.text('Applied minimum quote', margin + 50, yPos);
-      doc.text(`$${formatNumber(MINIMUM_QUOTE, 2)}`, pageWidth - margin, yPos, { align: 'right' });
+      if (item.detail) {
+        doc.text(item.detail, margin + 50, yPos);
+      }
+      doc.text(formatMoney(item.amount), pageWidth - margin, yPos, { align: 'right' });
       yPos += 7;
-    }
+    });
 
     // Total
     yPos += 3;
@@ -244,7 +324,7 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     doc.setFontSize(10);
     doc.setFont('helvetica', 'bold');
     doc.text('Total:', margin, yPos);
-    doc.text(`$${formatNumber(quoteAmount, 2)}`, pageWidth - margin, yPos, { align: 'right' });
+    doc.text(formatMoney(quoteAmount), pageWidth - margin, yPos, { align: 'right' });
     yPos += 10;
 
     // Footer
@@ -252,6 +332,13 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(166, 124, 82);
     doc.text(`Created: ${format(new Date(quote.created_at), 'MMM dd, yyyy HH:mm')}`, margin, yPos);
+    if (quote.rate_card_version) {
+      doc.text(`Rate card v${quote.rate_card_version}`, pageWidth - margin, yPos, { align: 'right' });
+    }
+    if (exchangeRateText) {
+      yPos += 5;
+      doc.text(exchangeRateText, pageWidth - margin, yPos, { align: 'right' });
+    }
 
     doc.save(`quote-${quote.id}.pdf`);
     setShowDownloadMenu(false);
@@ -263,15 +350,24 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
       ['Shipment Quote'],
       ['Quote ID', quote.id],
       [''],
-      ['Total Quote', `$${formatNumber(quoteAmount, 2)}`],
+      ['Total Quote', formatMoney(quoteAmount)],
+      ['Currency', currency],
       [''],
       ['Route Information'],
-      ['Origin', `${quote.origin_city}${quote.origin_state_province ? `, ${quote.origin_state_province}` : ''}`],
-      ['Destination', `${quote.destination_city}${quote.destination_state_province ? `, ${quote.destination_state_province}` : ''}`],
+      ['Origin', formatPlace(quote.origin_city, quote.origin_state_province, quote.origin_address)],
+      ...intermediateStops.map((stop, index) => [
+        `Stop ${index + 1} (${stop.stop_type})`,
+        formatPlace(stop.city, stop.state_province, stop.address),
+      ]),
+      ['Destination', formatPlace(quote.destination_city, quote.destination_state_province, quote.destination_address)],
+      ['Cross-Border', quote.is_cross_border ? 'Yes' : 'No'],
+      ['Border Crossing', portOfEntryLabel || 'N/A'],
       [''],
       ['Details'],
       ['Distance (km)', formatNumber(distanceKm, 2)],
       ['Distance (miles)', formatNumber(distanceMiles, 2)],
+      ['Distance Source', distanceSourceLabel || 'N/A'],
+      ['Deadhead', deadheadLabel || 'N/A'],
       ['Equipment Type', quote.equipment_type.replace(/_/g, ' ')],
     ];
 
@@ -283,31 +379,45 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
       data.push(['Pickup Date', format(new Date(quote.pickup_date), 'MMM dd, yyyy')]);
     }
 
+    if (quote.valid_until) {
+      data.push(['Valid Until', format(new Date(quote.valid_until), 'MMM dd, yyyy HH:mm')]);
+    }
+
+    if (calendarRules.length > 0) {
+      data.push(['Pickup Rules', calendarRules.map((rule) => `${rule.name} (${rule.reason})`).join('; ')]);
+    }
+
+    if (quote.estimated_delivery_date) {
+      data.push(['Estimated Delivery', format(new Date(quote.estimated_delivery_date), 'MMM dd, yyyy')]);
+      data.push(['Transit Time', transitLabel || 'N/A']);
+    }
+
     data.push(['']);
     data.push(['Price per Distance']);
     if (distanceKm > 0) {
-      data.push(['Price per km', `$${formatNumber(pricePerKm, 2)}`]);
+      data.push(['Price per km', formatMoney(pricePerKm)]);
     }
     if (distanceMiles > 0) {
-      data.push(['Price per mile', `$${formatNumber(pricePerMile, 2)}`]);
+      data.push(['Price per mile', formatMoney(pricePerMile)]);
     }
     data.push(['']);
     data.push(['Calculation Breakdown']);
-    data.push(['Base Rate', `${formatNumber(distanceMiles, 2)} miles - $${BASE_RATE_PER_MILE.toFixed(2)}/mile`]);
-    data.push(['', `$${formatNumber(baseQuote, 2)}`]);
-    data.push(['Equipment Multiplier', `${quote.equipment_type.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase())} - ${equipmentMultiplier.toFixed(2)}x`]);
-    data.push(['', `$${formatNumber(quoteAfterEquipment, 2)}`]);
-    if (weightFactor > 0) {
-      data.push(['Weight Factor (over 10,000 lbs)', `${formatNumber(weightOverThreshold, 0)} lbs - $${WEIGHT_FACTOR_RATE.toFixed(2)} per 100 lbs`]);
-      data.push(['', `$${formatNumber(weightFactor, 2)}`]);
-    }
-    if (minimumApplied) {
-      data.push(['Minimum Quote', 'Applied minimum quote']);
-      data.push(['', `$${formatNumber(MINIMUM_QUOTE, 2)}`]);
+    if (quote.pricing_rule) {
+      data.push(['Pricing Rule', quote.pricing_rule]);
     }
-    data.push(['Total', `$${formatNumber(quoteAmount, 2)}`]);
+    lineItems.forEach((item) => {
+      data.push([item.description, item.detail || '']);
+      data.push(['', formatMoney(item.amount)]);
+    });
+    data.push(['Total', formatMoney(quoteAmount)]);
     data.push(['']);
     data.push(['Created', format(new Date(quote.created_at), 'MMM dd, yyyy HH:mm')]);
+    if (quote.rate_card_version) {
+      data.push(['Rate Card Version', quote.rate_card_version]);
+    }
+    if (exchangeRateText) {
+      data.push(['Exchange Rate', exchangeRateText]);
+    }
 
     const ws = XLSX.utils.aoa_to_sheet(data);
     const wb = XLSX.utils.book_new();
@@ -326,20 +436,49 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
       <div className="flex items-center justify-between pb-3 border-b border-[#EBD9C3]">
         <div>
           <h2 className="text-lg font-bold text-[#4E3B31]">Quote Result</h2>
-          <p className="text-xs text-[#A67C52] mt-0.5">Quote #{quote.id}</p>
+          <p className="text-xs text-[#A67C52] mt-0.5">
+            Quote #{quote.id}
+            {quote.is_cross_border && (
+              <span className="ml-2 px-1.5 py-0.5 rounded bg-[#EBD9C3] text-[#4E3B31] font-medium">Cross-border</span>
+            )}
+            {quote.status && <QuoteStatusBadge status={quote.status} className="ml-2" />}
+            {quote.status && <ExpiryCountdown validUntil={quote.valid_until} status={quote.status} className="ml-2" />}
+          </p>
+          {quote.parent_quote_id && (
+            <p className="text-xs text-[#A67C52] mt-0.5">Requote of #{quote.parent_quote_id}</p>
+          )}
+          {quote.customer_reference && (
+            <p className="text-xs text-[#A67C52] mt-0.5">Ref: {quote.customer_reference}</p>
+          )}
         </div>
         <div className="w-8 h-8 rounded-full bg-[#4E3B31] flex items-center justify-center text-white text-sm font-medium">
           ✓
         </div>
       </div>
 
+      {/* Requote */}
+      {onRequote && (
+        <RequoteButton key={quote.id} equipmentType={quote.equipment_type as EquipmentType} onRequote={onRequote} isLoading={isRequoting} />
+      )}
+      {priceDelta && (
+        <div className="bg-[#EBD9C3] rounded-lg px-3 py-2 text-xs text-[#4E3B31]">
+          <span className="font-medium">
+            {priceDelta.amount === 0
+              ? 'Same price'
+              : `${priceDelta.amount > 0 ? '+' : '−'}${formatMoney(Math.abs(priceDelta.amount))}` +
+                (priceDelta.percent !== null ? ` (${priceDelta.amount > 0 ? '+' : '−'}${Math.abs(priceDelta.percent).toFixed(1)}%)` : '')}
+          </span>{' '}
+          versus {formatMoney(priceDelta.parent_quote_amount)} on quote #{priceDelta.parent_quote_id}
+        </div>
+      )}
+
       {/* Quote Amount and Price Per - Combined Display */}
       <div className="bg-[#4E3B31] rounded-lg px-4 py-2 text-white">
         <div className="flex items-center gap-4">
           {/* Total Quote */}
           <div className="flex-1">
-            <div className="text-xs font-medium opacity-90 mb-1">Total Quote</div>
-            <div className="text-2xl font-bold">${formatNumber(quoteAmount, 2)}</div>
+            <div className="text-xs font-medium opacity-90 mb-1">Total Quote ({currency})</div>
+            <div className="text-2xl font-bold">{formatMoney(quoteAmount)}</div>
           </div>
           
           {/* Divider */}
@@ -350,12 +489,12 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
             <div className="space-y-0.2">
               {distanceKm > 0 && (
                 <div className="text-lg font-bold">
-                  ${formatNumber(pricePerKm, 2)} <span className="text-xs font-normal opacity-80">/km</span>
+                  {formatMoney(pricePerKm)} <span className="text-xs font-normal opacity-80">/km</span>
                 </div>
               )}
               {distanceMiles > 0 && (
                 <div className="text-lg font-bold">
-                  ${formatNumber(pricePerMile, 2)} <span className="text-xs font-normal opacity-80">/mile</span>
+                  {formatMoney(pricePerMile)} <span className="text-xs font-normal opacity-80">/mile</span>
                 </div>
               )}
               {distanceMiles === 0 && distanceKm === 0 && (
@@ -387,53 +526,30 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
         {/* Calculation Details */}
         {showCalculationDetails && (
           <div className="mt-3 pt-3 border-t border-white border-opacity-20 space-y-3 text-xs">
-            {/* Base Rate */}
-            <div>
-              <div className="font-medium mb-1">Base Rate</div>
-              <div className="flex justify-between opacity-80">
-                <span>{formatNumber(distanceMiles, 2)} miles - ${BASE_RATE_PER_MILE.toFixed(2)}/mile</span>
-                <span className="font-medium">${formatNumber(baseQuote, 2)}</span>
-              </div>
-            </div>
-
-            {/* Equipment Multiplier */}
-            <div>
-              <div className="font-medium mb-1">Equipment Multiplier</div>
-              <div className="flex justify-between opacity-80">
-                <span>{quote.equipment_type.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase())} - {equipmentMultiplier.toFixed(2)}x</span>
-                <span className="font-medium">${formatNumber(quoteAfterEquipment, 2)}</span>
-              </div>
-            </div>
-
-            {/* Weight Factor */}
-            {weightFactor > 0 && (
+            {/* Pricing Rule */}
+            {quote.pricing_rule && (
               <div>
-                <div className="font-medium mb-1">Weight Factor (over {WEIGHT_THRESHOLD.toLocaleString()} lbs)</div>
-                <div className="flex justify-between opacity-80">
-                  <span>
-                    {formatNumber(weightOverThreshold, 0)} lbs - ${WEIGHT_FACTOR_RATE.toFixed(2)} per 100 lbs
-                  </span>
-                  <span className="font-medium">${formatNumber(weightFactor, 2)}</span>
-                </div>
+                <div className="font-medium mb-1">Pricing Rule</div>
+                <div className="opacity-80">{quote.pricing_rule}</div>
               </div>
             )}
 
-            {/* Minimum Quote */}
-            {minimumApplied && (
-              <div>
-                <div className="font-medium opacity-90 mb-1">Minimum Quote</div>
-                <div className="flex justify-between">
-                  <span>Applied minimum quote</span>
-                  <span className="font-medium">${formatNumber(MINIMUM_QUOTE, 2)}</span>
+            {/* Line Items */}
+            {lineItems.map((item, index) => (
+              <div key={index}>
+                <div className="font-medium mb-1">{item.description}</div>
+                <div className="flex justify-between opacity-80">
+                  <span>{item.detail}</span>
+                  <span className="font-medium">{formatMoney(item.amount)}</span>
                 </div>
               </div>
-            )}
+            ))}
 
             {/* Total */}
             <div className="pt-2 border-t border-white border-opacity-10">
               <div className="flex justify-between font-semibold opacity-100">
                 <span>Total:</span>
-                <span>${formatNumber(quoteAmount, 2)}</span>
+                <span>{formatMoney(quoteAmount)}</span>
               </div>
             </div>
           </div>
@@ -445,28 +561,31 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
         <div className="flex items-center gap-3">
           <div className="text-xs font-medium text-[#A67C52] uppercase whitespace-nowrap">Route</div>
           <div className="text-[#C8A27A]">|</div>
-          <div className="flex items-center flex-1 gap-2">
-            <div className="text-sm font-semibold text-[#4E3B31]">
-              {quote.origin_city}{quote.origin_state_province ? `, ${quote.origin_state_province}` : ''}
-            </div>
-            <div className="shrink-0">
-              <svg 
-                className="w-4 h-4 text-[#4E3B31]" 
-                fill="none" 
-                viewBox="0 0 24 24" 
-                stroke="currentColor"
-              >
-                <path 
-                  strokeLinecap="round" 
-                  strokeLinejoin="round" 
-                  strokeWidth={2} 
-                  d="M13 5l7 7m0 0l-7 7m7-7H3" 
-                />
-              </svg>
-            </div>
-            <div className="text-sm font-semibold text-[#4E3B31]">
-              {quote.destination_city}{quote.destination_state_province ? `, ${quote.destination_state_province}` : ''}
-            </div>
+          <div className="flex flex-wrap items-center flex-1 gap-2">
+            {routePlaces.map((place, index) => (
+              <div key={index} className="flex items-center gap-2">
+                {index > 0 && (
+                  <div className="shrink-0">
+                    <svg 
+                      className="w-4 h-4 text-[#4E3B31]" 
+                      fill="none" 
+                      viewBox="0 0 24 24" 
+                      stroke="currentColor"
+                    >
+                      <path 
+                        strokeLinecap="round" 
+                        strokeLinejoin="round" 
+                        strokeWidth={2} 
+                        d="M13 5l7 7m0 0l-7 7m7-7H3" 
+                      />
+                    </svg>
+                  </div>
+                )}
+                <div className={`text-sm font-semibold text-[#4E3B31] ${index > 0 && index < routePlaces.length - 1 ? 'opacity-80' : ''}`}>
+                  {place}
+                </div>
+              </div>
+            ))}
           </div>
         </div>
       </div>
@@ -483,6 +602,27 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
           <div className="text-lg font-bold text-[#4E3B31]">
             {formatNumber(quote.distance_miles, 2)} <span className="text-xs text-[#C8A27A]">miles</span>
           </div>
+          {distanceSourceLabel && (
+            <div
+              className={`mt-2 inline-block text-xs px-1.5 py-0.5 rounded font-medium ${
+                quote.distance_source === 'osrm' || quote.distance_source === 'valhalla'
+                  ? 'bg-[#EBD9C3] text-[#4E3B31]'
+                  : 'bg-[#A67C52] text-white'
+              }`}
+            >
+              {distanceSourceLabel}
+            </div>
+          )}
+          {deadheadLabel && (
+            <div className="mt-2 text-xs text-[#A67C52]">
+              <span className="font-medium">Deadhead:</span> {deadheadLabel}
+            </div>
+          )}
+          {portOfEntryLabel && (
+            <div className="mt-1 text-xs text-[#A67C52]">
+              <span className="font-medium">Border crossing:</span> {portOfEntryLabel}
+            </div>
+          )}
         </div>
 
         {quote.total_weight ? (
@@ -525,34 +665,69 @@ export default function QuoteResult({ quote }: QuoteResultProps) {
             <div className="text-sm font-semibold text-[#4E3B31]">
               {format(new Date(quote.pickup_date), 'MMM dd, yyyy')}
             </div>
+            {calendarRules.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {calendarRules.map((rule) => (
+                  <span
+                    key={rule.code}
+                    title={rule.reason}
+                    className="text-[10px] font-medium text-white bg-[#A67C52] px-1.5 py-0.5 rounded"
+                  >
+                    {rule.name}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <div></div>
         )}
+
+        {quote.estimated_delivery_date && (
+          <div className="col-span-2 bg-[#F7F3EF] rounded-lg p-2 border border-[#C8A27A]">
+            <div className="text-xs font-medium text-[#A67C52] uppercase mb-1">Estimated Delivery</div>
+            <div className="flex flex-wrap items-center justify-between gap-1">
+              <span className="text-sm font-semibold text-[#4E3B31]">
+                {format(new Date(quote.estimated_delivery_date), 'MMM dd, yyyy')}
+              </span>
+              <span className="text-xs text-[#A67C52]">{transitLabel}</span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Route Map */}
-      {quote.origin_coordinates &&
-        quote.destination_coordinates &&
-        !isNaN(Number(quote.origin_coordinates.latitude)) &&
-        !isNaN(Number(quote.origin_coordinates.longitude)) &&
-        !isNaN(Number(quote.destination_coordinates.latitude)) &&
-        !isNaN(Number(quote.destination_coordinates.longitude)) && (
+      {routeMapStops.every((stop) => !isNaN(stop.latitude) && !isNaN(stop.longitude)) && (
           <div className="bg-[#F7F3EF] rounded-lg p-3 border border-[#C8A27A]">
             <div className="text-xs font-medium text-[#A67C52] uppercase mb-2">Route Map</div>
             <RouteMap
-              origin={routeMapOrigin}
-              destination={routeMapDestination}
+              quoteId={quote.id}
+              stops={routeMapStops}
               height="250px"
+              onPinMove={onPinMove}
             />
+            {onPinMove && (
+              <p className="mt-2 text-xs text-[#A67C52]">Drag the origin or destination pin to requote from that spot.</p>
+            )}
           </div>
         )}
 
+      {/* Revisions (reloaded whenever the quote is saved again) */}
+      <RevisionTimeline key={`${quote.id}-${quote.updated_at}`} quoteId={quote.id} />
+
       {/* Timestamp and Download */}
       <div className="pt-3 border-t border-[#EBD9C3] flex items-center justify-between">
-        <p className="text-xs text-[#A67C52]">
-          Created: {format(new Date(quote.created_at), 'MMM dd, yyyy HH:mm')}
-        </p>
+        <div>
+          <p className="text-xs text-[#A67C52]">
+            Created: {format(new Date(quote.created_at), 'MMM dd, yyyy HH:mm')}
+          </p>
+          {quote.rate_card_version && (
+            <p className="text-xs text-[#C8A27A]">Rate card v{quote.rate_card_version}</p>
+          )}
+          {exchangeRateText && (
+            <p className="text-xs text-[#C8A27A]">{exchangeRateText}</p>
+          )}
+        </div>
         <div className="relative" ref={downloadMenuRef}>
           <button
             onClick={() => setShowDownloadMenu(!showDownloadMenu)}
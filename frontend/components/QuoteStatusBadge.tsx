@@ -0,0 +1,34 @@
+import { QuoteStatus } from '@/lib/api';
+
+interface QuoteStatusBadgeProps {
+  status: QuoteStatus;
+  className?: string;
+}
+
+export const statusLabels: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+const statusClassNames: Record<QuoteStatus, string> = {
+  draft: 'bg-[#F7F3EF] text-[#A67C52] border-[#C8A27A]',
+  sent: 'bg-[#A67C52] text-white border-[#A67C52]',
+  accepted: 'bg-[#4E3B31] text-white border-[#4E3B31]',
+  rejected: 'bg-red-50 text-red-700 border-red-300',
+  expired: 'bg-[#EBD9C3] text-[#4E3B31] border-[#C8A27A]',
+  cancelled: 'bg-white text-[#A67C52] border-[#EBD9C3] line-through',
+};
+
+export default function QuoteStatusBadge({ status, className = '' }: QuoteStatusBadgeProps) {
+  return (
+    <span
+      className={`inline-block text-[10px] font-medium uppercase tracking-wide px-1.5 py-0.5 rounded border ${statusClassNames[status]} ${className}`}
+    >
+      {statusLabels[status]}
+    </span>
+  );
+}
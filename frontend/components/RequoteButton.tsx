@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { format as formatDate } from 'date-fns';
+import { EquipmentType, RequoteRequest } from '@/lib/api';
+
+interface RequoteButtonProps {
+  // Equipment of the quote being requoted (kept unless another is picked)
+  equipmentType: EquipmentType;
+  onRequote: (request: RequoteRequest) => void | Promise<void>;
+  isLoading?: boolean;
+}
+
+const equipmentTypes: EquipmentType[] = ['dry_van', 'reefer', 'flatbed', 'step_deck', 'hotshot', 'straight_truck'];
+
+export default function RequoteButton({ equipmentType, onRequote, isLoading = false }: RequoteButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Empty = keep the original pickup date
+  const [pickupDate, setPickupDate] = useState<Date | null>(null);
+  const [selectedEquipment, setSelectedEquipment] = useState<EquipmentType>(equipmentType);
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="px-3 py-1.5 rounded-md border border-[#A67C52] text-xs font-medium text-[#4E3B31] hover:bg-[#F7F3EF] transition-colors"
+      >
+        Requote
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-[#F7F3EF] p-3 rounded-lg border border-[#C8A27A] space-y-3">
+      <div className="text-sm font-bold text-[#4E3B31]">Requote with today&apos;s rates</div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Pickup Date</label>
+          <DatePicker
+            selected={pickupDate}
+            onChange={(date: Date | null) => setPickupDate(date)}
+            minDate={new Date()}
+            dateFormat="MMMM dd, yyyy"
+            placeholderText="Keep original"
+            isClearable
+            className="w-full px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] placeholder-[#C8A27A] text-sm focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+            calendarClassName="rounded-md shadow-lg border border-[#C8A27A]"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-[#A67C52] uppercase mb-1">Equipment</label>
+          <select
+            value={selectedEquipment}
+            onChange={(e) => setSelectedEquipment(e.target.value as EquipmentType)}
+            className="w-full px-3 py-2 rounded-md border border-[#C8A27A] bg-white text-[#4E3B31] text-sm capitalize focus:outline-none focus:ring-1 focus:ring-[#A67C52] focus:border-[#A67C52]"
+          >
+            {equipmentTypes.map((type) => (
+              <option key={type} value={type}>
+                {type.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            onRequote({
+              pickup_date: pickupDate ? formatDate(pickupDate, 'yyyy-MM-dd') : undefined,
+              equipment_type: selectedEquipment !== equipmentType ? selectedEquipment : undefined,
+            })
+          }
+          disabled={isLoading}
+          className="flex-1 bg-[#4E3B31] text-white py-2 px-4 rounded-md font-medium text-sm hover:bg-[#3E2F27] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Repricing...' : 'Reprice'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-3 py-2 text-xs font-medium text-[#A67C52] hover:text-[#4E3B31]"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { QuoteRevision, QuoteRevisionChange, QuoteRevisionSource, quoteAPI } from '@/lib/api';
+import { formatCurrency } from '@/lib/format';
+
+interface RevisionTimelineProps {
+  quoteId: number;
+}
+
+const sourceLabels: Record<QuoteRevisionSource, string> = {
+  created: 'Created',
+  requoted: 'Requoted',
+  edited: 'Edited',
+};
+
+// Changed fields worth naming in a revision's summary (the rest are counted)
+const changeLabels: Record<string, string> = {
+  quote_amount: 'amount',
+  pickup_date: 'pickup date',
+  total_weight: 'weight',
+  equipment_type: 'equipment',
+  currency: 'currency',
+  stops: 'stops',
+  lane: 'lane',
+  port_of_entry_name: 'port of entry',
+};
+
+// Summary of what a revision changed (e.g. "amount, weight and 4 more")
+const summarizeChanges = (changes: QuoteRevisionChange[]): string => {
+  const named = changes.map((change) => changeLabels[change.field]).filter(Boolean);
+  const others = changes.length - named.length;
+  const parts = others > 0 ? [...named, `${others} more`] : named;
+  if (parts.length <= 1) return parts[0] ?? 'no changes';
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
+
+export default function RevisionTimeline({ quoteId }: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<QuoteRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+
+  useEffect(() => {
+    quoteAPI
+      .getRevisions(quoteId)
+      .then((response) => setRevisions(response.data))
+      .catch((err) => {
+        console.error('Failed to load quote revisions:', err);
+        setError('Failed to load revisions');
+      });
+  }, [quoteId]);
+
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  // A single revision has nothing to compare with
+  if (!revisions || revisions.length < 2) return null;
+
+  const latestNumber = revisions[revisions.length - 1].revision_number;
+  const selected = revisions.find((revision) => revision.revision_number === selectedNumber);
+
+  return (
+    <div className="bg-[#F7F3EF] rounded-lg p-3 border border-[#C8A27A]">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xs font-medium text-[#A67C52] uppercase"
+      >
+        <span>Revisions ({revisions.length})</span>
+        <span>{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <ol className="border-l-2 border-[#C8A27A] ml-1 space-y-2">
+            {[...revisions].reverse().map((revision) => {
+              const isSelected = revision.revision_number === selectedNumber;
+              return (
+                <li key={revision.revision_number} className="pl-3 relative">
+                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-[#A67C52]" />
+                  <button
+                    type="button"
+                    onClick={() => setSelectedNumber(isSelected ? null : revision.revision_number)}
+                    className={`w-full text-left rounded-md px-2 py-1 transition-colors ${
+                      isSelected ? 'bg-[#EBD9C3]' : 'hover:bg-[#EBD9C3]/50'
+                    }`}
+                  >
+                    <div className="flex justify-between text-sm text-[#4E3B31]">
+                      <span className="font-medium">
+                        v{revision.revision_number} · {sourceLabels[revision.source]}
+                        {revision.revision_number === latestNumber && (
+                          <span className="ml-1 text-xs text-[#A67C52]">(current)</span>
+                        )}
+                      </span>
+                      <span className="font-bold">
+                        {formatCurrency(revision.snapshot.quote_amount, revision.snapshot.currency)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs text-[#A67C52]">
+                      <span>
+                        {revision.changes.length > 0 ? `Changed ${summarizeChanges(revision.changes)}` : 'First version'}
+                      </span>
+                      <span>{format(new Date(revision.created_at), 'MMM dd, yyyy HH:mm')}</span>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+
+          {selected && (
+            <div className="bg-white rounded-md p-3 border border-[#EBD9C3] text-xs text-[#4E3B31] space-y-2">
+              <div className="font-bold text-sm">Version {selected.revision_number}</div>
+              <div className="grid grid-cols-2 gap-1">
+                <span className="text-[#A67C52]">Lane</span>
+                <span>{selected.snapshot.lane}</span>
+                <span className="text-[#A67C52]">Equipment</span>
+                <span className="capitalize">{selected.snapshot.equipment_type.replace(/_/g, ' ')}</span>
+                <span className="text-[#A67C52]">Weight</span>
+                <span>
+                  {selected.snapshot.total_weight != null
+                    ? `${Number(selected.snapshot.total_weight).toLocaleString()} lbs`
+                    : 'N/A'}
+                </span>
+                <span className="text-[#A67C52]">Pickup</span>
+                <span>
+                  {selected.snapshot.pickup_date
+                    ? format(parseISO(selected.snapshot.pickup_date), 'MMM dd, yyyy')
+                    : 'N/A'}
+                </span>
+                {selected.snapshot.estimated_delivery_date && (
+                  <>
+                    <span className="text-[#A67C52]">Delivery</span>
+                    <span>{format(parseISO(selected.snapshot.estimated_delivery_date), 'MMM dd, yyyy')}</span>
+                  </>
+                )}
+                {selected.snapshot.stops && selected.snapshot.stops.length > 2 && (
+                  <>
+                    <span className="text-[#A67C52]">Stops</span>
+                    <span>{selected.snapshot.stops.map((stop) => stop.city).join(' → ')}</span>
+                  </>
+                )}
+              </div>
+              <div className="border-t border-[#EBD9C3] pt-2 space-y-1">
+                {(selected.snapshot.line_items || []).map((item, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>{item.description}</span>
+                    <span>{formatCurrency(item.amount, selected.snapshot.currency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold border-t border-[#EBD9C3] pt-1">
+                  <span>Total</span>
+                  <span>{formatCurrency(selected.snapshot.quote_amount, selected.snapshot.currency)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
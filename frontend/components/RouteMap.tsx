@@ -3,182 +3,185 @@
 import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import axios from 'axios';
+import { QuotePortOfEntryFeature, QuoteRouteFeature, quoteAPI } from '@/lib/api';
+
+export interface RouteMapStop {
+  latitude: number;
+  longitude: number;
+  city: string;
+  state_province?: string;
+  type: 'pickup' | 'drop';
+}
+
+export type PinField = 'origin' | 'destination';
 
 interface RouteMapProps {
-  origin: {
-    latitude: number;
-    longitude: number;
-    city: string;
-    state_province?: string;
-  };
-  destination: {
-    latitude: number;
-    longitude: number;
-    city: string;
-    state_province?: string;
-  };
+  // Quote whose stored route is drawn
+  quoteId: number;
+  // Stops in route order: origin first, destination last
+  stops: RouteMapStop[];
   height?: string;
+  // Makes the origin and destination pins draggable; called where a pin is dropped
+  onPinMove?: (field: PinField, coordinates: { latitude: number; longitude: number }) => void;
 }
 
-export default function RouteMap({ origin, destination, height = '300px' }: RouteMapProps) {
+const isValidStop = (stop: RouteMapStop) => {
+  const lat = Number(stop.latitude);
+  const lng = Number(stop.longitude);
+  return !isNaN(lat) && !isNaN(lng) && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+};
+
+// Numbered marker with the stop's city as a label
+const createStopIcon = (stop: RouteMapStop, number: number) =>
+  L.divIcon({
+    className: 'custom-marker-label',
+    html: `
+      <div style="
+        position: relative;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        text-align: center;
+      ">
+        <div style="
+          background: #4E3B31;
+          color: white;
+          padding: 4px 8px;
+          border-radius: 4px;
+          font-size: 11px;
+          font-weight: bold;
+          white-space: nowrap;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          margin-bottom: 4px;
+        ">${stop.city}</div>
+        <div style="
+          width: 0;
+          height: 0;
+          border-left: 6px solid transparent;
+          border-right: 6px solid transparent;
+          border-top: 6px solid #4E3B31;
+        "></div>
+        <div style="
+          width: 18px;
+          height: 18px;
+          background: ${stop.type === 'pickup' ? '#4E3B31' : '#A67C52'};
+          color: white;
+          font-size: 10px;
+          font-weight: bold;
+          line-height: 14px;
+          border-radius: 50%;
+          border: 2px solid white;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          margin-top: 2px;
+        ">${number}</div>
+      </div>
+    `,
+    iconSize: [100, 56],
+    iconAnchor: [50, 48],
+    popupAnchor: [0, -48],
+  });
+
+// Border crossing marker: a diamond with the port's name
+const createPortIcon = (name: string) =>
+  L.divIcon({
+    className: 'custom-marker-label',
+    html: `
+      <div style="
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        text-align: center;
+      ">
+        <div style="
+          background: #F7F3EF;
+          color: #4E3B31;
+          border: 1px solid #A67C52;
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 10px;
+          font-weight: bold;
+          white-space: nowrap;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          margin-bottom: 4px;
+        ">${name}</div>
+        <div style="
+          width: 12px;
+          height: 12px;
+          background: #C8A27A;
+          border: 2px solid #4E3B31;
+          transform: rotate(45deg);
+        "></div>
+      </div>
+    `,
+    iconSize: [140, 40],
+    iconAnchor: [70, 34],
+    popupAnchor: [0, -34],
+  });
+
+export default function RouteMap({ quoteId, stops, height = '300px', onPinMove }: RouteMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const routeLineRef = useRef<L.Polyline | null>(null);
   const [isLoadingRoute, setIsLoadingRoute] = useState(true);
+  // Latest callback, so a new handler does not rebuild the map
+  const onPinMoveRef = useRef(onPinMove);
+  const pinsDraggable = !!onPinMove;
+
+  useEffect(() => {
+    onPinMoveRef.current = onPinMove;
+  }, [onPinMove]);
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
     // Validate coordinates
-    const originLat = Number(origin.latitude);
-    const originLng = Number(origin.longitude);
-    const destLat = Number(destination.latitude);
-    const destLng = Number(destination.longitude);
-
-    if (
-      isNaN(originLat) ||
-      isNaN(originLng) ||
-      isNaN(destLat) ||
-      isNaN(destLng) ||
-      originLat < -90 ||
-      originLat > 90 ||
-      originLng < -180 ||
-      originLng > 180 ||
-      destLat < -90 ||
-      destLat > 90 ||
-      destLng < -180 ||
-      destLng > 180
-    ) {
-      console.error('Invalid coordinates:', { origin, destination });
+    if (stops.length < 2 || !stops.every(isValidStop)) {
+      console.error('Invalid coordinates:', stops);
       return;
     }
 
+    const points: [number, number][] = stops.map((stop) => [Number(stop.latitude), Number(stop.longitude)]);
+
     // Initialize map
-    const map = L.map(mapContainerRef.current).setView(
-      [(originLat + destLat) / 2, (originLng + destLng) / 2],
-      5
-    );
+    const map = L.map(mapContainerRef.current).fitBounds(L.latLngBounds(points), { padding: [50, 50] });
 
     // Add OpenStreetMap tiles
     L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: false, // Remove attribution
+      attribution: '', // Remove attribution
       maxZoom: 19,
     }).addTo(map);
 
     // Fix default marker icon issue
-    delete (L.Icon.Default.prototype as any)._getIconUrl;
+    delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
     L.Icon.Default.mergeOptions({
       iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon-2x.png',
       iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon.png',
       shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
     });
 
-    // Create custom marker with label for origin
-    const originIcon = L.divIcon({
-      className: 'custom-marker-label',
-      html: `
-        <div style="
-          position: relative;
-          display: flex;
-          flex-direction: column;
-          align-items: center;
-          text-align: center;
-        ">
-          <div style="
-            background: #4E3B31;
-            color: white;
-            padding: 4px 8px;
-            border-radius: 4px;
-            font-size: 11px;
-            font-weight: bold;
-            white-space: nowrap;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-            margin-bottom: 4px;
-          ">${origin.city}</div>
-          <div style="
-            width: 0;
-            height: 0;
-            border-left: 6px solid transparent;
-            border-right: 6px solid transparent;
-            border-top: 6px solid #4E3B31;
-          "></div>
-          <div style="
-            width: 12px;
-            height: 12px;
-            background: #4E3B31;
-            border-radius: 50%;
-            border: 2px solid white;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-            margin-top: 2px;
-          "></div>
-        </div>
-      `,
-      iconSize: [100, 50],
-      iconAnchor: [50, 45],
-      popupAnchor: [0, -45],
-    });
+    // Add a numbered marker per stop; the origin and destination can be dragged to move them
+    stops.forEach((stop, index) => {
+      const field: PinField | null = index === 0 ? 'origin' : index === stops.length - 1 ? 'destination' : null;
+      const label =
+        field === 'origin' ? 'Origin' : field === 'destination' ? 'Destination' : `Stop ${index + 1} (${stop.type})`;
+      const marker = L.marker(points[index], {
+        icon: createStopIcon(stop, index + 1),
+        draggable: pinsDraggable && field !== null,
+      })
+        .addTo(map)
+        .bindPopup(`<strong>${label}:</strong><br>${stop.city}${stop.state_province ? `, ${stop.state_province}` : ''}`);
 
-    // Create custom marker with label for destination
-    const destIcon = L.divIcon({
-      className: 'custom-marker-label',
-      html: `
-        <div style="
-          position: relative;
-          display: flex;
-          flex-direction: column;
-          align-items: center;
-          text-align: center;
-        ">
-          <div style="
-            background: #4E3B31;
-            color: white;
-            padding: 4px 8px;
-            border-radius: 4px;
-            font-size: 11px;
-            font-weight: bold;
-            white-space: nowrap;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-            margin-bottom: 4px;
-          ">${destination.city}</div>
-          <div style="
-            width: 0;
-            height: 0;
-            border-left: 6px solid transparent;
-            border-right: 6px solid transparent;
-            border-top: 6px solid #4E3B31;
-          "></div>
-          <div style="
-            width: 12px;
-            height: 12px;
-            background: #4E3B31;
-            border-radius: 50%;
-            border: 2px solid white;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-            margin-top: 2px;
-          "></div>
-        </div>
-      `,
-      iconSize: [100, 50],
-      iconAnchor: [50, 45],
-      popupAnchor: [0, -45],
+      if (field) {
+        marker.on('dragend', () => {
+          const { lat, lng } = marker.getLatLng();
+          onPinMoveRef.current?.(field, { latitude: lat, longitude: lng });
+        });
+      }
     });
 
-    // Add origin marker with label
-    const originMarker = L.marker([originLat, originLng], { icon: originIcon }).addTo(map);
-    originMarker.bindPopup(
-      `<strong>Origin:</strong><br>${origin.city}${origin.state_province ? `, ${origin.state_province}` : ''}`
-    );
-
-    // Add destination marker with label
-    const destMarker = L.marker([destLat, destLng], { icon: destIcon }).addTo(map);
-    destMarker.bindPopup(
-      `<strong>Destination:</strong><br>${destination.city}${destination.state_province ? `, ${destination.state_province}` : ''}`
-    );
-
     mapRef.current = map;
 
-    // Fetch driving route from OSRM
+    // Fetch the route the quote was priced on
     const fetchRoute = async () => {
       // Check if map is still valid before starting
       if (!mapRef.current || !mapContainerRef.current) {
@@ -188,17 +191,7 @@ export default function RouteMap({ origin, destination, height = '300px' }: Rout
 
       try {
         setIsLoadingRoute(true);
-        const coordinates = `${originLng},${originLat};${destLng},${destLat}`;
-        const response = await axios.get(
-          `https://router.project-osrm.org/route/v1/driving/${coordinates}`,
-          {
-            params: {
-              overview: 'full', // Get full route geometry
-              geometries: 'geojson',
-            },
-            timeout: 5000,
-          }
-        );
+        const response = await quoteAPI.getRoute(quoteId);
 
         // Check if map is still valid after async operation
         if (!mapRef.current || !mapContainerRef.current) {
@@ -206,23 +199,37 @@ export default function RouteMap({ origin, destination, height = '300px' }: Rout
           return;
         }
 
-        if (response.data && response.data.routes && response.data.routes.length > 0) {
-          const route = response.data.routes[0];
-          const geometry = route.geometry;
+        const route = response.data.features.find(
+          (feature): feature is QuoteRouteFeature => feature.properties.kind === 'route'
+        );
 
+        // Border crossing the route was forced through
+        const port = response.data.features.find(
+          (feature): feature is QuotePortOfEntryFeature => feature.properties.kind === 'port_of_entry'
+        );
+        if (port) {
+          const [portLon, portLat] = port.geometry.coordinates;
+          L.marker([portLat, portLon], { icon: createPortIcon(port.properties.name) })
+            .addTo(mapRef.current)
+            .bindPopup(
+              `<strong>Port of entry:</strong><br>${port.properties.name}` +
+                (port.properties.selection === 'cheapest' ? '<br>(cheapest crossing)' : '')
+            );
+        }
+
+        if (route && route.geometry.coordinates.length > 1) {
           // Convert GeoJSON coordinates to Leaflet LatLng array
           // GeoJSON format is [lon, lat], Leaflet expects [lat, lon]
-          const routeCoordinates = geometry.coordinates.map((coord: [number, number]) => [
-            coord[1], // lat
-            coord[0], // lon
-          ]);
+          const routeCoordinates = route.geometry.coordinates.map(
+            ([lon, lat]): [number, number] => [lat, lon]
+          );
 
           // Remove existing route line if any
           if (routeLineRef.current && mapRef.current) {
             mapRef.current.removeLayer(routeLineRef.current);
           }
 
-          // Draw the actual driving route with solid line
+          // Draw the stored route with solid line
           const routeLine = L.polyline(routeCoordinates, {
             color: '#A67C52',
             weight: 4,
@@ -236,64 +243,42 @@ export default function RouteMap({ origin, destination, height = '300px' }: Rout
           const bounds = routeLine.getBounds();
           mapRef.current.fitBounds(bounds, { padding: [50, 50] });
         } else {
-          // Fallback to straight line if route not found
-          drawStraightLine(mapRef.current, originLat, originLng, destLat, destLng);
+          // No stored route (e.g. great-circle distance): straight lines between stops
+          drawStraightLines(mapRef.current);
         }
       } catch (error) {
-        console.warn('Failed to fetch route, using straight line:', error);
+        console.warn('Failed to fetch route, using straight lines:', error);
         // Check if map is still valid before fallback
         if (mapRef.current && mapContainerRef.current) {
-          // Fallback to straight line on error
-          drawStraightLine(mapRef.current, originLat, originLng, destLat, destLng);
+          // Fallback to straight lines on error
+          drawStraightLines(mapRef.current);
         }
       } finally {
         setIsLoadingRoute(false);
       }
     };
 
-    // Helper function to draw straight line as fallback
-    const drawStraightLine = (
-      mapInstance: L.Map | null,
-      originLat: number,
-      originLng: number,
-      destLat: number,
-      destLng: number
-    ) => {
+    // Helper function to draw straight lines between stops as fallback
+    const drawStraightLines = (mapInstance: L.Map | null) => {
       // Check if map is still valid
       if (!mapInstance || !mapContainerRef.current) {
-        console.warn('Map not available for drawing straight line');
-        return;
-      }
-
-      // Validate coordinates
-      if (
-        isNaN(originLat) || isNaN(originLng) || isNaN(destLat) || isNaN(destLng) ||
-        originLat < -90 || originLat > 90 || destLat < -90 || destLat > 90 ||
-        originLng < -180 || originLng > 180 || destLng < -180 || destLng > 180
-      ) {
-        console.warn('Invalid coordinates for drawing straight line');
+        console.warn('Map not available for drawing straight lines');
         return;
       }
 
       try {
-        const routeLine = L.polyline(
-          [[originLat, originLng], [destLat, destLng]],
-          {
-            color: '#A67C52',
-            weight: 3,
-            opacity: 0.6,
-          }
-        ).addTo(mapInstance);
+        const routeLine = L.polyline(points, {
+          color: '#A67C52',
+          weight: 3,
+          opacity: 0.6,
+        }).addTo(mapInstance);
 
         routeLineRef.current = routeLine;
 
-        // Fit map to show both markers
-        const bounds = L.latLngBounds(
-          [[originLat, originLng], [destLat, destLng]]
-        );
-        mapInstance.fitBounds(bounds, { padding: [50, 50] });
+        // Fit map to show every stop
+        mapInstance.fitBounds(L.latLngBounds(points), { padding: [50, 50] });
       } catch (error) {
-        console.error('Error drawing straight line:', error);
+        console.error('Error drawing straight lines:', error);
       }
     };
 
@@ -309,7 +294,7 @@ export default function RouteMap({ origin, destination, height = '300px' }: Rout
         mapRef.current = null;
       }
     };
-  }, [origin, destination]);
+  }, [quoteId, stops, pinsDraggable]);
 
   return (
     <div style={{ position: 'relative', height, width: '100%' }}>
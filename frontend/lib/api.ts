@@ -15,14 +15,108 @@ export interface Location {
   postal_code?: string;
   state_province?: string;
   country: 'US' | 'CA' | 'MX';
+  // Street address line (e.g. "1200 Industrial Pkwy"), geocoded to the dock
+  address?: string;
+  // Exact point (e.g. a pin dragged on the route map); skips geocoding
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export type Currency = 'USD' | 'CAD' | 'MXN';
+
+export interface AccessorialRequest {
+  code: string;
+  quantity?: number;
+}
+
+export type EquipmentType = 'dry_van' | 'reefer' | 'flatbed' | 'step_deck' | 'hotshot' | 'straight_truck';
+
+export type LoadingMethod = 'dock' | 'side' | 'top' | 'ground';
+
+export type StopType = 'pickup' | 'drop';
+
+export interface StopRequest extends Location {
+  type: StopType;
 }
 
 export interface QuoteRequest {
   origin: Location;
   destination: Location;
-  equipment_type: 'dry_van' | 'reefer' | 'flatbed' | 'step_deck' | 'hotshot' | 'straight_truck';
+  stops?: StopRequest[];
+  equipment_type: EquipmentType;
   total_weight?: number;
   pickup_date?: string;
+  accessorials?: AccessorialRequest[];
+  currency?: Currency;
+  // Port of entry code for a cross-border lane (none = cheapest crossing)
+  port_of_entry?: string;
+  // Shipper details (never affect the price)
+  customer_reference?: string | null;
+  notes?: string | null;
+}
+
+// Edits send only the fields that change; the rest keep their stored values
+export type QuoteUpdateRequest = Partial<QuoteRequest>;
+
+export interface AccessorialType {
+  code: string;
+  name: string;
+  pricing_unit: 'flat' | 'per_hour' | 'per_mile';
+  price: number;
+  allowed_equipment_types: string[] | null;
+  active: boolean;
+}
+
+export interface QuoteLineItem {
+  type: 'base' | 'equipment' | 'weight' | 'minimum' | 'stop_charge' | 'repositioning' | 'calendar_rule' | 'fuel_surcharge' | 'accessorial' | 'cross_border_fee';
+  code: string | null;
+  description: string;
+  detail: string | null;
+  quantity: number | null;
+  unit: string | null;
+  unit_price: number | null;
+  amount: number;
+}
+
+export interface CalendarRuleApplied {
+  code: string;
+  name: string;
+  rule_type: 'weekend' | 'holiday' | 'peak_season' | 'short_notice';
+  reason: string;
+  amount: number;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'cancelled';
+
+// Statuses a quote can move to (no transition leads back to draft)
+export type QuoteTransitionStatus = Exclude<QuoteStatus, 'draft'>;
+
+export interface QuoteStatusChange {
+  // null for the status the quote was created in
+  from_status: QuoteStatus | null;
+  to_status: QuoteStatus;
+  reason: string | null;
+  changed_at: string;
+}
+
+// Routing provider that measured a quote's distance
+export type DistanceSource = 'osrm' | 'valhalla' | 'great_circle' | 'fixture';
+
+export interface QuoteStop {
+  sequence: number;
+  stop_type: StopType;
+  city: string;
+  postal_code: string | null;
+  state_province: string | null;
+  country: string;
+  address: string | null;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  } | null;
+  leg_distance_miles: number | null;
 }
 
 export interface Quote {
@@ -31,6 +125,7 @@ export interface Quote {
   origin_postal_code?: string;
   origin_state_province?: string;
   origin_country: string;
+  origin_address?: string | null;
   origin_coordinates?: {
     latitude: number;
     longitude: number;
@@ -39,6 +134,7 @@ export interface Quote {
   destination_postal_code?: string;
   destination_state_province?: string;
   destination_country: string;
+  destination_address?: string | null;
   destination_coordinates?: {
     latitude: number;
     longitude: number;
@@ -49,11 +145,128 @@ export interface Quote {
   pickup_date?: string;
   distance_miles?: number;
   distance_kilometers?: number;
+  distance_source?: DistanceSource | null;
+  routing_profile?: string | null;
+  // Transit time planned from pickup_date under hours-of-service rules
+  transit_driving_hours?: number | null;
+  transit_hours?: number | null;
+  transit_days?: number | null;
+  estimated_delivery_date?: string | null;
+  hos_rules?: 'US' | 'CA' | null;
+  team_drivers?: boolean;
   quote_amount: number;
+  linehaul_amount?: number;
+  stop_count?: number;
+  stop_charge_amount?: number;
+  // Empty miles from the nearest market hub to the origin and from the destination to its nearest hub
+  deadhead_origin_miles?: number | null;
+  deadhead_origin_hub?: string | null;
+  deadhead_destination_miles?: number | null;
+  deadhead_destination_hub?: string | null;
+  repositioning_amount?: number;
+  calendar_amount?: number;
+  calendar_rules?: CalendarRuleApplied[];
+  fuel_surcharge_amount?: number;
+  fuel_surcharge_cents_per_mile?: number | null;
+  accessorials_amount?: number;
+  is_cross_border?: boolean;
+  cross_border_amount?: number;
+  port_of_entry_id?: number | null;
+  port_of_entry_name?: string | null;
+  port_of_entry_coordinates?: {
+    latitude: number;
+    longitude: number;
+  } | null;
+  port_of_entry_selection?: 'cheapest' | 'requested' | null;
+  line_items?: QuoteLineItem[];
+  stops?: QuoteStop[];
+  currency?: Currency;
+  exchange_rate?: number;
+  exchange_rate_date?: string | null;
+  quote_amount_usd?: number;
+  rate_card_id?: number | null;
+  rate_card_version?: number | null;
+  lane_rate_id?: number | null;
+  pricing_rule?: string | null;
+  status: QuoteStatus;
+  status_reason?: string | null;
+  status_changed_at?: string;
+  // End of the quote's validity (accepting is refused after it)
+  valid_until?: string | null;
+  // Quote this one was requoted from
+  parent_quote_id?: number | null;
+  customer_reference?: string | null;
+  notes?: string | null;
+  // Set when the quote is soft-deleted
+  deleted_at?: string | null;
+  // Statuses the quote can move to next
+  allowed_transitions?: QuoteTransitionStatus[];
+  status_history?: QuoteStatusChange[];
   created_at: string;
   updated_at: string;
 }
 
+export interface EquipmentRecommendationRequest {
+  origin: Location;
+  destination: Location;
+  total_weight: number;
+  pickup_date: string;
+  currency?: Currency;
+  dimensions?: {
+    length_in?: number;
+    width_in?: number;
+    height_in?: number;
+  };
+  temperature?: {
+    min_f?: number;
+    max_f?: number;
+  };
+  loading_method?: LoadingMethod;
+  port_of_entry?: string;
+}
+
+export interface EquipmentRecommendation {
+  equipment_type: EquipmentType;
+  name: string;
+  viable: boolean;
+  reasons: string[];
+  quote_amount: number | null;
+  line_items: QuoteLineItem[];
+  pricing_rule: string | null;
+  // Each viable equipment type is routed for its own truck
+  distance_miles: number | null;
+  distance_kilometers: number | null;
+  distance_source: DistanceSource | null;
+  routing_profile: string | null;
+}
+
+export interface EquipmentRecommendationResponse {
+  success: boolean;
+  data: {
+    distance_miles: number | null;
+    distance_kilometers: number | null;
+    distance_source: DistanceSource | null;
+    port_of_entry: string | null;
+    currency: Currency;
+    recommendations: EquipmentRecommendation[];
+    cheapest_equipment_type: EquipmentType | null;
+  };
+}
+
+export interface RequoteRequest {
+  // Omit to keep the original pickup date (required once it has passed)
+  pickup_date?: string;
+  equipment_type?: EquipmentType;
+}
+
+// How a requote's price compares with the quote it was requoted from (same currency)
+export interface QuotePriceDelta {
+  parent_quote_id: number;
+  parent_quote_amount: number;
+  amount: number;
+  percent: number | null;
+}
+
 export interface QuoteResponse {
   success: boolean;
   message: string;
@@ -62,6 +275,150 @@ export interface QuoteResponse {
       origin: string;
       destination: string;
     };
+    // Requotes only
+    price_delta?: QuotePriceDelta;
+  };
+}
+
+export interface QuoteUpdateResponse {
+  success: boolean;
+  message: string;
+  data: Quote & {
+    changed_fields: string[];
+    // Whether a location or pricing field changed and the quote was priced again
+    repriced: boolean;
+  };
+}
+
+export type QuoteRevisionSource = 'created' | 'requoted' | 'edited';
+
+export interface QuoteRevisionChange {
+  // Quote field, line_items.<type>[.<code>] (amount) or stops (list of stops)
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface QuoteRevision {
+  revision_number: number;
+  source: QuoteRevisionSource;
+  // Changes from the previous revision (empty for the first)
+  changes: QuoteRevisionChange[];
+  // Pricing inputs and outputs of the quote at this revision (dates as YYYY-MM-DD)
+  snapshot: Omit<Quote, 'status' | 'created_at' | 'updated_at'>;
+  created_at: string;
+}
+
+export interface QuoteRevisionsResponse {
+  success: boolean;
+  data: QuoteRevision[];
+}
+
+export interface QuoteRouteFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'LineString';
+    coordinates: [number, number][]; // [longitude, latitude]
+  };
+  properties: {
+    kind: 'route';
+    distance_source: DistanceSource | null;
+    distance_miles: number | null;
+    distance_kilometers: number | null;
+  };
+}
+
+export interface QuoteStopFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+  properties: {
+    kind: 'stop';
+    sequence: number;
+    stop_type: StopType;
+    city: string;
+    state_province: string | null;
+  };
+}
+
+export interface QuotePortOfEntryFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+  properties: {
+    kind: 'port_of_entry';
+    name: string;
+    selection: 'cheapest' | 'requested';
+  };
+}
+
+export interface QuoteRouteResponse {
+  success: boolean;
+  data: {
+    type: 'FeatureCollection';
+    features: (QuoteRouteFeature | QuoteStopFeature | QuotePortOfEntryFeature)[];
+  };
+}
+
+// Border crossing from GET /api/ports-of-entry
+export interface PortOfEntry {
+  id: number;
+  code: string;
+  name: string;
+  border_country: 'CA' | 'MX';
+  state_province: string | null;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  crossing_fee: number;
+  active: boolean;
+}
+
+// Gazetteer location suggested by GET /api/locations/search
+export interface LocationSuggestion {
+  city: string;
+  state_province: string | null;
+  country: Location['country'];
+  postal_code: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  population: number | null;
+  match: 'postal_code' | 'prefix' | 'state_province' | 'fuzzy';
+}
+
+// Location at a point, from GET /api/geocode/reverse
+export interface ReverseGeocodeResult {
+  address: string | null;
+  city: string;
+  postal_code: string | null;
+  state_province: string | null;
+  country: Location['country'];
+  display_name: string;
+  provider: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface QuoteStatusResponse {
+  success: boolean;
+  message: string;
+  data: {
+    id: number;
+    status: QuoteStatus;
+    status_reason: string | null;
+    status_changed_at: string;
+    previous_status: QuoteStatus;
+    allowed_transitions: QuoteTransitionStatus[];
+    status_history: QuoteStatusChange[];
   };
 }
 
@@ -84,10 +441,10 @@ export const quoteAPI = {
     return response.data;
   },
 
-  // Get all quotes
-  getAll: async (page = 1, limit = 10): Promise<QuotesListResponse> => {
+  // Get all quotes (deleted quotes only when asked)
+  getAll: async (page = 1, limit = 10, includeDeleted = false): Promise<QuotesListResponse> => {
     const response = await api.get<QuotesListResponse>('/api/quotes', {
-      params: { page, limit },
+      params: { page, limit, include_deleted: includeDeleted || undefined },
     });
     return response.data;
   },
@@ -100,6 +457,52 @@ export const quoteAPI = {
     return response.data;
   },
 
+  // Get the stored route of a quote (GeoJSON)
+  getRoute: async (id: number): Promise<QuoteRouteResponse> => {
+    const response = await api.get<QuoteRouteResponse>(`/api/quotes/${id}/route`);
+    return response.data;
+  },
+
+  // Get the revisions of a quote, oldest first
+  getRevisions: async (id: number): Promise<QuoteRevisionsResponse> => {
+    const response = await api.get<QuoteRevisionsResponse>(`/api/quotes/${id}/revisions`);
+    return response.data;
+  },
+
+  // Reprice an existing quote with today's rates (stored locations, optional new pickup date/equipment)
+  requote: async (id: number, request: RequoteRequest = {}): Promise<QuoteResponse> => {
+    const response = await api.post<QuoteResponse>(`/api/quotes/${id}/requote`, request);
+    return response.data;
+  },
+
+  // Edit a quote (repriced only when a location or pricing field changes)
+  update: async (id: number, changes: QuoteUpdateRequest): Promise<QuoteUpdateResponse> => {
+    const response = await api.put<QuoteUpdateResponse>(`/api/quotes/${id}`, changes);
+    return response.data;
+  },
+
+  // Soft-delete a quote
+  remove: async (id: number): Promise<{ success: boolean; message: string; data: { id: number; deleted_at: string } }> => {
+    const response = await api.delete<{ success: boolean; message: string; data: { id: number; deleted_at: string } }>(
+      `/api/quotes/${id}`
+    );
+    return response.data;
+  },
+
+  // Restore a soft-deleted quote
+  restore: async (id: number): Promise<{ success: boolean; message: string; data: Quote }> => {
+    const response = await api.post<{ success: boolean; message: string; data: Quote }>(
+      `/api/quotes/${id}/restore`
+    );
+    return response.data;
+  },
+
+  // Move a quote to a new status (a reason is required to reject)
+  updateStatus: async (id: number, status: QuoteStatus, reason?: string): Promise<QuoteStatusResponse> => {
+    const response = await api.patch<QuoteStatusResponse>(`/api/quotes/${id}/status`, { status, reason });
+    return response.data;
+  },
+
   // Health check
   health: async (): Promise<{ success: boolean; message: string }> => {
     const response = await api.get<{ success: boolean; message: string }>(
@@ -109,3 +512,60 @@ export const quoteAPI = {
   },
 };
 
+export const accessorialAPI = {
+  // Get active accessorial types
+  getAll: async (): Promise<{ success: boolean; data: AccessorialType[] }> => {
+    const response = await api.get<{ success: boolean; data: AccessorialType[] }>(
+      '/api/accessorials'
+    );
+    return response.data;
+  },
+};
+
+export const portOfEntryAPI = {
+  // Get active ports of entry (optionally only crossings into CA or MX)
+  getAll: async (country?: PortOfEntry['border_country']): Promise<{ success: boolean; data: PortOfEntry[] }> => {
+    const response = await api.get<{ success: boolean; data: PortOfEntry[] }>(
+      '/api/ports-of-entry',
+      { params: { country } }
+    );
+    return response.data;
+  },
+};
+
+export const equipmentAPI = {
+  // Check which equipment can carry a shipment and price each option
+  recommend: async (request: EquipmentRecommendationRequest): Promise<EquipmentRecommendationResponse> => {
+    const response = await api.post<EquipmentRecommendationResponse>(
+      '/api/equipment/recommendations',
+      request
+    );
+    return response.data;
+  },
+};
+
+export const locationAPI = {
+  // Suggest locations matching a city, state/province or postal code
+  search: async (
+    q: string,
+    country?: Location['country'],
+    signal?: AbortSignal
+  ): Promise<{ success: boolean; data: LocationSuggestion[] }> => {
+    const response = await api.get<{ success: boolean; data: LocationSuggestion[] }>(
+      '/api/locations/search',
+      { params: { q, country }, signal }
+    );
+    return response.data;
+  },
+};
+
+export const geocodeAPI = {
+  // Find the address, city and postal code at a point
+  reverse: async (lat: number, lon: number): Promise<{ success: boolean; data: ReverseGeocodeResult }> => {
+    const response = await api.get<{ success: boolean; data: ReverseGeocodeResult }>(
+      '/api/geocode/reverse',
+      { params: { lat, lon } }
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,30 @@
+import { Currency } from '@/lib/api';
+
+// Format a money amount in the quote's currency (e.g. "$1,234.56", "CA$1,234.56", "MX$21,450.00")
+export const formatCurrency = (
+  amount: number | string | undefined | null,
+  currency: Currency = 'USD'
+): string => {
+  const value = typeof amount === 'number' ? amount : parseFloat(String(amount ?? '0'));
+  return (isNaN(value) ? 0 : value).toLocaleString('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+// Time left until a moment, in its two largest units (e.g. "3d 4h", "5h 12m", "12m"); null once it has passed
+export const formatTimeLeft = (until: string | Date, now: number): string | null => {
+  const ms = new Date(until).getTime() - now;
+  if (isNaN(ms) || ms <= 0) return null;
+
+  const totalMinutes = Math.max(1, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};